@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * CLI tool for managing the encrypted credentials file used by the file
+ * credential provider (CREDENTIALS_FILE, encrypted with CREDENTIALS_SECRET)
+ *
+ * Usage:
+ *   npm run credentials set <credentialId> <loginUrl> <username>
+ *   npm run credentials remove <credentialId>
+ *   npm run credentials list
+ *
+ * `set` asks for the password without echoing it, or reads it from
+ * CREDENTIAL_PASSWORD; it is never an argument, which would leave it in shell
+ * history and the process list.
+ *
+ * Jobs then reference a stored credential with `credential_id` instead of
+ * sending `credential` inline.
+ */
+
+import 'dotenv/config';
+import { createInterface } from 'readline/promises';
+import { Writable } from 'stream';
+import { config } from '../src/config/index.js';
+import { getErrorMessage } from '../src/lib/error-utils.js';
+import {
+  readCredentialFile,
+  writeCredentialFile,
+} from '../src/services/credential-provider.js';
+
+const USAGE = [
+  'npm run credentials set <credentialId> <loginUrl> <username>',
+  'npm run credentials remove <credentialId>',
+  'npm run credentials list',
+];
+
+/**
+ * Read the password from CREDENTIAL_PASSWORD, or ask for it on the terminal
+ * without echoing what is typed; stdout is kept for the result
+ */
+async function readPassword(): Promise<string> {
+  if (process.env.CREDENTIAL_PASSWORD) {
+    return process.env.CREDENTIAL_PASSWORD;
+  }
+
+  process.stderr.write('Password: ');
+  const rl = createInterface({
+    input: process.stdin,
+    output: new Writable({ write: (_chunk, _encoding, done) => done() }),
+    terminal: process.stdin.isTTY,
+  });
+  try {
+    return await rl.question('');
+  } finally {
+    rl.close();
+    process.stderr.write('\n');
+  }
+}
+
+async function main() {
+  const [command, credentialId, loginUrl, username] = process.argv.slice(2);
+  const { filePath, secret } = config.credentials;
+
+  if (!secret) {
+    console.error(
+      JSON.stringify({
+        success: false,
+        error: 'Missing required environment variable: CREDENTIALS_SECRET',
+      }),
+    );
+    process.exit(1);
+  }
+
+  try {
+    const credentials = await readCredentialFile(filePath, secret);
+
+    switch (command) {
+      case 'set': {
+        if (!credentialId || !loginUrl || !username) {
+          break;
+        }
+        const password = await readPassword();
+        if (!password) {
+          break;
+        }
+        credentials[credentialId] = {
+          username,
+          password,
+          login_url: loginUrl,
+        };
+        await writeCredentialFile(filePath, secret, credentials);
+        console.log(JSON.stringify({ success: true, credentialId }));
+        return;
+      }
+      case 'remove':
+        if (!credentialId) {
+          break;
+        }
+        delete credentials[credentialId];
+        await writeCredentialFile(filePath, secret, credentials);
+        console.log(JSON.stringify({ success: true, credentialId }));
+        return;
+      case 'list':
+        // Login URLs only: the file's point is keeping the rest off screen
+        console.log(
+          JSON.stringify(
+            Object.entries(credentials).map(([id, credential]) => ({
+              credentialId: id,
+              loginUrl: credential.login_url,
+            })),
+            null,
+            2,
+          ),
+        );
+        return;
+    }
+
+    console.error(
+      JSON.stringify({
+        success: false,
+        error: 'Invalid arguments',
+        usage: USAGE,
+      }),
+    );
+    process.exit(1);
+  } catch (error: unknown) {
+    console.error(
+      JSON.stringify({
+        success: false,
+        error: getErrorMessage(error),
+      }),
+    );
+    process.exit(1);
+  }
+}
+
+void main();
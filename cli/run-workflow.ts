@@ -3,21 +3,64 @@
  * CLI tool for testing carrier workflow scripts
  *
  * Usage:
- *   npm run workflow <loginUrl> <username> <password>
+ *   npm run workflow <loginUrl> <username> <password> [startDate] [endDate]
+ *
+ * Dates are YYYY-MM-DD; startDate defaults to the first day of the current month
+ *
+ * One-time codes are generated from MFA_TOTP_SECRET when set; otherwise the
+ * CLI asks for the code the portal sent
+ *
+ * When the workflow fails, a screenshot, DOM snapshot, console log and HAR
+ * are stored (ARTIFACTS_STORE) and their URLs printed with the result, as
+ * are the duration, outcome and token usage of each workflow step
  *
  * Example:
  *   npm run workflow https://abacus.net/login myuser mypass
+ *   npm run workflow https://abacus.net/login myuser mypass 2024-01-01 2024-03-31
  */
 
 import 'dotenv/config';
+import { createInterface } from 'readline/promises';
 import type { Stagehand } from '@browserbasehq/stagehand';
+import { config } from '../src/config/index.js';
 import { createStagehandClient } from '../src/lib/stagehand-client.js';
+import {
+  createArtifactStore,
+  saveArtifacts,
+} from '../src/lib/failure-artifacts.js';
+import {
+  createStepTracer,
+  type WorkflowTracer,
+} from '../src/lib/step-tracer.js';
 import * as workflow from '../src/services/workflow-manager.js';
+import { logger, type Logger } from '../src/lib/logger.js';
 import { getErrorMessage } from '../src/lib/error-utils.js';
+import { registerMfaHandler } from '../src/lib/mfa.js';
+import {
+  installConsoleRedaction,
+  registerSecrets,
+} from '../src/lib/redaction.js';
+import { getAccountingPeriod } from '../src/lib/statement-date.js';
+import { findCarrier, listCarriers } from '../src/lib/carrier-registry.js';
 import type { WorkflowJob, WorkflowResult } from '../src/types/index.js';
 
+/**
+ * Ask for a one-time code on the terminal; stdout is kept for the result
+ */
+async function promptForMfaCode(): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return (
+      await rl.question('Enter the one-time code sent by the portal: ')
+    ).trim();
+  } finally {
+    rl.close();
+  }
+}
+
 async function main() {
-  const [loginUrl, username, password] = process.argv.slice(2);
+  const [loginUrl, username, password, startDate, endDate] =
+    process.argv.slice(2);
 
   // Validate arguments
   if (!loginUrl || !username || !password) {
@@ -25,9 +68,11 @@ async function main() {
       JSON.stringify({
         success: false,
         error: 'Missing required arguments',
-        usage: 'npm run workflow <loginUrl> <username> <password>',
+        usage:
+          'npm run workflow <loginUrl> <username> <password> [startDate] [endDate]',
         examples: [
           'npm run workflow https://abacus.net/login myuser mypass',
+          'npm run workflow https://abacus.net/login myuser mypass 2024-01-01 2024-03-31',
           'npm run workflow https://advantagepartners.com/login user pass',
         ],
       }),
@@ -35,15 +80,23 @@ async function main() {
     process.exit(1);
   }
 
+  installConsoleRedaction();
+  registerSecrets([username, password, process.env.MFA_TOTP_SECRET]);
+
   // Identify carrier from login URL
   const carrierSlug = workflow.identify(loginUrl);
+  const carrier = findCarrier(carrierSlug);
 
-  if (carrierSlug === 'unknown') {
+  if (!carrier) {
     console.error(
       JSON.stringify({
         success: false,
         error: `Could not identify carrier from URL: ${loginUrl}`,
         hint: 'Make sure the URL contains a supported carrier domain',
+        supportedCarriers: listCarriers().map(
+          ({ displayName, domains }) =>
+            `${displayName} (${domains.join(', ')})`,
+        ),
       }),
     );
     process.exit(1);
@@ -53,30 +106,28 @@ async function main() {
   try {
     // Import the workflow script dynamically
     const workflowModule = (await import(
-      `../src/workflows/${carrierSlug}.js`
+      `../src/workflows/${carrier.slug}.js`
     )) as {
       runWorkflow: (
         stagehand: Stagehand,
         job: WorkflowJob,
+        signal?: AbortSignal,
+        tracer?: WorkflowTracer,
+        log?: Logger,
       ) => Promise<WorkflowResult>;
     };
 
     if (typeof workflowModule.runWorkflow !== 'function') {
       throw new Error(
-        `Workflow script ${carrierSlug} does not export runWorkflow function`,
+        `Workflow script ${carrier.slug} does not export runWorkflow function`,
       );
     }
 
-    // Create Stagehand client
-    client = await createStagehandClient();
-
-    const accountingPeriodStartDate = new Date(
-      new Date().getFullYear(),
-      new Date().getMonth(),
-      1,
-    )
-      .toISOString()
-      .split('T')[0];
+    // First day of the current month, in local time
+    const today = new Date();
+    const accountingPeriodStartDate =
+      startDate ??
+      `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`;
 
     // Create workflow job object
     const job: WorkflowJob = {
@@ -85,15 +136,47 @@ async function main() {
         username,
         password,
         login_url: loginUrl,
+        totp_secret: process.env.MFA_TOTP_SECRET || undefined,
       },
       accounting_period_start_date: accountingPeriodStartDate,
+      ...(endDate && { accounting_period_end_date: endDate }),
     };
 
+    // Reject invalid dates before opening a browser session
+    getAccountingPeriod(job);
+    registerMfaHandler(job.job_id, promptForMfaCode);
+
+    // Create Stagehand client
+    const log = logger.child({ job_id: job.job_id, carrier: carrier.slug });
+    client = await createStagehandClient({ carrierSlug: carrier.slug, log });
+
     // Run the workflow
-    const result = await workflowModule.runWorkflow(client.stagehand, job);
+    const tracer = createStepTracer({
+      jobId: job.job_id,
+      carrierSlug: carrier.slug,
+      log,
+    });
+    const stagehand = tracer.wrap(client.stagehand);
+    const result = await tracer.run(() =>
+      workflowModule.runWorkflow(stagehand, job, undefined, tracer, log),
+    );
+    const artifactStore = createArtifactStore(config.artifacts);
+    const artifacts =
+      !result.success && artifactStore
+        ? await saveArtifacts(
+            artifactStore,
+            carrier.slug,
+            job.job_id,
+            await client.captureArtifacts(),
+            log,
+          )
+        : [];
 
     const displayResult = {
       success: result.success,
+      carrier: carrier.displayName,
+      model: client.model,
+      fallbackModel: client.getFallbackModelUsed(),
       statements: result.statements.map((stmt) => ({
         statementDate: stmt.statementDate,
         pdfUrl: stmt.pdfUrl,
@@ -103,11 +186,22 @@ async function main() {
           : undefined,
       })),
       error: result.error,
+      steps: tracer.steps().map(({ llm_calls, ...step }) => ({
+        name: step.name,
+        ...step.attributes,
+        duration_ms: step.duration_ms,
+        outcome: step.outcome,
+        llm_calls: llm_calls.length,
+        cached_calls: step.cached_calls,
+        prompt_tokens: step.prompt_tokens,
+        completion_tokens: step.completion_tokens,
+      })),
+      artifacts: artifacts.map(({ kind, url }) => ({ kind, url })),
     };
 
     console.log(JSON.stringify(displayResult, null, 2));
 
-    process.exit(result.success ? 0 : 1);
+    process.exitCode = result.success ? 0 : 1;
   } catch (error: unknown) {
     console.error(
       JSON.stringify(
@@ -120,12 +214,15 @@ async function main() {
         2,
       ),
     );
-    process.exit(1);
+    process.exitCode = 1;
   } finally {
+    // Saves the recording and selector cache, so it must run before exiting
     if (client) {
       await client.close();
     }
   }
+  // Stagehand may leave browser handles open
+  process.exit();
 }
 
 void main();
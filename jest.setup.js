@@ -8,3 +8,6 @@ process.env.GEMINI_API_KEY = 'test-gemini-key';
 process.env.CLOUDINARY_CLOUD_NAME = 'test-cloud';
 process.env.CLOUDINARY_API_KEY = 'test-cloudinary-key';
 process.env.CLOUDINARY_API_SECRET = 'test-cloudinary-secret';
+process.env.STEP_RETRY_BASE_DELAY_MS = '0';
+process.env.WORKFLOW_RETRY_BASE_DELAY_MS = '0';
+process.env.UPLOAD_RETRY_BASE_DELAY_MS = '0';
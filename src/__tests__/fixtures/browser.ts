@@ -0,0 +1,11 @@
+import { existsSync } from 'node:fs';
+import { chromium } from 'playwright';
+
+/**
+ * describe() for suites that drive a real browser
+ * Skipped unless Playwright's Chromium is installed
+ * (npx playwright install chromium)
+ */
+export const describeWithBrowser = existsSync(chromium.executablePath())
+  ? describe
+  : describe.skip;
@@ -0,0 +1,98 @@
+import {
+  STATEMENT_DATES,
+  file,
+  forbidden,
+  handleLogin,
+  html,
+  isLoggedIn,
+  samplePdf,
+  toUsDate,
+  type CarrierPortal,
+} from './helpers.js';
+
+const slug = 'com_amerisafe';
+
+/**
+ * Amerisafe: the Commission Statements page links each statement date to a
+ * JavaScript postback that returns the PDF
+ */
+export const amerisafePortal: CarrierPortal = {
+  slug,
+
+  rules: [
+    { pattern: /^Find the User Name input field$/, selector: '#username' },
+    { pattern: /^Find the Password input field$/, selector: '#password' },
+    { pattern: /^click the Login button$/, selector: '#login' },
+    {
+      pattern: /^click the Commission Statements link$/,
+      selector: '#commission-statements',
+    },
+    {
+      pattern: /date of every commission statement link/,
+      extract: async (page) => ({
+        dates: await page.$$eval('a.statement', (links) =>
+          links.map((link) => link.textContent?.trim() ?? ''),
+        ),
+      }),
+    },
+    {
+      pattern: /^Find the link for the (\S+) statement$/,
+      selector: (match) => `a.statement[data-date="${match[1]}"]`,
+    },
+  ],
+
+  handle(request) {
+    const { path } = request;
+
+    if (path === '/login') {
+      return handleLogin(request, {
+        slug,
+        usernameLabel: 'User Name',
+        submitLabel: 'Login',
+      });
+    }
+
+    if (!isLoggedIn(request, slug)) {
+      return forbidden;
+    }
+
+    if (path === '/home') {
+      return html(`
+        <a id="commission-statements" href="/${slug}/statements">
+          Commission Statements
+        </a>
+      `);
+    }
+
+    if (path === '/statements' && request.method === 'POST') {
+      const date = request.form.get('argument') ?? '';
+      return STATEMENT_DATES.includes(date)
+        ? file(samplePdf(slug, date), 'application/pdf', 'Statement.pdf')
+        : undefined;
+    }
+
+    if (path === '/statements') {
+      const links = STATEMENT_DATES.map(
+        (date) => `
+          <li><a class="statement" data-date="${toUsDate(date)}"
+            href="javascript:__doPostBack('statement', '${date}')">
+            ${toUsDate(date)}</a></li>`,
+      ).join('');
+
+      return html(`
+        <h1>Commission Statements</h1>
+        <ul>${links}</ul>
+        <script>
+          function __doPostBack(target, argument) {
+            fetch('/${slug}/statements', {
+              method: 'POST',
+              body: new URLSearchParams({ target, argument }),
+            });
+          }
+        </script>
+      `);
+    }
+
+    return undefined;
+  },
+};
@@ -0,0 +1,99 @@
+import {
+  STATEMENT_DATES,
+  file,
+  forbidden,
+  handleLogin,
+  html,
+  isLoggedIn,
+  sampleXlsx,
+  toMonthYear,
+  type CarrierPortal,
+} from './helpers.js';
+
+const slug = 'com_apagents';
+const EVENT_VALIDATION = 'c2lnbmVk';
+
+/**
+ * Advantage Partners: the post-login page lists monthly statements; each
+ * row's Download button posts a form (with ASP.NET-style hidden fields) that
+ * returns the Excel file
+ */
+export const apagentsPortal: CarrierPortal = {
+  slug,
+
+  rules: [
+    { pattern: /^Find the Email\/Username input$/, selector: '#username' },
+    { pattern: /^Find the Password input$/, selector: '#password' },
+    { pattern: /^click the Login button$/, selector: '#login' },
+    {
+      pattern: /^Extract all statements from the table/,
+      extract: async (page) => ({
+        rows: await page.$$eval('#statements tbody tr', (rows) =>
+          rows.map((row) => ({
+            month: row.querySelector('.month')?.textContent?.trim() ?? '',
+            year: row.querySelector('.year')?.textContent?.trim() ?? '',
+          })),
+        ),
+      }),
+    },
+    {
+      pattern: /download button in the row with (\w+ \d{4})$/,
+      selector: (match) => `button[data-row="${match[1]}"]`,
+    },
+  ],
+
+  handle(request) {
+    const { path } = request;
+
+    if (path === '/login') {
+      return handleLogin(request, {
+        slug,
+        usernameLabel: 'Email/Username',
+        submitLabel: 'Login',
+      });
+    }
+
+    if (!isLoggedIn(request, slug)) {
+      return forbidden;
+    }
+
+    if (path === '/home') {
+      const rows = STATEMENT_DATES.map((date) => {
+        const [month, year] = toMonthYear(date).split(' ');
+        return `
+          <tr>
+            <td class="month">${month}</td>
+            <td class="year">${year}</td>
+            <td>
+              <form method="post" action="/${slug}/download">
+                <input type="hidden" name="__EVENTVALIDATION"
+                  value="${EVENT_VALIDATION}" />
+                <input type="hidden" name="period" value="${date}" />
+                <button name="download" value="xlsx"
+                  data-row="${month} ${year}">Download</button>
+              </form>
+            </td>
+          </tr>`;
+      }).join('');
+
+      return html(`<table id="statements"><tbody>${rows}</tbody></table>`);
+    }
+
+    if (path === '/download' && request.method === 'POST') {
+      const date = request.form.get('period') ?? '';
+      if (
+        request.form.get('__EVENTVALIDATION') !== EVENT_VALIDATION ||
+        !STATEMENT_DATES.includes(date)
+      ) {
+        return undefined;
+      }
+      return file(
+        sampleXlsx(slug, date),
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Statement.xlsx',
+      );
+    }
+
+    return undefined;
+  },
+};
@@ -0,0 +1,117 @@
+import {
+  STATEMENT_DATES,
+  file,
+  forbidden,
+  handleLogin,
+  html,
+  isLoggedIn,
+  samplePdf,
+  toUsDate,
+  type CarrierPortal,
+} from './helpers.js';
+
+const slug = 'com_ufginsurance';
+
+/**
+ * UFG: REPORTS > Agency Statements renders the table after a loading
+ * indicator; each Monthly Statement button fetches the PDF and opens it as a
+ * blob URL in a new tab
+ */
+export const ufgPortal: CarrierPortal = {
+  slug,
+
+  rules: [
+    { pattern: /^Find the User ID input$/, selector: '#username' },
+    { pattern: /^Find the Password input$/, selector: '#password' },
+    { pattern: /^click the Submit button$/, selector: '#login' },
+    { pattern: /^click the REPORTS menu item$/, selector: '#reports' },
+    {
+      pattern: /^click the Agency Statements button$/,
+      selector: '#agency-statements',
+    },
+    {
+      pattern: /dates from the table in the "Direct Bill Monthly Commissions"/,
+      extract: async (page) => ({
+        dates: await page.$$eval('#direct-bill td:first-child', (cells) =>
+          cells.map((cell) => cell.textContent?.trim() ?? ''),
+        ),
+      }),
+    },
+    {
+      pattern: /Monthly Statement button in the row with date (\S+)$/,
+      selector: (match) => `button.monthly[data-date="${match[1]}"]`,
+    },
+  ],
+
+  handle(request) {
+    const { path } = request;
+
+    if (path === '/login') {
+      return handleLogin(request, {
+        slug,
+        usernameLabel: 'User ID',
+        submitLabel: 'Submit',
+      });
+    }
+
+    if (!isLoggedIn(request, slug)) {
+      return forbidden;
+    }
+
+    if (path === '/home') {
+      return html(`
+        <button id="reports"
+          onclick="document.getElementById('reports-menu').hidden = false">
+          REPORTS
+        </button>
+        <div id="reports-menu" hidden>
+          <button id="agency-statements"
+            onclick="location.href = '/${slug}/statements'">
+            Agency Statements
+          </button>
+        </div>
+      `);
+    }
+
+    if (path === '/statements') {
+      const rows = STATEMENT_DATES.map(
+        (date) => `
+          <tr>
+            <td>${toUsDate(date)}</td>
+            <td><button class="monthly" data-date="${toUsDate(date)}"
+              data-iso="${date}">Monthly Statement</button></td>
+          </tr>`,
+      ).join('');
+
+      return html(`
+        <div class="uikit__loading-indicator">Loading...</div>
+        <h2>Direct Bill Monthly Commissions (100 Series Policies)</h2>
+        <table id="direct-bill">
+          <tbody><tr><td>Agency Bill</td><td></td></tr>${rows}</tbody>
+        </table>
+        <script>
+          setTimeout(() => {
+            document.querySelector('.uikit__loading-indicator').remove();
+          }, 200);
+          document.querySelectorAll('button.monthly').forEach((button) => {
+            button.addEventListener('click', async () => {
+              const response = await fetch(
+                '/${slug}/api/agency-statement?date=' + button.dataset.iso,
+              );
+              window.open(URL.createObjectURL(await response.blob()));
+            });
+          });
+        </script>
+      `);
+    }
+
+    if (path === '/api/agency-statement') {
+      const date = request.query.get('date') ?? '';
+      return STATEMENT_DATES.includes(date)
+        ? file(samplePdf(slug, date), 'application/pdf')
+        : undefined;
+    }
+
+    return undefined;
+  },
+};
@@ -0,0 +1,161 @@
+import type { CarrierSlug } from '../../../types/index.js';
+import type { StubRule } from '../stub-stagehand.js';
+
+/** Credentials every mock portal accepts */
+export const USERNAME = 'agent@example.com';
+export const PASSWORD = 'correct-horse';
+
+export interface PortalRequest {
+  method: string;
+  /** Path below the carrier's prefix, e.g. "/login" */
+  path: string;
+  query: URLSearchParams;
+  form: URLSearchParams;
+  cookies: Record<string, string>;
+}
+
+export interface PortalResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string | Buffer;
+}
+
+/**
+ * Synthetic carrier portal, served under `/{slug}/`
+ */
+export interface CarrierPortal {
+  slug: CarrierSlug;
+  /** Resolves the workflow's instructions against this portal's pages */
+  rules: StubRule[];
+  /** Handle a request; undefined means 404 */
+  handle: (request: PortalRequest) => PortalResponse | undefined;
+}
+
+export function html(body: string, status = 200): PortalResponse {
+  return {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    body: `<!doctype html><html><body>${body}</body></html>`,
+  };
+}
+
+export function file(
+  body: Buffer,
+  contentType: string,
+  filename?: string,
+): PortalResponse {
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      ...(filename && {
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      }),
+    },
+    body,
+  };
+}
+
+export function redirect(
+  location: string,
+  headers: Record<string, string> = {},
+): PortalResponse {
+  return { status: 302, headers: { Location: location, ...headers }, body: '' };
+}
+
+export const forbidden: PortalResponse = {
+  status: 403,
+  headers: { 'Content-Type': 'text/plain' },
+  body: 'Session expired',
+};
+
+export function isLoggedIn(request: PortalRequest, slug: CarrierSlug): boolean {
+  return request.cookies[`session_${slug}`] === 'valid';
+}
+
+interface LoginPageOptions {
+  slug: CarrierSlug;
+  usernameLabel: string;
+  submitLabel: string;
+  error?: string;
+}
+
+/**
+ * Render a login form with #username, #password and #login controls
+ */
+export function loginPage(options: LoginPageOptions): PortalResponse {
+  const { slug, usernameLabel, submitLabel, error } = options;
+
+  return html(`
+    <h1>Agent Login</h1>
+    ${error ? `<p class="error">${error}</p>` : ''}
+    <form method="post" action="/${slug}/login">
+      <label>${usernameLabel} <input id="username" name="username" /></label>
+      <label>Password <input id="password" name="password" type="password" /></label>
+      <button id="login" type="submit">${submitLabel}</button>
+    </form>
+  `);
+}
+
+/**
+ * Handle GET/POST of the login page, redirecting to `/{slug}/home` with a
+ * session cookie when the credentials match
+ */
+export function handleLogin(
+  request: PortalRequest,
+  options: Omit<LoginPageOptions, 'error'>,
+): PortalResponse {
+  if (request.method !== 'POST') {
+    return loginPage(options);
+  }
+
+  if (
+    request.form.get('username') !== USERNAME ||
+    request.form.get('password') !== PASSWORD
+  ) {
+    return loginPage({ ...options, error: 'Invalid username or password.' });
+  }
+
+  return redirect(`/${options.slug}/home`, {
+    'Set-Cookie': `session_${options.slug}=valid; Path=/; HttpOnly`,
+  });
+}
+
+/** Statements every mock portal lists (ISO dates, oldest first) */
+export const STATEMENT_DATES = ['2023-12-01', '2024-01-01', '2024-02-01'];
+
+/**
+ * Format an ISO date as MM/DD/YYYY
+ */
+export function toUsDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Format an ISO date as "January 2024"
+ */
+export function toMonthYear(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Minimal PDF identifying the carrier and statement
+ */
+export function samplePdf(slug: CarrierSlug, isoDate: string): Buffer {
+  return Buffer.from(`%PDF-1.4\n% ${slug} statement ${isoDate}\n%%EOF\n`);
+}
+
+/**
+ * Bytes detected as XLSX (ZIP with an xl/ part) identifying the statement
+ */
+export function sampleXlsx(slug: CarrierSlug, isoDate: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    Buffer.from(`xl/workbook.xml ${slug} statement ${isoDate}`),
+  ]);
+}
@@ -0,0 +1,101 @@
+import {
+  STATEMENT_DATES,
+  file,
+  forbidden,
+  handleLogin,
+  html,
+  isLoggedIn,
+  redirect,
+  samplePdf,
+  toUsDate,
+  type CarrierPortal,
+} from './helpers.js';
+
+const slug = 'net_abacus';
+
+/**
+ * Abacus: My Firm > Statements lists billing periods whose download links
+ * redirect to the PDF in object storage
+ */
+export const abacusPortal: CarrierPortal = {
+  slug,
+
+  rules: [
+    { pattern: /^Find the Username input$/, selector: '#username' },
+    { pattern: /^Find the Password input$/, selector: '#password' },
+    { pattern: /^click the Log In button$/, selector: '#login' },
+    { pattern: /^click the My Firm menu item$/, selector: '#my-firm' },
+    {
+      pattern: /^click the Statements option in the dropdown$/,
+      selector: '#statements',
+    },
+    {
+      pattern: /start date of the billing period of every statement/,
+      extract: async (page) => ({
+        dates: await page.$$eval('td.period-start', (cells) =>
+          cells.map((cell) => cell.textContent?.trim() ?? ''),
+        ),
+      }),
+    },
+    {
+      pattern:
+        /Download button for the Statement with billing period of (\S+)$/,
+      selector: (match) => `a.download[data-period="${match[1]}"]`,
+    },
+  ],
+
+  handle(request) {
+    const { path } = request;
+
+    if (path === '/login') {
+      return handleLogin(request, {
+        slug,
+        usernameLabel: 'Username',
+        submitLabel: 'Log In',
+      });
+    }
+
+    // Stands in for the signed S3 URL: no session needed
+    const stored = /^\/storage\/statement-(\d{4}-\d{2}-\d{2})\.pdf$/.exec(path);
+    if (stored) {
+      return file(samplePdf(slug, stored[1]), 'application/pdf');
+    }
+
+    if (!isLoggedIn(request, slug)) {
+      return forbidden;
+    }
+
+    if (path === '/home') {
+      return html(`
+        <nav>
+          <button id="my-firm"
+            onclick="document.getElementById('firm-menu').hidden = false">
+            My Firm
+          </button>
+          <ul id="firm-menu" hidden>
+            <li><a id="statements" href="/${slug}/statements">Statements</a></li>
+          </ul>
+        </nav>
+      `);
+    }
+
+    if (path === '/statements') {
+      const rows = STATEMENT_DATES.map(
+        (date) => `
+          <tr>
+            <td class="period-start">${toUsDate(date)}</td>
+            <td><a class="download" data-period="${date}"
+              href="/${slug}/account/statements/${date}">Download</a></td>
+          </tr>`,
+      ).join('');
+      return html(`<h1>Statements</h1><table><tbody>${rows}</tbody></table>`);
+    }
+
+    const statement = /^\/account\/statements\/(\d{4}-\d{2}-\d{2})$/.exec(path);
+    if (statement) {
+      return redirect(`/${slug}/storage/statement-${statement[1]}.pdf`);
+    }
+
+    return undefined;
+  },
+};
@@ -0,0 +1,88 @@
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { CarrierSlug } from '../../../types/index.js';
+import { amerisafePortal } from './com_amerisafe.js';
+import { apagentsPortal } from './com_apagents.js';
+import { ufgPortal } from './com_ufginsurance.js';
+import { abacusPortal } from './net_abacus.js';
+import type { CarrierPortal, PortalRequest } from './helpers.js';
+
+export { PASSWORD, USERNAME, samplePdf, sampleXlsx } from './helpers.js';
+
+/** Mock portal for every carrier with a workflow */
+export const PORTALS: CarrierPortal[] = [
+  amerisafePortal,
+  apagentsPortal,
+  ufgPortal,
+  abacusPortal,
+];
+
+export interface PortalServer {
+  /** Login page URL for a carrier's portal */
+  loginUrl: (slug: CarrierSlug) => string;
+  close: () => Promise<void>;
+}
+
+function parseCookies(header = ''): Record<string, string> {
+  return Object.fromEntries(
+    header
+      .split(';')
+      .map((pair) => pair.trim().split('='))
+      .filter(([name]) => name)
+      .map(([name, ...value]) => [name, value.join('=')]),
+  );
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+/**
+ * Serve the mock carrier portals on a random local port
+ * Each portal lives under `/{slug}/`
+ * @returns Running server
+ */
+export async function startPortalServer(): Promise<PortalServer> {
+  const server = createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const [, slug, ...rest] = url.pathname.split('/');
+      const portal = PORTALS.find((candidate) => candidate.slug === slug);
+
+      const request: PortalRequest = {
+        method: req.method ?? 'GET',
+        path: `/${rest.join('/')}`,
+        query: url.searchParams,
+        form: new URLSearchParams(await readBody(req)),
+        cookies: parseCookies(req.headers.cookie),
+      };
+      const response = portal?.handle(request);
+
+      if (!response) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+        return;
+      }
+      res.writeHead(response.status, response.headers);
+      res.end(response.body);
+    })();
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    loginUrl: (slug) => `http://127.0.0.1:${port}/${slug}/login`,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
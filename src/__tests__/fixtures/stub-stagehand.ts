@@ -0,0 +1,97 @@
+import type { Stagehand } from '@browserbasehq/stagehand';
+import type { Page } from 'playwright';
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * Deterministic stand-in for the LLM behind one act/observe/extract instruction
+ */
+export interface StubRule {
+  /** Matches the natural-language instruction */
+  pattern: RegExp;
+  /** Element the instruction refers to (act and observe) */
+  selector?: string | ((match: RegExpExecArray) => string);
+  /** Data an extract instruction returns, read from the page */
+  extract?: (page: Page) => Promise<unknown>;
+}
+
+const TYPE_INSTRUCTION = /^type '(.*)' into /;
+
+function findRule(
+  rules: StubRule[],
+  instruction: string,
+): { rule: StubRule; match: RegExpExecArray } {
+  for (const rule of rules) {
+    const match = rule.pattern.exec(instruction);
+    if (match) {
+      return { rule, match };
+    }
+  }
+  throw new Error(`No stub rule for instruction: ${instruction}`);
+}
+
+function getSelector(
+  rule: StubRule,
+  match: RegExpExecArray,
+  instruction: string,
+): string {
+  if (!rule.selector) {
+    throw new Error(`Stub rule has no selector for: ${instruction}`);
+  }
+  return typeof rule.selector === 'function'
+    ? rule.selector(match)
+    : rule.selector;
+}
+
+/**
+ * Wrap a Playwright page in a Stagehand-like client whose act, observe and
+ * extract resolve instructions from fixed rules instead of calling an LLM
+ * @param page - Playwright page
+ * @param rules - Instruction rules for the carrier portal under test
+ * @returns Object usable as the `stagehand` argument of runWorkflow
+ */
+export function createStubStagehand(page: Page, rules: StubRule[]): Stagehand {
+  const act = async (instruction: string) => {
+    const { rule, match } = findRule(rules, instruction);
+    const selector = getSelector(rule, match, instruction);
+    const typed = TYPE_INSTRUCTION.exec(instruction);
+
+    if (typed) {
+      await page.fill(selector, typed[1]);
+    } else {
+      await page.click(selector);
+    }
+    return { success: true, message: instruction, action: instruction };
+  };
+
+  const observe = async (
+    options: string | { instruction: string } = { instruction: '' },
+  ) => {
+    const instruction =
+      typeof options === 'string' ? options : options.instruction;
+    const { rule, match } = findRule(rules, instruction);
+    const selector = getSelector(rule, match, instruction);
+
+    // Like the LLM, report nothing when the element isn't on the page
+    if ((await page.locator(selector).count()) === 0) {
+      return [];
+    }
+    return [{ selector, description: instruction }];
+  };
+
+  const extract = async ({
+    instruction,
+    schema,
+  }: {
+    instruction: string;
+    schema: ZodTypeAny;
+  }) => {
+    const { rule } = findRule(rules, instruction);
+    if (!rule.extract) {
+      throw new Error(`Stub rule has no extract for: ${instruction}`);
+    }
+    return schema.parse(await rule.extract(page)) as unknown;
+  };
+
+  Object.assign(page, { act, observe, extract });
+  return { page } as unknown as Stagehand;
+}
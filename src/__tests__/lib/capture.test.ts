@@ -0,0 +1,203 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { chromium, type Browser, type Page } from 'playwright';
+import {
+  captureFormPost,
+  captureNewTab,
+  captureResponse,
+  captureRoute,
+  getResponseFilename,
+  isPdfResponse,
+} from '../../lib/capture.js';
+import { describeWithBrowser } from '../fixtures/browser.js';
+
+const PDF = Buffer.from('%PDF-1.4 test statement');
+
+const TEST_PAGE = `<!doctype html>
+<html>
+  <body>
+    <a id="new-tab" href="/files/statement.pdf" target="_blank">Open</a>
+    <button id="blob" onclick="fetch('/api/agency-statement').then((r) => r.blob())">
+      Monthly Statement
+    </button>
+    <form action="/download" method="post">
+      <input type="hidden" name="period" value="2024-01" />
+      <button id="form-post" name="action" value="excel">Download</button>
+    </form>
+    <button id="orphan">Not in a form</button>
+    <button id="postback" onclick="fetch('/postback')">Statement</button>
+  </body>
+</html>`;
+
+/**
+ * Serve a small carrier-like portal exercising each capture strategy
+ */
+function startServer(): Promise<Server> {
+  const server = createServer((req, res) => {
+    if (req.url === '/') {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(TEST_PAGE);
+    } else if (req.url === '/files/statement.pdf') {
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end(PDF);
+    } else if (req.url === '/api/agency-statement') {
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end(PDF);
+    } else if (req.url === '/download' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        res.writeHead(200, {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': 'attachment; filename="January 2024.csv"',
+        });
+        res.end(`received,${body}\n`);
+      });
+    } else if (req.url === '/postback') {
+      res.writeHead(200, {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': "inline; filename*=UTF-8''Stmt%2001.pdf",
+      });
+      res.end(PDF);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+describe('capture', () => {
+  describe('getResponseFilename', () => {
+    it('should prefer the encoded Content-Disposition filename', () => {
+      expect(
+        getResponseFilename(
+          {
+            'content-disposition':
+              'attachment; filename="fallback.pdf"; filename*=UTF-8\'\'Jan%202024.pdf',
+          },
+          'https://portal.example.com/download',
+        ),
+      ).toBe('Jan 2024.pdf');
+    });
+
+    it('should use the plain Content-Disposition filename', () => {
+      expect(
+        getResponseFilename(
+          { 'content-disposition': 'attachment; filename="report.xlsx"' },
+          'https://portal.example.com/download',
+        ),
+      ).toBe('report.xlsx');
+    });
+
+    it('should fall back to the URL path, then the fallback name', () => {
+      expect(
+        getResponseFilename({}, 'https://cdn.example.com/files/jan.pdf?x=1'),
+      ).toBe('jan.pdf');
+      expect(
+        getResponseFilename({}, 'https://cdn.example.com/', 'Statement.pdf'),
+      ).toBe('Statement.pdf');
+    });
+  });
+
+  describeWithBrowser('in a browser', () => {
+    let server: Server;
+    let browser: Browser;
+    let page: Page;
+
+    beforeAll(async () => {
+      server = await startServer();
+      browser = await chromium.launch();
+    });
+
+    afterAll(async () => {
+      await browser.close();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+      const { port } = server.address() as AddressInfo;
+      page = await browser.newPage();
+      await page.goto(`http://127.0.0.1:${port}/`);
+    });
+
+    afterEach(async () => {
+      await page.context().close();
+    });
+
+    it('should capture a file opened in a new tab', async () => {
+      const file = await captureNewTab(page, () => page.click('#new-tab'), {
+        urlIncludes: '.pdf',
+      });
+
+      expect(file.buffer.equals(PDF)).toBe(true);
+      expect(file.url).toMatch(/\/files\/statement\.pdf$/);
+      expect(file.contentType).toBe('application/pdf');
+      expect(file.filename).toBe('statement.pdf');
+      expect(page.context().pages()).toHaveLength(1);
+    });
+
+    it('should reject a new tab with an unexpected URL', async () => {
+      await expect(
+        captureNewTab(page, () => page.click('#new-tab'), {
+          urlIncludes: 'documents.example.com',
+        }),
+      ).rejects.toThrow('New tab URL does not contain "documents.example.com"');
+    });
+
+    it('should time out when no tab opens', async () => {
+      await expect(
+        captureNewTab(page, () => page.click('#orphan'), { timeoutMs: 500 }),
+      ).rejects.toThrow(/Timeout 500ms exceeded/);
+    });
+
+    it('should capture an intercepted response', async () => {
+      const file = await captureRoute(page, '**/*agency-statement*', () =>
+        page.click('#blob'),
+      );
+
+      expect(file.buffer.equals(PDF)).toBe(true);
+      expect(file.filename).toBe('agency-statement');
+    });
+
+    it('should time out when no request matches the route', async () => {
+      await expect(
+        captureRoute(page, '**/*nothing*', () => page.click('#blob'), {
+          timeoutMs: 500,
+        }),
+      ).rejects.toThrow(
+        'Timed out after 500ms waiting for a response matching **/*nothing*',
+      );
+    });
+
+    it('should replay a form POST with the form fields', async () => {
+      const file = await captureFormPost(page, '#form-post');
+
+      expect(file.buffer.toString()).toBe(
+        'received,period=2024-01&action=excel\n',
+      );
+      expect(file.contentType).toBe('text/csv');
+      expect(file.filename).toBe('January 2024.csv');
+    });
+
+    it('should reject a control outside a form', async () => {
+      await expect(captureFormPost(page, '#orphan')).rejects.toThrow(
+        'Download control is not inside a form: #orphan',
+      );
+    });
+
+    it('should capture a response received by the page', async () => {
+      const file = await captureResponse(page, () => page.click('#postback'), {
+        match: isPdfResponse,
+      });
+
+      expect(file.buffer.equals(PDF)).toBe(true);
+      expect(file.filename).toBe('Stmt 01.pdf');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import {
+  findCarrier,
+  findCarrierByHostname,
+  listCarriers,
+  toCarrierResponse,
+} from '../../lib/carrier-registry.js';
+
+describe('carrier-registry', () => {
+  describe('listCarriers', () => {
+    it('should have a workflow file for every carrier', () => {
+      for (const { slug } of listCarriers()) {
+        const workflowPath = path.join('src', 'workflows', `${slug}.ts`);
+        expect(existsSync(workflowPath)).toBe(true);
+      }
+    });
+
+    it('should not share domains or aliases between carriers', () => {
+      const names = listCarriers().flatMap(({ slug, domains, aliases }) => [
+        slug,
+        ...domains,
+        ...aliases,
+      ]);
+      expect(new Set(names).size).toBe(names.length);
+    });
+  });
+
+  describe('findCarrierByHostname', () => {
+    it('should match registered domains and their subdomains', () => {
+      expect(findCarrierByHostname('abacus.net')?.slug).toBe('net_abacus');
+      expect(findCarrierByHostname('Portal.Abacus.NET')?.slug).toBe(
+        'net_abacus',
+      );
+      expect(findCarrierByHostname('advantagepartners.com')?.slug).toBe(
+        'com_apagents',
+      );
+    });
+
+    it('should not match lookalike domains', () => {
+      expect(findCarrierByHostname('notabacus.net')).toBeUndefined();
+      expect(findCarrierByHostname('abacus.net.example.com')).toBeUndefined();
+    });
+  });
+
+  describe('findCarrier', () => {
+    it('should find carriers by slug or alias', () => {
+      expect(findCarrier('com_ufginsurance')?.displayName).toBe(
+        'UFG Insurance',
+      );
+      expect(findCarrier(' UFG ')?.slug).toBe('com_ufginsurance');
+      expect(findCarrier('advantage-partners')?.slug).toBe('com_apagents');
+    });
+
+    it('should return undefined for unknown names', () => {
+      expect(findCarrier('com_example')).toBeUndefined();
+    });
+  });
+
+  describe('toCarrierResponse', () => {
+    it('should use snake_case fields', () => {
+      expect(toCarrierResponse(findCarrier('abacus')!)).toEqual({
+        slug: 'net_abacus',
+        display_name: 'Abacus',
+        domains: ['abacus.net'],
+        aliases: ['abacus'],
+        statement_formats: ['pdf'],
+      });
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import type { Stagehand } from '@browserbasehq/stagehand';
+import {
+  createDeclarativeWorkflow,
+  type DeclarativeWorkflowDefinition,
+} from '../../lib/declarative-workflow.js';
+import type { WorkflowJob } from '../../types/index.js';
+
+const job: WorkflowJob = {
+  job_id: 'job-1',
+  credential: {
+    username: 'user',
+    password: 'pass',
+    login_url: 'https://portal.example.com/login',
+  },
+  accounting_period_start_date: '2024-01-01',
+};
+
+const definition: DeclarativeWorkflowDefinition = {
+  login: {
+    usernameField: 'Username input',
+    passwordField: 'Password input',
+    submitButton: 'Login button',
+  },
+  navigation: [{ act: 'click the Statements link' }, { waitMs: 500 }],
+  table: {
+    instruction: 'Extract the month and year of every statement',
+    dateColumns: ['month', 'year'],
+  },
+  download: {
+    control: 'Find the download button in the row with {month} {year}',
+    capture: { strategy: 'form_post' },
+    filename: 'Statement_{date}.xlsx',
+  },
+};
+
+const buildStagehand = (
+  rows: Record<string, string>[],
+  bodyText = 'Welcome back',
+) => {
+  const post = jest.fn().mockResolvedValue({
+    ok: () => true,
+    status: () => 200,
+    statusText: () => 'OK',
+    url: () => 'https://portal.example.com/download',
+    headers: () => ({
+      'content-type':
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    }),
+    body: () => Promise.resolve(Buffer.from('PK\u0003\u0004xl/')),
+  });
+  const fill = jest.fn().mockResolvedValue(undefined);
+  const page = {
+    goto: jest.fn().mockResolvedValue(undefined),
+    act: jest.fn().mockResolvedValue(undefined),
+    waitForTimeout: jest.fn().mockResolvedValue(undefined),
+    waitForLoadState: jest.fn().mockResolvedValue(undefined),
+    extract: jest.fn().mockResolvedValue({ rows }),
+    observe: jest.fn().mockResolvedValue([{ selector: 'xpath=//button' }]),
+    locator: jest.fn().mockReturnValue({
+      fill,
+      innerText: jest.fn().mockResolvedValue(bodyText),
+      evaluate: jest.fn().mockResolvedValue({
+        action: 'https://portal.example.com/download',
+        fields: { statement: '1' },
+      }),
+    }),
+    request: { post },
+    context: () => ({ cookies: jest.fn().mockResolvedValue([]) }),
+  };
+  return { stagehand: { page } as unknown as Stagehand, page, post, fill };
+};
+
+describe('declarative-workflow', () => {
+  it('should log in, navigate and download the row for the period', async () => {
+    const { stagehand, page, post, fill } = buildStagehand([
+      { month: 'December', year: '2023' },
+      { month: 'January', year: '2024' },
+    ]);
+
+    const result = await createDeclarativeWorkflow(definition)(stagehand, job);
+
+    expect(result).toMatchObject({
+      success: true,
+      statements: [
+        {
+          filename: 'Statement_2024-01-01.xlsx',
+          statementDate: '2024-01-01',
+        },
+      ],
+    });
+    expect(result.statements[0].fileBuffer).toBeInstanceOf(Buffer);
+    expect(page.goto).toHaveBeenCalledWith('https://portal.example.com/login');
+    expect(page.observe).toHaveBeenCalledWith('Find the Username input');
+    expect(page.observe).toHaveBeenCalledWith('Find the Password input');
+    expect(fill.mock.calls).toEqual([['user'], ['pass']]);
+    expect(page.act.mock.calls).toEqual([
+      ['click the Login button'],
+      ['click the Statements link'],
+    ]);
+    expect(page.waitForTimeout).toHaveBeenCalledWith(500);
+    expect(page.observe).toHaveBeenCalledWith(
+      'Find the download button in the row with January 2024',
+    );
+    expect(post).toHaveBeenCalledWith('https://portal.example.com/download', {
+      form: { statement: '1' },
+      timeout: 10000,
+    });
+  });
+
+  it('should download every row within an accounting period range', async () => {
+    const { stagehand } = buildStagehand([
+      { month: 'March', year: '2024' },
+      { month: 'Totals', year: '' },
+      { month: 'January', year: '2024' },
+      { month: 'April', year: '2024' },
+    ]);
+
+    const result = await createDeclarativeWorkflow(definition)(stagehand, {
+      ...job,
+      accounting_period_end_date: '2024-03-31',
+    });
+
+    expect(result.statements.map((s) => s.statementDate)).toEqual([
+      '2024-01-01',
+      '2024-03-01',
+    ]);
+  });
+
+  it('should only download the latest row when configured', async () => {
+    const { stagehand } = buildStagehand([
+      { month: 'January', year: '2024' },
+      { month: 'February', year: '2024' },
+    ]);
+
+    const result = await createDeclarativeWorkflow({
+      ...definition,
+      select: 'latest',
+    })(stagehand, { ...job, accounting_period_end_date: '2024-12-31' });
+
+    expect(result.statements.map((s) => s.statementDate)).toEqual([
+      '2024-02-01',
+    ]);
+  });
+
+  it('should match monthly rows by the month containing the start date', async () => {
+    const { stagehand, page } = buildStagehand([
+      { month: 'February', year: '2024' },
+      { month: 'March', year: '2024' },
+    ]);
+
+    const result = await createDeclarativeWorkflow({
+      ...definition,
+      table: { ...definition.table, monthly: true },
+    })(stagehand, { ...job, accounting_period_start_date: '2024-03-15' });
+
+    expect(result.statements.map((s) => s.statementDate)).toEqual([
+      '2024-03-15',
+    ]);
+    expect(page.observe).toHaveBeenCalledWith(
+      'Find the download button in the row with March 2024',
+    );
+  });
+
+  it('should succeed with no statements when no row matches', async () => {
+    const { stagehand, page } = buildStagehand([
+      { month: 'June', year: '2023' },
+    ]);
+
+    const result = await createDeclarativeWorkflow(definition)(stagehand, job);
+
+    expect(result).toEqual({ success: true, statements: [] });
+    // Only the login fields are looked up
+    expect(page.observe).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail with the login failure reason', async () => {
+    const { stagehand, page } = buildStagehand(
+      [],
+      'Invalid username or password',
+    );
+
+    const result = await createDeclarativeWorkflow(definition)(stagehand, job);
+
+    expect(result).toMatchObject({
+      success: false,
+      failureReason: 'invalid_credentials',
+    });
+    expect(page.extract).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the download control cannot be found', async () => {
+    const { stagehand, page } = buildStagehand([
+      { month: 'January', year: '2024' },
+    ]);
+    page.observe.mockImplementation((instruction: string) =>
+      Promise.resolve(
+        instruction.startsWith('Find the download')
+          ? []
+          : [{ selector: 'xpath=//input' }],
+      ),
+    );
+
+    const result = await createDeclarativeWorkflow(definition)(stagehand, job);
+
+    expect(result).toEqual({
+      success: false,
+      statements: [],
+      error:
+        'Could not find download control: Find the download button in the row with January 2024',
+      failureReason: 'carrier_unavailable',
+    });
+  });
+
+  it('should reject templates with unknown placeholders', async () => {
+    const { stagehand } = buildStagehand([{ month: 'January', year: '2024' }]);
+
+    const result = await createDeclarativeWorkflow({
+      ...definition,
+      download: { ...definition.download, control: 'Row {period}' },
+    })(stagehand, job);
+
+    expect(result.error).toBe('Unknown placeholder {period} in "Row {period}"');
+  });
+});
@@ -0,0 +1,255 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { Page, Stagehand } from '@browserbasehq/stagehand';
+import {
+  createArtifactRecorder,
+  createLocalArtifactStore,
+  saveArtifacts,
+  type ArtifactFile,
+} from '../../lib/failure-artifacts.js';
+import { registerSecrets } from '../../lib/redaction.js';
+
+jest.mock('../../lib/cloudinary-service.js');
+
+type Listener = (arg: unknown) => void;
+
+function createFakePage() {
+  const listeners = new Map<string, Listener>();
+  const page = {
+    on: (event: string, listener: Listener) => listeners.set(event, listener),
+    context: () => ({
+      on: (event: string, listener: Listener) =>
+        listeners.set(`context:${event}`, listener),
+    }),
+    screenshot: jest.fn((_options: unknown) =>
+      Promise.resolve(Buffer.from('png')),
+    ),
+    content: jest.fn(() =>
+      Promise.resolve('<input name="user" value="agent-secret-user">'),
+    ),
+    act: jest.fn((_options: unknown) =>
+      Promise.resolve({ success: true, message: 'done', action: 'click' }),
+    ),
+  };
+  const emit = (event: string, arg: unknown) => listeners.get(event)?.(arg);
+  return { page, emit };
+}
+
+const request = {
+  url: () => 'https://portal.abacus.net/api/statements?page=2',
+  method: () => 'GET',
+  timing: () => ({
+    startTime: Date.parse('2024-01-15T10:00:00.000Z'),
+    requestStart: 5,
+    responseStart: 25,
+    responseEnd: 40,
+  }),
+  allHeaders: () =>
+    Promise.resolve({ accept: 'application/json', cookie: 'session=abc123' }),
+  response: () =>
+    Promise.resolve({
+      status: () => 500,
+      statusText: () => 'Internal Server Error',
+      allHeaders: () =>
+        Promise.resolve({
+          'content-type': 'application/json',
+          'set-cookie': 'session=def456',
+        }),
+    }),
+  failure: () => null,
+};
+
+function findFile(files: ArtifactFile[], filename: string): ArtifactFile {
+  const file = files.find((candidate) => candidate.filename === filename);
+  if (!file) {
+    throw new Error(`Missing ${filename}`);
+  }
+  return file;
+}
+
+describe('failure-artifacts', () => {
+  describe('createArtifactRecorder', () => {
+    it('should capture a screenshot, DOM, console log and HAR', async () => {
+      const { page, emit } = createFakePage();
+      const recorder = createArtifactRecorder(page as unknown as Page, {
+        everyStep: false,
+      });
+
+      emit('console', { type: () => 'error', text: () => 'Uncaught 500' });
+      emit('context:requestfinished', request);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const files = await recorder.capture();
+
+      expect(files.map(({ kind }) => kind)).toEqual([
+        'screenshot',
+        'dom',
+        'console',
+        'har',
+      ]);
+      expect(page.screenshot).toHaveBeenCalledWith({ fullPage: true });
+      expect(findFile(files, 'console.log').content.toString()).toContain(
+        '[error] Uncaught 500',
+      );
+
+      const har = JSON.parse(
+        findFile(files, 'network.har').content.toString(),
+      ) as {
+        log: {
+          entries: {
+            request: { url: string; headers: { name: string }[] };
+            response: { status: number; headers: { name: string }[] };
+          }[];
+        };
+      };
+      const [entry] = har.log.entries;
+      expect(entry.request.url).toBe(
+        'https://portal.abacus.net/api/statements?page=2',
+      );
+      expect(entry.response.status).toBe(500);
+      expect(entry.request.headers.map(({ name }) => name)).toEqual(['accept']);
+      expect(entry.response.headers.map(({ name }) => name)).toEqual([
+        'content-type',
+      ]);
+    });
+
+    it('should redact registered secrets from text artifacts', async () => {
+      const forget = registerSecrets(['agent-secret-user']);
+      try {
+        const { page, emit } = createFakePage();
+        const recorder = createArtifactRecorder(page as unknown as Page, {
+          everyStep: false,
+        });
+        emit('console', {
+          type: () => 'log',
+          text: () => 'logged in as agent-secret-user',
+        });
+
+        const files = await recorder.capture();
+
+        for (const filename of ['failure.html', 'console.log']) {
+          const text = findFile(files, filename).content.toString();
+          expect(text).not.toContain('agent-secret-user');
+          expect(text).toContain('[REDACTED]');
+        }
+      } finally {
+        forget();
+      }
+    });
+
+    it('should screenshot each step when enabled', async () => {
+      const { page } = createFakePage();
+      const recorder = createArtifactRecorder(page as unknown as Page, {
+        everyStep: true,
+      });
+
+      await recorder
+        .wrap({ page } as unknown as Stagehand)
+        .page.act('click the Log In button');
+      const files = await recorder.capture();
+
+      expect(files[0]).toMatchObject({
+        kind: 'screenshot',
+        filename: 'step-001-act.png',
+      });
+      expect(page.screenshot).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip parts that cannot be captured', async () => {
+      const { page } = createFakePage();
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      page.screenshot.mockRejectedValue(new Error('Target closed'));
+      const recorder = createArtifactRecorder(page as unknown as Page, {
+        everyStep: false,
+      });
+
+      const files = await recorder.capture();
+
+      expect(files.map(({ kind }) => kind)).toEqual(['dom', 'console', 'har']);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('saveArtifacts', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'failure-artifacts-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should store files per job and return their URLs', async () => {
+      const artifacts = await saveArtifacts(
+        createLocalArtifactStore(dir),
+        'net_abacus',
+        'job-1',
+        [
+          {
+            kind: 'dom',
+            filename: 'failure.html',
+            contentType: 'text/html',
+            content: Buffer.from('<html></html>'),
+          },
+        ],
+      );
+
+      const filePath = path.join(dir, 'job-1', 'failure.html');
+      expect(artifacts).toEqual([
+        {
+          kind: 'dom',
+          filename: 'failure.html',
+          content_type: 'text/html',
+          url: `file://${filePath}`,
+        },
+      ]);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('<html></html>');
+    });
+
+    it('should keep files of path-like job ids inside the directory', async () => {
+      const store = createLocalArtifactStore(path.join(dir, 'artifacts'));
+      const file: ArtifactFile = {
+        kind: 'dom',
+        filename: 'failure.html',
+        contentType: 'text/html',
+        content: Buffer.from('<html></html>'),
+      };
+
+      const url = await store.save('net_abacus', '../../x', file);
+
+      expect(url).toBe(
+        pathToFileURL(
+          path.join(dir, 'artifacts', '..%2F..%2Fx', 'failure.html'),
+        ).href,
+      );
+      expect(await fs.readdir(dir)).toEqual(['artifacts']);
+      await expect(store.save('net_abacus', '..', file)).rejects.toThrow(
+        'Invalid job_id',
+      );
+      expect(await fs.readdir(dir)).toEqual(['artifacts']);
+    });
+
+    it('should skip files that fail to store', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const store = {
+        save: jest.fn().mockRejectedValue(new Error('Cloudinary down')),
+      };
+
+      await expect(
+        saveArtifacts(store, 'net_abacus', 'job-1', [
+          {
+            kind: 'console',
+            filename: 'console.log',
+            contentType: 'text/plain',
+            content: Buffer.from(''),
+          },
+        ]),
+      ).resolves.toEqual([]);
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  detectFileType,
+  validateStatementFile,
+  withExtension,
+} from '../../lib/file-type.js';
+
+const zip = (...entries: string[]) =>
+  Buffer.concat([
+    Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    Buffer.from(entries.join('\0')),
+  ]);
+
+const ole = (length: number) => {
+  const buffer = Buffer.alloc(length);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(buffer);
+  return buffer;
+};
+
+describe('file-type', () => {
+  describe('detectFileType', () => {
+    it.each([
+      ['PDF', Buffer.from('%PDF-1.7\n...'), 'pdf', 'application/pdf'],
+      [
+        'XLSX',
+        zip('[Content_Types].xml', 'xl/workbook.xml'),
+        'xlsx',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      ],
+      ['XLS', ole(512), 'xls', 'application/vnd.ms-excel'],
+      [
+        'CSV',
+        Buffer.from('date,amount\n2024-01-01,10.00\n'),
+        'csv',
+        'text/csv',
+      ],
+      ['CSV with BOM', Buffer.from('\uFEFFdate;amount\n'), 'csv', 'text/csv'],
+      [
+        'HTML',
+        Buffer.from('\n  <!DOCTYPE html><html><body>Session expired'),
+        'html',
+        'text/html',
+      ],
+    ])('should detect %s', (_name, buffer, kind, mimeType) => {
+      expect(detectFileType(buffer)).toMatchObject({ kind, mimeType });
+    });
+
+    it('should not treat non-Excel ZIP archives as XLSX', () => {
+      expect(detectFileType(zip('word/document.xml')).kind).toBe('unknown');
+    });
+
+    it('should not treat binary data as CSV', () => {
+      expect(detectFileType(Buffer.from([0x00, 0x2c, 0x0a, 0xff])).kind).toBe(
+        'unknown',
+      );
+    });
+  });
+
+  describe('validateStatementFile', () => {
+    it('should return the detected type for supported formats', () => {
+      expect(validateStatementFile(Buffer.from('%PDF-1.4')).extension).toBe(
+        'pdf',
+      );
+    });
+
+    it('should reject empty buffers', () => {
+      expect(() => validateStatementFile(Buffer.from([]))).toThrow(
+        'File buffer is empty or null',
+      );
+    });
+
+    it('should reject HTML error pages', () => {
+      expect(() =>
+        validateStatementFile(Buffer.from('<html><body>Error</body></html>')),
+      ).toThrow('received an HTML page');
+    });
+
+    it('should reject truncated XLS files', () => {
+      expect(() => validateStatementFile(ole(100))).toThrow(
+        'Invalid XLS: file is truncated (100 bytes)',
+      );
+    });
+
+    it('should reject unrecognized formats', () => {
+      expect(() =>
+        validateStatementFile(Buffer.from([0x89, 0x50, 0x4e, 0x47])),
+      ).toThrow('unrecognized format (bytes: 137 80 78 71)');
+    });
+  });
+
+  describe('withExtension', () => {
+    it('should keep a matching extension', () => {
+      expect(withExtension('Statement.XLSX', 'xlsx')).toBe('Statement.XLSX');
+    });
+
+    it('should append a missing extension', () => {
+      expect(withExtension('statement', 'pdf')).toBe('statement.pdf');
+    });
+
+    it('should replace a mismatched extension', () => {
+      expect(withExtension('statement.pdf', 'xlsx')).toBe('statement.xlsx');
+      expect(withExtension('statement.xlsx', 'xls')).toBe('statement.xls');
+    });
+
+    it('should not treat dots in the name as an extension', () => {
+      expect(withExtension('statement.2024.01', 'csv')).toBe(
+        'statement.2024.01.csv',
+      );
+    });
+  });
+});
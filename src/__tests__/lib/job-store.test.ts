@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJobStore } from '../../lib/job-store.js';
+import type { FetchStatementsRequest } from '../../types/index.js';
+
+const buildRequest = (jobId: string): FetchStatementsRequest => ({
+  job_id: jobId,
+  credential: {
+    username: 'user',
+    password: 'pass',
+    login_url: 'https://portal.abacus.net/login',
+  },
+  accounting_period_start_date: '2024-01-01',
+});
+
+describe('job-store', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist a queued job and read it back', async () => {
+    const store = createJobStore(dataDir);
+
+    const created = await store.create(buildRequest('job-1'));
+
+    expect(created.state).toBe('queued');
+    expect(created.attempts).toBe(0);
+    expect(await store.get('job-1')).toEqual(created);
+  });
+
+  it('should survive a new store instance on the same directory', async () => {
+    await createJobStore(dataDir).create(buildRequest('job-1'));
+
+    const reopened = createJobStore(dataDir);
+
+    expect((await reopened.get('job-1'))?.request).toEqual(
+      buildRequest('job-1'),
+    );
+  });
+
+  it('should return null for unknown jobs', async () => {
+    const store = createJobStore(dataDir);
+
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should update records on save', async () => {
+    const store = createJobStore(dataDir);
+    const created = await store.create(buildRequest('job-1'));
+
+    await store.save({ ...created, state: 'running', attempts: 1 });
+
+    expect(await store.get('job-1')).toMatchObject({
+      state: 'running',
+      attempts: 1,
+    });
+  });
+
+  it('should apply overlapping saves of a job in order', async () => {
+    const store = createJobStore(dataDir);
+    const created = await store.create(buildRequest('job-1'));
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((attempts) => store.save({ ...created, attempts })),
+    );
+
+    expect((await store.get('job-1'))?.attempts).toBe(5);
+    expect(await fs.readdir(dataDir)).toEqual(['job-1.json']);
+  });
+
+  it('should list jobs oldest first', async () => {
+    const store = createJobStore(dataDir);
+    const first = await store.create(buildRequest('job-b'));
+    await store.save({ ...first, created_at: '2024-01-01T00:00:00.000Z' });
+    const second = await store.create(buildRequest('job-a'));
+    await store.save({ ...second, created_at: '2024-01-02T00:00:00.000Z' });
+
+    const jobs = await store.list();
+
+    expect(jobs.map((job) => job.job_id)).toEqual(['job-b', 'job-a']);
+  });
+
+  it('should keep job IDs with path separators inside the data directory', async () => {
+    const store = createJobStore(dataDir);
+
+    await store.create(buildRequest('../escape'));
+
+    expect(await fs.readdir(dataDir)).toEqual(['..%2Fescape.json']);
+    expect((await store.get('../escape'))?.job_id).toBe('../escape');
+  });
+});
@@ -0,0 +1,153 @@
+import type { ObserveResult, Stagehand } from '@browserbasehq/stagehand';
+import {
+  createModelFallback,
+  getCarrierModel,
+  getModelParams,
+} from '../../lib/llm-models.js';
+import type { AppConfig } from '../../types/index.js';
+
+const llm: AppConfig['llm'] = {
+  model: {
+    provider: 'google',
+    model: 'gemini-2.0-flash-exp',
+    apiKey: 'gemini-key',
+  },
+  carrierOverrides: {
+    com_ufginsurance: { model: 'gemini-2.5-pro' },
+    net_abacus: {
+      provider: 'openai',
+      model: 'llama3.1',
+      baseURL: 'http://127.0.0.1:11434/v1',
+    },
+  },
+};
+
+const FALLBACK = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  apiKey: 'openai-key',
+};
+
+describe('llm-models', () => {
+  describe('getModelParams', () => {
+    it('should build the Stagehand model name and client options', () => {
+      expect(getModelParams(llm.model)).toEqual({
+        modelName: 'google/gemini-2.0-flash-exp',
+        modelClientOptions: { apiKey: 'gemini-key' },
+      });
+      expect(
+        getModelParams({
+          provider: 'openai',
+          model: 'llama3.1',
+          baseURL: 'http://127.0.0.1:11434/v1',
+        }),
+      ).toEqual({
+        modelName: 'openai/llama3.1',
+        modelClientOptions: { baseURL: 'http://127.0.0.1:11434/v1' },
+      });
+    });
+  });
+
+  describe('getCarrierModel', () => {
+    it('should use the default model without an override', () => {
+      expect(getCarrierModel(llm, 'com_amerisafe')).toBe(llm.model);
+      expect(getCarrierModel(llm)).toBe(llm.model);
+    });
+
+    it('should keep the credentials when the provider is unchanged', () => {
+      expect(getCarrierModel(llm, 'com_ufginsurance')).toEqual({
+        provider: 'google',
+        model: 'gemini-2.5-pro',
+        apiKey: 'gemini-key',
+      });
+    });
+
+    it('should not pass credentials to another provider', () => {
+      expect(getCarrierModel(llm, 'net_abacus')).toEqual({
+        provider: 'openai',
+        model: 'llama3.1',
+        baseURL: 'http://127.0.0.1:11434/v1',
+      });
+    });
+  });
+
+  describe('createModelFallback', () => {
+    function createFakeStagehand() {
+      const page = {
+        act: jest.fn((_options: unknown) =>
+          Promise.resolve({ success: true, message: 'done', action: 'click' }),
+        ),
+        observe: jest.fn((_options: unknown) =>
+          Promise.resolve<ObserveResult[]>([]),
+        ),
+        extract: jest.fn((_options: unknown) =>
+          Promise.resolve<unknown>({ dates: [] }),
+        ),
+      };
+      return { page, stagehand: { page } as unknown as Stagehand };
+    }
+
+    it('should retry a failed call with the fallback model', async () => {
+      const fallback = createModelFallback(FALLBACK);
+      const { page, stagehand } = createFakeStagehand();
+      page.extract.mockRejectedValueOnce(new Error('429 Resource exhausted'));
+
+      const data = await fallback
+        .wrap(stagehand)
+        .page.extract('Extract the statement dates');
+
+      expect(data).toEqual({ dates: [] });
+      expect(page.extract).toHaveBeenLastCalledWith({
+        instruction: 'Extract the statement dates',
+        modelName: 'openai/gpt-4o-mini',
+        modelClientOptions: { apiKey: 'openai-key' },
+      });
+      expect(fallback.used()).toBe(true);
+    });
+
+    it('should not use the fallback when the primary model answers', async () => {
+      const fallback = createModelFallback(FALLBACK);
+      const { page, stagehand } = createFakeStagehand();
+
+      await fallback.wrap(stagehand).page.act('click the Log In button');
+      await fallback.wrap(stagehand).page.observe('Find the Log In button');
+
+      expect(page.act).toHaveBeenCalledWith({
+        action: 'click the Log In button',
+      });
+      expect(page.observe).toHaveBeenCalledWith({
+        instruction: 'Find the Log In button',
+      });
+      expect(fallback.used()).toBe(false);
+    });
+
+    it('should not retry actions that need no LLM', async () => {
+      const fallback = createModelFallback(FALLBACK);
+      const { page, stagehand } = createFakeStagehand();
+      page.act.mockRejectedValueOnce(new Error('Element detached'));
+
+      await expect(
+        fallback.wrap(stagehand).page.act({
+          selector: 'xpath=/html/body/button',
+          description: 'Log In button',
+          method: 'click',
+          arguments: [],
+        }),
+      ).rejects.toThrow('Element detached');
+      expect(page.act).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface the fallback error when both models fail', async () => {
+      const fallback = createModelFallback(FALLBACK);
+      const { page, stagehand } = createFakeStagehand();
+      page.observe
+        .mockRejectedValueOnce(new Error('503 Service unavailable'))
+        .mockRejectedValueOnce(new Error('401 Invalid API key'));
+
+      await expect(
+        fallback.wrap(stagehand).page.observe('Find the Log In button'),
+      ).rejects.toThrow('401 Invalid API key');
+      expect(fallback.used()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { createLogger } from '../../lib/logger.js';
+import { registerSecrets } from '../../lib/redaction.js';
+
+function parseLines(spy: jest.SpyInstance): Record<string, unknown>[] {
+  return spy.mock.calls.map(
+    ([line]) => JSON.parse(line as string) as Record<string, unknown>,
+  );
+}
+
+describe('logger', () => {
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write one JSON object per line with bound fields', () => {
+    const logger = createLogger({ level: 'info' })
+      .child({ job_id: 'job-1' })
+      .child({ carrier: 'net_abacus' });
+
+    logger.info('Workflow succeeded', { statement_count: 2 });
+
+    const [line] = parseLines(log);
+    expect(line).toEqual({
+      time: expect.any(String) as unknown,
+      level: 'info',
+      message: 'Workflow succeeded',
+      job_id: 'job-1',
+      carrier: 'net_abacus',
+      statement_count: 2,
+    });
+  });
+
+  it('should drop lines below the level', () => {
+    const logger = createLogger({ level: 'warn' });
+
+    logger.debug('Resolved selector');
+    logger.info('Starting processing');
+    logger.error('Error during processing');
+
+    expect(console.debug).not.toHaveBeenCalled();
+    expect(log).not.toHaveBeenCalled();
+    expect(parseLines(error)).toEqual([
+      expect.objectContaining({ level: 'error' }),
+    ]);
+  });
+
+  it('should serialize errors and redact registered secrets', () => {
+    const forget = registerSecrets(['correct-horse-battery']);
+    try {
+      createLogger({ level: 'info' }).error('Error during processing', {
+        error: new Error('Portal rejected password correct-horse-battery'),
+      });
+    } finally {
+      forget();
+    }
+
+    const [line] = error.mock.calls[0] as [string];
+    expect(line).not.toContain('correct-horse-battery');
+    expect(parseLines(error)[0].error).toMatchObject({
+      name: 'Error',
+      message: 'Portal rejected password [REDACTED]',
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import type { Page } from '@browserbasehq/stagehand';
+import {
+  assertLoginSucceeded,
+  classifyPageText,
+} from '../../lib/login-classifier.js';
+import { WorkflowError } from '../../lib/workflow-error.js';
+
+const buildPage = (text: string, hasCodeInput = false) =>
+  ({
+    waitForLoadState: jest.fn().mockResolvedValue(undefined),
+    locator: jest.fn().mockReturnValue({
+      innerText: jest.fn().mockResolvedValue(text),
+      first: () => ({
+        isVisible: jest.fn().mockResolvedValue(hasCodeInput),
+      }),
+    }),
+  }) as unknown as Page;
+
+describe('login-classifier', () => {
+  describe('classifyPageText', () => {
+    it.each([
+      'Invalid username or password. Please try again.',
+      'The password you entered is incorrect.',
+      'Login failed',
+      'Your account has been locked after too many attempts.',
+    ])('should detect invalid credentials: %s', (text) => {
+      expect(classifyPageText(text)).toBe('invalid_credentials');
+    });
+
+    it.each([
+      'Enter the verification code sent to your phone',
+      'We sent a one-time passcode to j***@example.com',
+      'Enter the code we sent to your email',
+    ])('should detect MFA prompts: %s', (text) => {
+      expect(classifyPageText(text)).toBe('requires_mfa');
+    });
+
+    it.each(['Two-Factor Authentication required', 'Enter your security code'])(
+      'should detect MFA prompts with a code input: %s',
+      (text) => {
+        expect(classifyPageText(text, true)).toBe('requires_mfa');
+        expect(classifyPageText(text)).toBeNull();
+      },
+    );
+
+    it.each([
+      'Your password has expired. Please choose a new password.',
+      'You must change your password before continuing.',
+      'Create a new password',
+    ])('should detect forced password changes: %s', (text) => {
+      expect(classifyPageText(text)).toBe('password_change');
+    });
+
+    it('should prefer password change over invalid credentials', () => {
+      expect(
+        classifyPageText('Password expired. Your current password is invalid.'),
+      ).toBe('password_change');
+    });
+
+    it('should return null for a normal post-login page', () => {
+      expect(
+        classifyPageText(
+          'Welcome back! My Firm | Statements | Change Password | Log Out',
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('assertLoginSucceeded', () => {
+    it('should resolve when the page is not blocked', async () => {
+      await expect(
+        assertLoginSucceeded(buildPage('Commission Statements')),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not mistake a two-factor settings link for a prompt', async () => {
+      await expect(
+        assertLoginSucceeded(
+          buildPage('Statements | Two-factor authentication | Log Out'),
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should throw a WorkflowError with the detected reason', async () => {
+      const promise = assertLoginSucceeded(
+        buildPage('Incorrect password. 2 attempts remaining.'),
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(WorkflowError);
+      await expect(promise).rejects.toMatchObject({
+        code: 'invalid_credentials',
+      });
+    });
+
+    describe('MFA prompts', () => {
+      const job = {
+        job_id: 'job-1',
+        credential: {
+          username: 'user',
+          password: 'pass',
+          login_url: 'https://portal.example.com/login',
+          totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+        },
+      };
+
+      const buildMfaPage = (afterCode: string) => {
+        const innerText = jest
+          .fn()
+          .mockResolvedValueOnce('Enter the verification code')
+          .mockResolvedValue(afterCode);
+        const fill = jest.fn().mockResolvedValue(undefined);
+        const page = {
+          waitForLoadState: jest.fn().mockResolvedValue(undefined),
+          locator: jest.fn().mockReturnValue({ innerText, fill }),
+          observe: jest
+            .fn()
+            .mockResolvedValue([
+              { selector: 'xpath=//input', description: '' },
+            ]),
+          act: jest.fn().mockResolvedValue(undefined),
+        };
+        return { page, fill };
+      };
+
+      it('should enter a code and continue once it is accepted', async () => {
+        const { page, fill } = buildMfaPage('Commission Statements');
+
+        await assertLoginSucceeded(page as unknown as Page, job);
+
+        expect(page.observe).toHaveBeenCalledWith(
+          'Find the one-time code input',
+        );
+        expect(fill).toHaveBeenCalledWith(expect.stringMatching(/^\d{6}$/));
+        expect(page.act).toHaveBeenCalledWith(
+          'click the button that submits the code',
+        );
+      });
+
+      it('should fail as requires_mfa when the code is rejected', async () => {
+        const { page } = buildMfaPage('Invalid verification code');
+
+        await expect(
+          assertLoginSucceeded(page as unknown as Page, job),
+        ).rejects.toMatchObject({ code: 'requires_mfa' });
+      });
+
+      it('should fail as requires_mfa without a way to get a code', async () => {
+        const { page } = buildMfaPage('Commission Statements');
+
+        await expect(
+          assertLoginSucceeded(page as unknown as Page, {
+            ...job,
+            credential: { ...job.credential, totp_secret: undefined },
+          }),
+        ).rejects.toMatchObject({ code: 'requires_mfa' });
+        expect(page.act).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  jobsAccepted,
+  jobsFailed,
+  jobsSucceeded,
+  llmCallsPerJob,
+  metricsRegistry,
+  recordJobAccepted,
+  recordJobFinished,
+  statementTransferErrors,
+  timeStatementTransfer,
+  timeWorkflow,
+} from '../../lib/metrics.js';
+import type { JobRecord } from '../../types/index.js';
+
+function createJob(overrides: Partial<JobRecord>): JobRecord {
+  return {
+    job_id: 'job-1',
+    request: { job_id: 'job-1' },
+    state: 'succeeded',
+    attempts: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  } as JobRecord;
+}
+
+async function getValue(
+  metric: {
+    get: () => Promise<{ values: { value: number; labels: object }[] }>;
+  },
+  labels: Record<string, string>,
+): Promise<number | undefined> {
+  const { values } = await metric.get();
+  return values.find(
+    (value) => JSON.stringify(value.labels) === JSON.stringify(labels),
+  )?.value;
+}
+
+describe('metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it('should count accepted jobs by the carrier of their login URL', async () => {
+    recordJobAccepted({
+      job_id: 'job-1',
+      accounting_period_start_date: '2024-01-01',
+      credential: {
+        username: 'alice',
+        password: 'secret',
+        login_url: 'https://www.abacus.net/login',
+      },
+    });
+    recordJobAccepted({
+      job_id: 'job-2',
+      accounting_period_start_date: '2024-01-01',
+      credential_id: 'cred-1',
+    });
+    recordJobAccepted({
+      job_id: 'job-3',
+      accounting_period_start_date: '2024-01-01',
+      credential: {
+        username: 'alice',
+        password: 'secret',
+        login_url: 'https://portal.example.com/login',
+      },
+    });
+
+    expect(await getValue(jobsAccepted, { carrier: 'net_abacus' })).toBe(1);
+    expect(await getValue(jobsAccepted, { carrier: 'unknown' })).toBe(2);
+  });
+
+  it('should count finished jobs by carrier and failure_reason', async () => {
+    recordJobFinished(createJob({ carrier_slug: 'net_abacus' }));
+    recordJobFinished(
+      createJob({
+        state: 'failed',
+        carrier_slug: 'net_abacus',
+        status_update: {
+          status: 'failed',
+          failure_reason: 'invalid_credentials',
+        },
+      }),
+    );
+
+    expect(await getValue(jobsSucceeded, { carrier: 'net_abacus' })).toBe(1);
+    expect(
+      await getValue(jobsFailed, {
+        carrier: 'net_abacus',
+        failure_reason: 'invalid_credentials',
+      }),
+    ).toBe(1);
+  });
+
+  it('should record LLM calls of a workflow', async () => {
+    await timeWorkflow('net_abacus', () =>
+      Promise.resolve({ success: true, statements: [], llmCalls: 7 }),
+    );
+
+    const { values } = await llmCallsPerJob.get();
+    expect(
+      values.find(
+        ({ metricName, labels }) =>
+          metricName === 'carrier_logins_llm_calls_per_job_sum' &&
+          labels.carrier === 'net_abacus',
+      )?.value,
+    ).toBe(7);
+  });
+
+  it('should count failed transfers and rethrow their error', async () => {
+    await expect(
+      timeStatementTransfer('net_abacus', 'upload', () =>
+        Promise.reject(new Error('Cloudinary unavailable')),
+      ),
+    ).rejects.toThrow('Cloudinary unavailable');
+
+    expect(
+      await getValue(statementTransferErrors, {
+        carrier: 'net_abacus',
+        operation: 'upload',
+      }),
+    ).toBe(1);
+    expect(await metricsRegistry.metrics()).toContain(
+      'carrier_logins_statement_transfer_duration_seconds_count{carrier="net_abacus",operation="upload",outcome="error"} 1',
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  getMfaCode,
+  registerMfaHandler,
+  submitMfaCode,
+  waitForMfaCode,
+} from '../../lib/mfa.js';
+import { jobTimeoutError } from '../../lib/timeout.js';
+
+const credential = {
+  username: 'user',
+  password: 'pass',
+  login_url: 'https://portal.abacus.net/login',
+};
+
+describe('mfa', () => {
+  describe('getMfaCode', () => {
+    it('should generate a code from the TOTP seed', async () => {
+      const code = await getMfaCode({
+        job_id: 'job-1',
+        credential: {
+          ...credential,
+          totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+        },
+      });
+
+      expect(code).toMatch(/^\d{6}$/);
+    });
+
+    it('should ask the job handler without a seed', async () => {
+      const unregister = registerMfaHandler('job-1', () =>
+        Promise.resolve('123456'),
+      );
+
+      expect(await getMfaCode({ job_id: 'job-1', credential })).toBe('123456');
+      unregister();
+      expect(await getMfaCode({ job_id: 'job-1', credential })).toBeNull();
+    });
+  });
+
+  describe('waitForMfaCode', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should resolve with the submitted code', async () => {
+      const code = waitForMfaCode('job-1', 1000);
+
+      expect(submitMfaCode('job-1', '654321')).toBe(true);
+      await expect(code).resolves.toBe('654321');
+      expect(submitMfaCode('job-1', '654321')).toBe(false);
+    });
+
+    it('should fail as requires_mfa when no code arrives', async () => {
+      jest.useFakeTimers();
+      const code = waitForMfaCode('job-1', 300000);
+      jest.advanceTimersByTime(300000);
+
+      await expect(code).rejects.toMatchObject({
+        code: 'requires_mfa',
+        message: 'No one-time code received within 300s',
+      });
+      expect(submitMfaCode('job-1', '654321')).toBe(false);
+    });
+
+    it('should stop waiting when the job deadline passes', async () => {
+      const deadline = new AbortController();
+      const code = waitForMfaCode('job-1', 300000, deadline.signal);
+      deadline.abort(jobTimeoutError(900000));
+
+      await expect(code).rejects.toMatchObject({ code: 'timeout' });
+      expect(submitMfaCode('job-1', '654321')).toBe(false);
+    });
+
+    it('should not accept codes for jobs that are not waiting', () => {
+      expect(submitMfaCode('job-2', '654321')).toBe(false);
+    });
+  });
+});
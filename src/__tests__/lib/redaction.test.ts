@@ -0,0 +1,83 @@
+import {
+  installConsoleRedaction,
+  redact,
+  redactSecrets,
+  registerSecrets,
+} from '../../lib/redaction.js';
+
+describe('redaction', () => {
+  let forget: () => void;
+
+  beforeEach(() => {
+    forget = registerSecrets(['s3cret-pass', 'alice@example.com', 'abc']);
+  });
+
+  afterEach(() => {
+    forget();
+  });
+
+  describe('redact', () => {
+    it('should replace every occurrence of a registered secret', () => {
+      expect(redact("type 's3cret-pass' into s3cret-pass")).toBe(
+        "type '[REDACTED]' into [REDACTED]",
+      );
+      expect(redact('Login failed for alice@example.com')).toBe(
+        'Login failed for [REDACTED]',
+      );
+    });
+
+    it('should ignore values too short to redact safely', () => {
+      expect(redact('abc def')).toBe('abc def');
+    });
+
+    it('should keep a secret registered by another job', () => {
+      const forgetAgain = registerSecrets(['s3cret-pass']);
+      forget();
+      expect(redact('s3cret-pass')).toBe('[REDACTED]');
+
+      forgetAgain();
+      expect(redact('s3cret-pass')).toBe('s3cret-pass');
+      forget = () => undefined;
+    });
+  });
+
+  describe('redactSecrets', () => {
+    it('should scrub nested strings of a Sentry event', () => {
+      const event = {
+        exception: {
+          values: [{ type: 'Error', value: 'Bad password s3cret-pass' }],
+        },
+        breadcrumbs: [{ category: 'console', message: 'alice@example.com' }],
+        level: 'error',
+        timestamp: 1700000000,
+      };
+
+      expect(redactSecrets(event)).toEqual({
+        exception: {
+          values: [{ type: 'Error', value: 'Bad password [REDACTED]' }],
+        },
+        breadcrumbs: [{ category: 'console', message: '[REDACTED]' }],
+        level: 'error',
+        timestamp: 1700000000,
+      });
+      expect(event.exception.values[0].value).toContain('s3cret-pass');
+    });
+  });
+
+  describe('installConsoleRedaction', () => {
+    it('should redact formatted console arguments', () => {
+      const log = jest.fn();
+      const target = { log, info: log, warn: log, error: log, debug: log };
+      const uninstall = installConsoleRedaction(target as unknown as Console);
+
+      target.warn('Credential:', { password: 's3cret-pass' });
+      uninstall();
+      target.warn('after');
+
+      expect(log.mock.calls).toEqual([
+        ["Credential: { password: '[REDACTED]' }"],
+        ['after'],
+      ]);
+    });
+  });
+});
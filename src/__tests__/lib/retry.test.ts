@@ -0,0 +1,179 @@
+import type { Stagehand } from '@browserbasehq/stagehand';
+import { createStepRetry, getRetryDelay, withRetry } from '../../lib/retry.js';
+import { WorkflowError } from '../../lib/workflow-error.js';
+import { jobTimeoutError } from '../../lib/timeout.js';
+
+const POLICY = { attempts: 3, baseDelayMs: 0 };
+
+describe('retry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay for each attempt up to five minutes', () => {
+      const policy = { attempts: 10, baseDelayMs: 1000 };
+      expect(getRetryDelay(policy, 1)).toBe(1000);
+      expect(getRetryDelay(policy, 2)).toBe(2000);
+      expect(getRetryDelay(policy, 3)).toBe(4000);
+      expect(getRetryDelay(policy, 20)).toBe(5 * 60 * 1000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until an attempt succeeds', async () => {
+      const operation = jest
+        .fn<Promise<string>, [number]>()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValue('ok');
+      const onRetry = jest.fn();
+
+      await expect(withRetry(operation, POLICY, { onRetry })).resolves.toBe(
+        'ok',
+      );
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(operation).toHaveBeenLastCalledWith(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+    });
+
+    it('should throw the last error once attempts run out', async () => {
+      const operation = jest
+        .fn<Promise<string>, [number]>()
+        .mockRejectedValueOnce(new Error('first'))
+        .mockRejectedValueOnce(new Error('second'))
+        .mockRejectedValueOnce(new Error('third'));
+
+      await expect(withRetry(operation, POLICY)).rejects.toThrow('third');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors that are not retryable', async () => {
+      const operation = jest
+        .fn<Promise<string>, [number]>()
+        .mockRejectedValue(new Error('404 Not Found'));
+
+      await expect(
+        withRetry(operation, POLICY, { isRetryable: () => false }),
+      ).rejects.toThrow('404 Not Found');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up on attempts and waits once the signal aborts', async () => {
+      const deadline = new AbortController();
+      const operation = jest
+        .fn<Promise<string>, [number]>()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockReturnValue(new Promise(() => undefined));
+
+      const retried = withRetry(
+        operation,
+        { attempts: 3, baseDelayMs: 60000 },
+        { signal: deadline.signal },
+      );
+      deadline.abort(jobTimeoutError(900000));
+
+      await expect(retried).rejects.toThrow('Job did not finish within 900s');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createStepRetry', () => {
+    function createFakeStagehand() {
+      const page = {
+        act: jest.fn((_options: unknown) =>
+          Promise.resolve({ success: true, message: 'done', action: 'click' }),
+        ),
+        observe: jest.fn((_options: unknown) => Promise.resolve([])),
+        extract: jest.fn((_options?: unknown) =>
+          Promise.resolve<unknown>({ dates: [] }),
+        ),
+        goto: jest.fn((_url: string) => Promise.resolve(null)),
+      };
+      return { page, stagehand: { page } as unknown as Stagehand };
+    }
+
+    it('should retry failed page calls and count the retries', async () => {
+      const stepRetry = createStepRetry(POLICY);
+      const { page, stagehand } = createFakeStagehand();
+      page.goto.mockRejectedValueOnce(new Error('net::ERR_CONNECTION_RESET'));
+      page.extract.mockRejectedValueOnce(new Error('503 Service unavailable'));
+
+      const wrapped = stepRetry.wrap(stagehand);
+      await wrapped.page.goto('https://portal.abacus.net/login');
+      const data = await wrapped.page.extract('Extract the statement dates');
+
+      expect(data).toEqual({ dates: [] });
+      expect(page.goto).toHaveBeenCalledTimes(2);
+      expect(page.extract).toHaveBeenLastCalledWith({
+        instruction: 'Extract the statement dates',
+      });
+      expect(stepRetry.retries()).toBe(2);
+    });
+
+    it('should retry act calls that report failure', async () => {
+      const stepRetry = createStepRetry(POLICY);
+      const { page, stagehand } = createFakeStagehand();
+      page.act.mockResolvedValueOnce({
+        success: false,
+        message: 'No element found',
+        action: 'click the Log In button',
+      });
+
+      const result = await stepRetry
+        .wrap(stagehand)
+        .page.act('click the Log In button');
+
+      expect(result.success).toBe(true);
+      expect(page.act).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the failed act result after the last attempt', async () => {
+      const stepRetry = createStepRetry(POLICY);
+      const { page, stagehand } = createFakeStagehand();
+      const failed = {
+        success: false,
+        message: 'No element found',
+        action: 'click the Log In button',
+      };
+      page.act.mockResolvedValue(failed);
+
+      await expect(
+        stepRetry.wrap(stagehand).page.act('click the Log In button'),
+      ).resolves.toEqual(failed);
+      expect(page.act).toHaveBeenCalledTimes(3);
+      expect(stepRetry.retries()).toBe(2);
+    });
+
+    it('should not retry navigations aborted by a download', async () => {
+      const stepRetry = createStepRetry(POLICY);
+      const { page, stagehand } = createFakeStagehand();
+      page.goto.mockRejectedValue(
+        new Error('page.goto: net::ERR_ABORTED at https://portal.abacus.net'),
+      );
+
+      await expect(
+        stepRetry.wrap(stagehand).page.goto('https://portal.abacus.net'),
+      ).rejects.toThrow('net::ERR_ABORTED');
+      expect(page.goto).toHaveBeenCalledTimes(1);
+      expect(stepRetry.retries()).toBe(0);
+    });
+
+    it('should not retry workflow errors', async () => {
+      const stepRetry = createStepRetry(POLICY);
+      const { page, stagehand } = createFakeStagehand();
+      page.observe.mockRejectedValue(
+        new WorkflowError('missing_instruction', 'No recorded action'),
+      );
+
+      await expect(
+        stepRetry.wrap(stagehand).page.observe('Find the Log In button'),
+      ).rejects.toThrow('No recorded action');
+      expect(page.observe).toHaveBeenCalledTimes(1);
+      expect(stepRetry.retries()).toBe(0);
+    });
+  });
+});
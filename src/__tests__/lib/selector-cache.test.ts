@@ -0,0 +1,331 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ObserveResult, Page, Stagehand } from '@browserbasehq/stagehand';
+import {
+  createSelectorCache,
+  getDomFingerprint,
+} from '../../lib/selector-cache.js';
+
+const LOGIN_BUTTON: ObserveResult = {
+  selector: 'xpath=/html/body/form/button',
+  description: 'Log In button',
+  method: 'click',
+  arguments: [],
+};
+
+const PASSWORD_INPUT: ObserveResult = {
+  selector: 'xpath=/html/body/form/input[2]',
+  description: 'Password input',
+  method: 'fill',
+  arguments: ['s3cret!'],
+};
+
+const LOGIN_FORM = ['form|login||', 'input|username|username|text'];
+
+interface FakePageOptions {
+  url?: string;
+  controls?: string[];
+  onPage?: string[];
+  /** Text shown by elements, by selector */
+  texts?: Record<string, string>;
+}
+
+/**
+ * Stand-in for a Stagehand page; only elements in `onPage` exist
+ */
+function createFakeStagehand(options: FakePageOptions = {}) {
+  const {
+    url = 'https://portal.example.com/login',
+    controls = LOGIN_FORM,
+    onPage = [],
+    texts = {},
+  } = options;
+  const page = {
+    act: jest.fn((_action: unknown) =>
+      Promise.resolve({ success: true, message: 'done', action: 'click' }),
+    ),
+    observe: jest.fn((_options: unknown) =>
+      Promise.resolve<ObserveResult[]>([LOGIN_BUTTON]),
+    ),
+    evaluate: () => Promise.resolve(controls),
+    locator: (selector: string) => ({
+      count: () => Promise.resolve(onPage.includes(selector) ? 1 : 0),
+      allTextContents: () =>
+        Promise.resolve(
+          onPage.includes(selector) ? [texts[selector] ?? ''] : [],
+        ),
+    }),
+    url: () => url,
+  };
+  return { page, stagehand: { page } as unknown as Stagehand };
+}
+
+describe('selector-cache', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selector-cache-'));
+    filePath = path.join(dir, 'com_example.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Resolve the Log In button with the LLM and save it to the cache
+   */
+  async function warmCache(): Promise<void> {
+    const cache = await createSelectorCache(filePath);
+    const { stagehand } = createFakeStagehand();
+    await cache.wrap(stagehand).page.act('click the Log In button');
+    await cache.save();
+  }
+
+  describe('getDomFingerprint', () => {
+    it('should ignore repeated controls and their order', async () => {
+      const single = createFakeStagehand({
+        controls: ['button|download||', 'form|||'],
+      });
+      const repeated = createFakeStagehand({
+        controls: ['form|||', 'button|download||', 'button|download||'],
+      });
+      const other = createFakeStagehand({ controls: ['form|||'] });
+
+      const fingerprint = await getDomFingerprint(
+        single.page as unknown as Page,
+      );
+      expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+      expect(await getDomFingerprint(repeated.page as unknown as Page)).toBe(
+        fingerprint,
+      );
+      expect(await getDomFingerprint(other.page as unknown as Page)).not.toBe(
+        fingerprint,
+      );
+    });
+  });
+
+  describe('act', () => {
+    it('should resolve a new instruction with the LLM and cache it', async () => {
+      const cache = await createSelectorCache(filePath);
+      const { page, stagehand } = createFakeStagehand();
+
+      await cache.wrap(stagehand).page.act('click the Log In button');
+      await cache.save();
+
+      expect(page.observe).toHaveBeenCalledWith({
+        instruction: 'click the Log In button',
+        returnAction: true,
+      });
+      expect(page.act).toHaveBeenCalledWith(LOGIN_BUTTON);
+      const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as {
+        entries: unknown[];
+      };
+      expect(file.entries).toEqual([
+        {
+          method: 'act',
+          path: '/login',
+          fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/) as unknown,
+          instruction: 'click the Log In button',
+          actions: [LOGIN_BUTTON],
+          texts: [''],
+        },
+      ]);
+    });
+
+    it('should reuse a cached action without the LLM', async () => {
+      await warmCache();
+      const cache = await createSelectorCache(filePath);
+      const { page, stagehand } = createFakeStagehand({
+        onPage: [LOGIN_BUTTON.selector],
+      });
+
+      await cache.wrap(stagehand).page.act('click the Log In button');
+
+      expect(page.observe).not.toHaveBeenCalled();
+      expect(page.act).toHaveBeenCalledWith(LOGIN_BUTTON);
+    });
+
+    it('should not share entries across paths or page layouts', async () => {
+      await warmCache();
+      const cache = await createSelectorCache(filePath);
+      const otherPath = createFakeStagehand({
+        url: 'https://portal.example.com/sso/login',
+        onPage: [LOGIN_BUTTON.selector],
+      });
+      const otherLayout = createFakeStagehand({
+        controls: [...LOGIN_FORM, 'input|otp|otp|text'],
+        onPage: [LOGIN_BUTTON.selector],
+      });
+
+      await cache.wrap(otherPath.stagehand).page.act('click the Log In button');
+      await cache
+        .wrap(otherLayout.stagehand)
+        .page.act('click the Log In button');
+
+      expect(otherPath.page.observe).toHaveBeenCalledTimes(1);
+      expect(otherLayout.page.observe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should invalidate an entry whose element is gone', async () => {
+      await warmCache();
+      const cache = await createSelectorCache(filePath);
+      const moved = {
+        ...LOGIN_BUTTON,
+        selector: 'xpath=/html/body/div/button',
+      };
+      const { page, stagehand } = createFakeStagehand();
+      page.observe.mockResolvedValueOnce([moved]);
+
+      await cache.wrap(stagehand).page.act('click the Log In button');
+      await cache.save();
+
+      expect(page.act).toHaveBeenCalledWith(moved);
+      const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as {
+        entries: { actions: ObserveResult[] }[];
+      };
+      expect(file.entries.map((entry) => entry.actions)).toEqual([[moved]]);
+    });
+
+    it('should invalidate an entry whose action fails', async () => {
+      await warmCache();
+      const cache = await createSelectorCache(filePath);
+      const { page, stagehand } = createFakeStagehand({
+        onPage: [LOGIN_BUTTON.selector],
+      });
+      page.act.mockResolvedValueOnce({
+        success: false,
+        message: 'Element is not clickable',
+        action: 'click',
+      });
+
+      const result = await cache
+        .wrap(stagehand)
+        .page.act('click the Log In button');
+
+      expect(result.success).toBe(true);
+      expect(page.observe).toHaveBeenCalledTimes(1);
+      expect(page.act).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache typed text as a placeholder', async () => {
+      const { page, stagehand } = createFakeStagehand({
+        onPage: [PASSWORD_INPUT.selector],
+      });
+      page.observe.mockResolvedValue([PASSWORD_INPUT]);
+      const cache = await createSelectorCache(filePath);
+      await cache.wrap(stagehand).page.act("type 's3cret!' into the Password");
+      await cache.save();
+
+      expect(await fs.readFile(filePath, 'utf-8')).not.toContain('s3cret!');
+
+      const next = createFakeStagehand({ onPage: [PASSWORD_INPUT.selector] });
+      const reloaded = await createSelectorCache(filePath);
+      await reloaded
+        .wrap(next.stagehand)
+        .page.act("type 'n3w-pass' into the Password");
+
+      expect(next.page.observe).not.toHaveBeenCalled();
+      expect(next.page.act).toHaveBeenCalledWith({
+        ...PASSWORD_INPUT,
+        arguments: ['n3w-pass'],
+      });
+    });
+  });
+
+  describe('observe', () => {
+    it('should reuse cached results and not cache empty ones', async () => {
+      const cache = await createSelectorCache(filePath);
+      const { page, stagehand } = createFakeStagehand({
+        onPage: [LOGIN_BUTTON.selector],
+      });
+      const cached = cache.wrap(stagehand).page;
+      page.observe.mockResolvedValueOnce([]);
+
+      expect(await cached.observe('Find the Log In button')).toEqual([]);
+      expect(await cached.observe('Find the Log In button')).toEqual([
+        LOGIN_BUTTON,
+      ]);
+      expect(await cached.observe('Find the Log In button')).toEqual([
+        LOGIN_BUTTON,
+      ]);
+      expect(page.observe).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should resolve a row again when the same element shows another row', async () => {
+    const statementLink: ObserveResult = {
+      selector: 'xpath=/html/body/table/tbody/tr[1]/td[3]/a',
+      description: 'Statement link for March 2025',
+    };
+    const instruction = 'Find the statement link for March 2025';
+    const cache = await createSelectorCache(filePath);
+    const march = createFakeStagehand({
+      onPage: [statementLink.selector],
+      texts: { [statementLink.selector]: 'March 2025' },
+    });
+    march.page.observe.mockResolvedValue([statementLink]);
+    await cache.wrap(march.stagehand).page.observe(instruction);
+    await cache.save();
+
+    // A month later the first row is April; the layout is unchanged
+    const nextCache = await createSelectorCache(filePath);
+    const april = createFakeStagehand({
+      onPage: [statementLink.selector],
+      texts: { [statementLink.selector]: 'April 2025' },
+    });
+    const secondRow = {
+      ...statementLink,
+      selector: 'xpath=/html/body/table/tbody/tr[2]/td[3]/a',
+    };
+    april.page.observe.mockResolvedValue([secondRow]);
+
+    expect(
+      await nextCache.wrap(april.stagehand).page.observe(instruction),
+    ).toEqual([secondRow]);
+    expect(april.page.observe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep entries saved by another job in the meantime', async () => {
+    const first = await createSelectorCache(filePath);
+    const second = await createSelectorCache(filePath);
+
+    await first.wrap(createFakeStagehand().stagehand).page.act('click A');
+    await second.wrap(createFakeStagehand().stagehand).page.act('click B');
+    await first.save();
+    await second.save();
+
+    const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as {
+      entries: { instruction: string }[];
+    };
+    expect(file.entries.map((entry) => entry.instruction)).toEqual([
+      'click A',
+      'click B',
+    ]);
+  });
+
+  it('should keep entries of jobs saving at the same time', async () => {
+    const caches = await Promise.all(
+      ['A', 'B', 'C'].map(async (name) => {
+        const cache = await createSelectorCache(filePath);
+        await cache
+          .wrap(createFakeStagehand().stagehand)
+          .page.act(`click ${name}`);
+        return cache;
+      }),
+    );
+
+    await Promise.all(caches.map((cache) => cache.save()));
+
+    const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as {
+      entries: { instruction: string }[];
+    };
+    expect(file.entries.map((entry) => entry.instruction).sort()).toEqual([
+      'click A',
+      'click B',
+      'click C',
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  createSessionLimiter,
+  type SessionLimiterOptions,
+} from '../../lib/session-limiter.js';
+
+const defaultOptions: SessionLimiterOptions = {
+  maxConcurrent: 2,
+  carrierDefaults: { maxSessions: 2, minLoginIntervalMs: 0 },
+  carrierOverrides: {},
+};
+
+/** Let granted acquire() promises settle */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('session-limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const track = (promise: Promise<() => void>) => {
+    const state: { release?: () => void } = {};
+    void promise.then((release) => {
+      state.release = release;
+    });
+    return state;
+  };
+
+  it('should grant sessions up to the global limit', async () => {
+    const limiter = createSessionLimiter(defaultOptions);
+
+    const first = track(limiter.acquire('net_abacus'));
+    const second = track(limiter.acquire('com_ufginsurance'));
+    const third = track(limiter.acquire('com_amerisafe'));
+    await flush();
+
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeDefined();
+    expect(third.release).toBeUndefined();
+
+    first.release!();
+    await flush();
+
+    expect(third.release).toBeDefined();
+  });
+
+  it('should enforce per-carrier limits without blocking other carriers', async () => {
+    const limiter = createSessionLimiter({
+      ...defaultOptions,
+      maxConcurrent: 3,
+      carrierOverrides: { net_abacus: { maxSessions: 1 } },
+    });
+
+    const first = track(limiter.acquire('net_abacus'));
+    const second = track(limiter.acquire('net_abacus'));
+    const other = track(limiter.acquire('com_ufginsurance'));
+    await flush();
+
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeUndefined();
+    expect(other.release).toBeDefined();
+
+    first.release!();
+    await flush();
+
+    expect(second.release).toBeDefined();
+  });
+
+  it('should space out logins to the same carrier', async () => {
+    const limiter = createSessionLimiter({
+      ...defaultOptions,
+      carrierDefaults: { maxSessions: 2, minLoginIntervalMs: 10000 },
+    });
+
+    const first = track(limiter.acquire('net_abacus'));
+    const second = track(limiter.acquire('net_abacus'));
+    await flush();
+
+    expect(first.release).toBeDefined();
+    expect(second.release).toBeUndefined();
+
+    jest.advanceTimersByTime(9999);
+    await flush();
+    expect(second.release).toBeUndefined();
+
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(second.release).toBeDefined();
+  });
+
+  it('should ignore repeated releases of the same slot', async () => {
+    const limiter = createSessionLimiter({
+      ...defaultOptions,
+      maxConcurrent: 1,
+    });
+
+    const first = track(limiter.acquire('net_abacus'));
+    await flush();
+    first.release!();
+    first.release!();
+
+    const second = track(limiter.acquire('com_ufginsurance'));
+    const third = track(limiter.acquire('com_amerisafe'));
+    await flush();
+
+    expect(second.release).toBeDefined();
+    expect(third.release).toBeUndefined();
+  });
+
+  it('should stop waiting once the signal aborts', async () => {
+    const limiter = createSessionLimiter({
+      ...defaultOptions,
+      maxConcurrent: 1,
+    });
+    const deadline = new AbortController();
+
+    const first = track(limiter.acquire('net_abacus'));
+    const waiting = limiter.acquire('com_ufginsurance', deadline.signal);
+    const next = track(limiter.acquire('com_amerisafe'));
+    await flush();
+
+    deadline.abort(new Error('Job timed out'));
+    await expect(waiting).rejects.toThrow('Job timed out');
+    await expect(
+      limiter.acquire('com_ufginsurance', deadline.signal),
+    ).rejects.toThrow('Job timed out');
+
+    // The aborted waiter no longer holds its place in the queue
+    first.release!();
+    await flush();
+    expect(next.release).toBeDefined();
+  });
+});
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Page } from '@browserbasehq/stagehand';
+import {
+  createSessionStateStore,
+  getSessionStateKey,
+  isLoggedIn,
+  restoreSessionState,
+  type StorageState,
+} from '../../lib/session-state.js';
+
+const credential = {
+  username: 'agent@example.com',
+  password: 'correct-horse',
+  login_url: 'https://portal.abacus.net/login',
+};
+
+const state: StorageState = {
+  cookies: [
+    {
+      name: 'session',
+      value: 'abc123',
+      domain: 'portal.abacus.net',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax',
+    },
+  ],
+  origins: [
+    {
+      origin: 'https://portal.abacus.net',
+      localStorage: [{ name: 'token', value: 'jwt' }],
+    },
+  ],
+};
+
+describe('session-state', () => {
+  describe('getSessionStateKey', () => {
+    it('should key sessions by portal host and username', () => {
+      const key = getSessionStateKey(credential);
+
+      expect(key).toMatch(/^[0-9a-f]{32}$/);
+      expect(
+        getSessionStateKey({
+          ...credential,
+          login_url: 'https://PORTAL.abacus.net/other',
+        }),
+      ).toBe(key);
+      expect(
+        getSessionStateKey({ ...credential, username: 'other@example.com' }),
+      ).not.toBe(key);
+    });
+  });
+
+  describe('createSessionStateStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'session-state-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should save, load and remove encrypted states', async () => {
+      const store = createSessionStateStore(dir, 'passphrase');
+
+      await store.save('key-1', state);
+      const contents = await fs.readFile(path.join(dir, 'key-1.json'), 'utf-8');
+
+      expect(contents).not.toContain('abc123');
+      expect(await store.load('key-1')).toEqual(state);
+      await store.remove('key-1');
+      expect(await store.load('key-1')).toBeNull();
+    });
+
+    it('should ignore states written with another secret', async () => {
+      await createSessionStateStore(dir, 'old-secret').save('key-1', state);
+
+      expect(
+        await createSessionStateStore(dir, 'new-secret').load('key-1'),
+      ).toBeNull();
+    });
+  });
+
+  describe('restoreSessionState', () => {
+    it('should add the cookies and restore localStorage on load', async () => {
+      const context = {
+        addCookies: jest.fn().mockResolvedValue(undefined),
+        addInitScript: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await restoreSessionState(context, state);
+
+      expect(context.addCookies).toHaveBeenCalledWith(state.cookies);
+      expect(context.addInitScript).toHaveBeenCalledWith(
+        expect.any(Function),
+        state.origins,
+      );
+    });
+  });
+
+  describe('isLoggedIn', () => {
+    const buildPage = (logoutShown: boolean) => {
+      const filter = jest.fn((_options: unknown) => ({
+        first: () => ({
+          waitFor: logoutShown
+            ? jest.fn().mockResolvedValue(undefined)
+            : jest.fn().mockRejectedValue(new Error('Timeout 5000ms')),
+        }),
+      }));
+      const page = {
+        waitForLoadState: jest.fn().mockResolvedValue(undefined),
+        locator: () => ({ filter }),
+      } as unknown as Page;
+      return { page, filter };
+    };
+
+    it('should not check the page when no session was restored', async () => {
+      const { page, filter } = buildPage(true);
+
+      expect(await isLoggedIn(page, {})).toBe(false);
+      expect(filter).not.toHaveBeenCalled();
+    });
+
+    it('should be logged in when the portal shows a log out control', async () => {
+      const { page, filter } = buildPage(true);
+
+      expect(await isLoggedIn(page, { session_restored: true })).toBe(true);
+      const [{ hasText }] = filter.mock.calls[0] as [{ hasText: RegExp }];
+      expect(hasText.test('Sign Out')).toBe(true);
+      expect(hasText.test('Sign in to your account')).toBe(false);
+    });
+
+    it('should log in again without a log out control', async () => {
+      const { page } = buildPage(false);
+
+      expect(await isLoggedIn(page, { session_restored: true })).toBe(false);
+    });
+  });
+});
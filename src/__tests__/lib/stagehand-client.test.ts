@@ -0,0 +1,70 @@
+import { getBrowserParams } from '../../lib/stagehand-client.js';
+
+describe('stagehand-client', () => {
+  describe('getBrowserParams', () => {
+    const browserbase = { apiKey: 'bb-key', projectId: 'bb-project' };
+
+    it('should use a Browserbase session for the browserbase provider', () => {
+      expect(
+        getBrowserParams({
+          browser: { provider: 'browserbase', headless: true },
+          browserbase,
+        }),
+      ).toEqual({
+        env: 'BROWSERBASE',
+        apiKey: 'bb-key',
+        projectId: 'bb-project',
+      });
+    });
+
+    it('should require Browserbase credentials for the browserbase provider', () => {
+      expect(() =>
+        getBrowserParams({
+          browser: { provider: 'browserbase', headless: true },
+        }),
+      ).toThrow('Browserbase provider requires Browserbase credentials');
+    });
+
+    it('should launch a local browser for the local provider', () => {
+      expect(
+        getBrowserParams({
+          browser: {
+            provider: 'local',
+            headless: false,
+            executablePath: '/usr/bin/chromium',
+          },
+        }),
+      ).toEqual({
+        env: 'LOCAL',
+        localBrowserLaunchOptions: {
+          headless: false,
+          executablePath: '/usr/bin/chromium',
+        },
+      });
+    });
+
+    it('should connect to the CDP endpoint for the cdp provider', () => {
+      expect(
+        getBrowserParams({
+          browser: {
+            provider: 'cdp',
+            headless: true,
+            cdpUrl: 'ws://127.0.0.1:9222/devtools/browser/abc',
+          },
+          browserbase,
+        }),
+      ).toEqual({
+        env: 'LOCAL',
+        localBrowserLaunchOptions: {
+          cdpUrl: 'ws://127.0.0.1:9222/devtools/browser/abc',
+        },
+      });
+    });
+
+    it('should require a CDP URL for the cdp provider', () => {
+      expect(() =>
+        getBrowserParams({ browser: { provider: 'cdp', headless: true } }),
+      ).toThrow('CDP provider requires BROWSER_CDP_URL');
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ObserveResult, Stagehand } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import { createStagehandRecorder } from '../../lib/stagehand-recorder.js';
+
+const USERNAME_INPUT: ObserveResult = {
+  selector: 'xpath=/html/body/form/input[1]',
+  description: 'Username input',
+  method: 'fill',
+  arguments: ['alice@example.com'],
+};
+
+const DOWNLOAD_LINK: ObserveResult = {
+  selector: 'xpath=/html/body/table/tr[2]/td[3]/a',
+  description: 'Download link for January 2024',
+};
+
+/**
+ * Stand-in for a Stagehand page; only elements in `onPage` exist
+ */
+function createFakeStagehand(onPage: string[]) {
+  const page = {
+    act: jest.fn((_action: unknown) =>
+      Promise.resolve({ success: true, message: 'done', action: 'fill' }),
+    ),
+    observe: jest.fn((_options: unknown) =>
+      Promise.resolve<ObserveResult[]>([USERNAME_INPUT]),
+    ),
+    extract: jest.fn((_options: unknown) =>
+      Promise.resolve<unknown>({ dates: ['01/01/2024'] }),
+    ),
+    locator: (selector: string) => ({
+      count: () => Promise.resolve(onPage.includes(selector) ? 1 : 0),
+    }),
+    url: () => 'https://portal.example.com/statements',
+  };
+  return { page, stagehand: { page } as unknown as Stagehand };
+}
+
+const DATES_SCHEMA = z.object({ dates: z.array(z.string()) });
+
+describe('stagehand-recorder', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'recordings-'));
+    filePath = path.join(dir, 'com_example.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Record a short login-and-extract run and save it
+   */
+  async function recordRun(): Promise<void> {
+    const recorder = await createStagehandRecorder({
+      mode: 'record',
+      filePath,
+    });
+    const { page, stagehand } = createFakeStagehand([]);
+    const recorded = recorder.wrap(stagehand).page;
+
+    await recorded.act("type 'alice@example.com' into the Username input");
+
+    page.observe.mockResolvedValueOnce([DOWNLOAD_LINK]);
+    await recorded.observe('Find the download link for January 2024');
+
+    await recorded.extract({
+      instruction: 'Extract the statement dates',
+      schema: DATES_SCHEMA,
+    });
+
+    await recorder.save();
+  }
+
+  describe('record mode', () => {
+    it('should perform act instructions from the observed action', async () => {
+      const recorder = await createStagehandRecorder({
+        mode: 'record',
+        filePath,
+      });
+      const { page, stagehand } = createFakeStagehand([]);
+
+      await recorder
+        .wrap(stagehand)
+        .page.act("type 'alice@example.com' into the Username input");
+
+      expect(page.observe).toHaveBeenCalledWith({
+        instruction: "type 'alice@example.com' into the Username input",
+        returnAction: true,
+      });
+      expect(page.act).toHaveBeenCalledWith(USERNAME_INPUT);
+    });
+
+    it('should save resolved actions and data without typed text', async () => {
+      await recordRun();
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(content).not.toContain('alice@example.com');
+      expect(JSON.parse(content)).toEqual({
+        version: 1,
+        calls: [
+          {
+            method: 'act',
+            instruction: "type '%text%' into the Username input",
+            actions: [{ ...USERNAME_INPUT, arguments: ['%text%'] }],
+          },
+          {
+            method: 'observe',
+            instruction: 'Find the download link for January 2024',
+            actions: [DOWNLOAD_LINK],
+          },
+          {
+            method: 'extract',
+            instruction: 'Extract the statement dates',
+            data: { dates: ['01/01/2024'] },
+          },
+        ],
+      });
+    });
+
+    it('should replace re-recorded instructions and keep the others', async () => {
+      await recordRun();
+
+      const recorder = await createStagehandRecorder({
+        mode: 'record',
+        filePath,
+      });
+      const { page, stagehand } = createFakeStagehand([]);
+      page.extract.mockResolvedValueOnce({ dates: ['02/01/2024'] });
+      await recorder.wrap(stagehand).page.extract({
+        instruction: 'Extract the statement dates',
+        schema: DATES_SCHEMA,
+      });
+      await recorder.save();
+
+      const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as {
+        calls: { method: string; data?: unknown }[];
+      };
+      expect(file.calls.map((call) => call.method)).toEqual([
+        'act',
+        'observe',
+        'extract',
+      ]);
+      expect(file.calls[2].data).toEqual({ dates: ['02/01/2024'] });
+    });
+  });
+
+  describe('replay mode', () => {
+    it('should serve recorded calls without the LLM', async () => {
+      await recordRun();
+      const recorder = await createStagehandRecorder({
+        mode: 'replay',
+        filePath,
+      });
+      const { page, stagehand } = createFakeStagehand([
+        USERNAME_INPUT.selector,
+        DOWNLOAD_LINK.selector,
+      ]);
+      const replayed = recorder.wrap(stagehand).page;
+
+      await replayed.act("type 'bob@example.com' into the Username input");
+      const links = await replayed.observe(
+        'Find the download link for January 2024',
+      );
+      const data = await replayed.extract({
+        instruction: 'Extract the statement dates',
+        schema: DATES_SCHEMA,
+      });
+
+      // The recorded action is performed with this run's typed text
+      expect(page.act).toHaveBeenCalledWith({
+        ...USERNAME_INPUT,
+        arguments: ['bob@example.com'],
+      });
+      expect(links).toEqual([DOWNLOAD_LINK]);
+      expect(data).toEqual({ dates: ['01/01/2024'] });
+      expect(page.observe).not.toHaveBeenCalled();
+      expect(page.extract).not.toHaveBeenCalled();
+    });
+
+    it('should call the LLM when a recorded element is gone', async () => {
+      await recordRun();
+      const recorder = await createStagehandRecorder({
+        mode: 'replay',
+        filePath,
+      });
+      const { page, stagehand } = createFakeStagehand([]);
+      const replayed = recorder.wrap(stagehand).page;
+
+      await replayed.act("type 'bob@example.com' into the Username input");
+      await replayed.observe('Find the download link for January 2024');
+
+      expect(page.act).toHaveBeenCalledWith(
+        "type 'bob@example.com' into the Username input",
+      );
+      expect(page.observe).toHaveBeenCalledWith({
+        instruction: 'Find the download link for January 2024',
+      });
+    });
+
+    it('should call the LLM for unrecorded instructions', async () => {
+      await recordRun();
+      const recorder = await createStagehandRecorder({
+        mode: 'replay',
+        filePath,
+      });
+      const { page, stagehand } = createFakeStagehand([]);
+
+      await recorder.wrap(stagehand).page.act('click the Statements tab');
+
+      expect(page.act).toHaveBeenCalledWith('click the Statements tab');
+    });
+
+    it('should call the LLM when recorded data no longer fits the schema', async () => {
+      await recordRun();
+      const recorder = await createStagehandRecorder({
+        mode: 'replay',
+        filePath,
+      });
+      const { page, stagehand } = createFakeStagehand([]);
+      const schema = z.object({ rows: z.array(z.string()) });
+      page.extract.mockResolvedValueOnce({ rows: ['January 2024'] });
+
+      const data = await recorder.wrap(stagehand).page.extract({
+        instruction: 'Extract the statement dates',
+        schema,
+      });
+
+      expect(data).toEqual({ rows: ['January 2024'] });
+      expect(page.extract).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not write the recording file', async () => {
+      const recorder = await createStagehandRecorder({
+        mode: 'replay',
+        filePath,
+      });
+      const { stagehand } = createFakeStagehand([]);
+
+      await recorder.wrap(stagehand).page.act('click the Log In button');
+      await recorder.save();
+
+      await expect(fs.access(filePath)).rejects.toThrow();
+    });
+  });
+
+  it('should pass other page properties through', async () => {
+    const recorder = await createStagehandRecorder({
+      mode: 'replay',
+      filePath,
+    });
+    const { stagehand } = createFakeStagehand([]);
+
+    expect(recorder.wrap(stagehand).page.url()).toBe(
+      'https://portal.example.com/statements',
+    );
+  });
+});
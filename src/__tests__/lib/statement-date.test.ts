@@ -0,0 +1,128 @@
+import {
+  formatUsDate,
+  getAccountingPeriod,
+  getPeriodEnd,
+  isWithinPeriod,
+  parseStatementDate,
+} from '../../lib/statement-date.js';
+
+describe('statement-date', () => {
+  describe('parseStatementDate', () => {
+    it.each([
+      ['2024-01-15', '2024-01-15'],
+      ['2024/1/5', '2024-01-05'],
+      ['2024-01-15T23:30:00-08:00', '2024-01-15'],
+      ['01/15/2024', '2024-01-15'],
+      ['1/5/2024', '2024-01-05'],
+      ['01-15-2024', '2024-01-15'],
+      ['January 15, 2024', '2024-01-15'],
+      ['Sept 3 2024', '2024-09-03'],
+      ['January 2024', '2024-01-01'],
+      ['dec 2023', '2023-12-01'],
+      ['  03/31/2024  ', '2024-03-31'],
+    ])('should parse %s', (input, expected) => {
+      expect(parseStatementDate(input)).toBe(expected);
+    });
+
+    it.each([
+      '',
+      'last month',
+      '2024-13-01',
+      '02/30/2024',
+      'Ma 2024',
+      '15/01/2024',
+    ])('should reject %p', (input) => {
+      expect(() => parseStatementDate(input)).toThrow(
+        `Unparseable statement date: "${input}"`,
+      );
+    });
+
+    it('should not depend on the local timezone', () => {
+      const originalTz = process.env.TZ;
+      process.env.TZ = 'America/Los_Angeles';
+      try {
+        expect(parseStatementDate('2024-03-01')).toBe('2024-03-01');
+      } finally {
+        process.env.TZ = originalTz;
+      }
+    });
+  });
+
+  describe('formatUsDate', () => {
+    it('should format ISO dates as MM/DD/YYYY', () => {
+      expect(formatUsDate('2024-01-05')).toBe('01/05/2024');
+    });
+  });
+
+  describe('isWithinPeriod', () => {
+    it('should include both bounds', () => {
+      const period = { start: '2024-01-01', end: '2024-01-31' };
+      expect(isWithinPeriod('2024-01-01', period)).toBe(true);
+      expect(isWithinPeriod('2024-01-31', period)).toBe(true);
+      expect(isWithinPeriod('2023-12-31', period)).toBe(false);
+      expect(isWithinPeriod('2024-02-01', period)).toBe(false);
+    });
+
+    it('should be open-ended without an end date', () => {
+      expect(isWithinPeriod('2030-01-01', { start: '2024-01-01' })).toBe(true);
+    });
+  });
+
+  describe('getAccountingPeriod', () => {
+    it('should return an open-ended period without an end date', () => {
+      expect(
+        getAccountingPeriod({ accounting_period_start_date: '2024-01-01' }),
+      ).toEqual({ start: '2024-01-01' });
+    });
+
+    it('should include the end date when given', () => {
+      expect(
+        getAccountingPeriod({
+          accounting_period_start_date: '2024-01-01',
+          accounting_period_end_date: '2024-03-31',
+        }),
+      ).toEqual({ start: '2024-01-01', end: '2024-03-31' });
+    });
+
+    it('should allow a single-day period', () => {
+      expect(
+        getAccountingPeriod({
+          accounting_period_start_date: '2024-01-01',
+          accounting_period_end_date: '2024-01-01',
+        }),
+      ).toEqual({ start: '2024-01-01', end: '2024-01-01' });
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() =>
+        getAccountingPeriod({ accounting_period_start_date: '2024-02-30' }),
+      ).toThrow('Invalid accounting_period_start_date: expected YYYY-MM-DD');
+      expect(() =>
+        getAccountingPeriod({
+          accounting_period_start_date: '2024-01-01',
+          accounting_period_end_date: 'soon',
+        }),
+      ).toThrow('Invalid accounting_period_end_date: expected YYYY-MM-DD');
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(() =>
+        getAccountingPeriod({
+          accounting_period_start_date: '2024-03-01',
+          accounting_period_end_date: '2024-01-31',
+        }),
+      ).toThrow(
+        'accounting_period_end_date must not be before accounting_period_start_date',
+      );
+    });
+  });
+
+  describe('getPeriodEnd', () => {
+    it('should use the start date when the period has no end', () => {
+      expect(getPeriodEnd({ start: '2024-01-01' })).toBe('2024-01-01');
+      expect(getPeriodEnd({ start: '2024-01-01', end: '2024-03-31' })).toBe(
+        '2024-03-31',
+      );
+    });
+  });
+});
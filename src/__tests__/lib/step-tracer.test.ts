@@ -0,0 +1,177 @@
+import * as Sentry from '@sentry/node';
+import type { Stagehand } from '@browserbasehq/stagehand';
+import { createStepTracer } from '../../lib/step-tracer.js';
+
+jest.mock('@sentry/node');
+
+const span = { setAttributes: jest.fn(), setStatus: jest.fn() };
+
+function createFakeStagehand() {
+  const metrics = { totalPromptTokens: 0, totalCompletionTokens: 0 };
+  const page = {
+    act: jest.fn((_options: unknown) => {
+      metrics.totalPromptTokens += 100;
+      metrics.totalCompletionTokens += 10;
+      return Promise.resolve({ success: true, message: 'done', action: '' });
+    }),
+    observe: jest.fn((_options: unknown) => Promise.resolve([])),
+  };
+  return {
+    stagehand: { page, metrics } as unknown as Stagehand,
+    page,
+  };
+}
+
+function getLoggedEvents(log: jest.SpyInstance): Record<string, unknown>[] {
+  return log.mock.calls.map(
+    ([line]) => JSON.parse(line as string) as Record<string, unknown>,
+  );
+}
+
+describe('step-tracer', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest
+      .mocked(Sentry.startSpan)
+      .mockImplementation((_context, callback) =>
+        callback(span as unknown as Sentry.Span),
+      );
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should record steps with their LLM calls and token usage', async () => {
+    const tracer = createStepTracer({
+      jobId: 'job-1',
+      carrierSlug: 'net_abacus',
+      attempt: 1,
+    });
+    const { stagehand } = createFakeStagehand();
+    const { page } = tracer.wrap(stagehand);
+
+    await tracer.step('login', async () => {
+      await page.act('click the Log In button');
+      await page.observe('Find the Password input');
+    });
+
+    const [step] = tracer.steps();
+    expect(step).toMatchObject({
+      name: 'login',
+      outcome: 'succeeded',
+      prompt_tokens: 100,
+      completion_tokens: 10,
+      llm_calls: [
+        {
+          method: 'act',
+          instruction: 'click the Log In button',
+          prompt_tokens: 100,
+          completion_tokens: 10,
+        },
+      ],
+      // The observe call used no tokens, e.g. a selector cache hit
+      cached_calls: 1,
+    });
+    expect(tracer.llmCalls()).toBe(1);
+    expect(Sentry.startSpan).toHaveBeenCalledWith(
+      {
+        name: 'login',
+        op: 'workflow.step',
+        attributes: { job_id: 'job-1', carrier: 'net_abacus', attempt: 1 },
+      },
+      expect.anything(),
+    );
+    expect(getLoggedEvents(log)).toEqual([
+      expect.objectContaining({
+        event: 'workflow_step',
+        job_id: 'job-1',
+        carrier: 'net_abacus',
+        name: 'login',
+        outcome: 'succeeded',
+      }),
+    ]);
+  });
+
+  it('should record a failed step and rethrow its error', async () => {
+    const tracer = createStepTracer({
+      jobId: 'job-1',
+      carrierSlug: 'net_abacus',
+    });
+
+    await expect(
+      tracer.step(
+        'download',
+        () => Promise.reject(new Error('No PDF response')),
+        { statement_date: '2024-01-01' },
+      ),
+    ).rejects.toThrow('No PDF response');
+
+    expect(tracer.steps()).toEqual([
+      expect.objectContaining({
+        name: 'download',
+        attributes: { statement_date: '2024-01-01' },
+        outcome: 'failed',
+        error: 'No PDF response',
+      }),
+    ]);
+  });
+
+  it('should leave typed text out of recorded instructions', async () => {
+    const tracer = createStepTracer({
+      jobId: 'job-1',
+      carrierSlug: 'net_abacus',
+    });
+    const { stagehand } = createFakeStagehand();
+
+    await tracer.step('login', () =>
+      tracer.wrap(stagehand).page.act("type 'alice' into the Username input"),
+    );
+
+    expect(tracer.steps()[0].llm_calls[0].instruction).toBe(
+      "type '%text%' into the Username input",
+    );
+  });
+
+  it('should summarize a failed run and mark its span as an error', async () => {
+    const tracer = createStepTracer({
+      jobId: 'job-1',
+      carrierSlug: 'net_abacus',
+    });
+    const { stagehand } = createFakeStagehand();
+    const { page } = tracer.wrap(stagehand);
+
+    const result = await tracer.run(async () => {
+      await tracer.step('login', () => page.act('click the Log In button'));
+      await page.act('click the My Firm menu item');
+      return {
+        success: false,
+        statements: [],
+        error: 'Portal down',
+        failureReason: 'carrier_unavailable',
+      };
+    });
+
+    expect(result.success).toBe(false);
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'carrier_unavailable',
+    });
+    expect(getLoggedEvents(log).pop()).toEqual(
+      expect.objectContaining({
+        event: 'workflow_run',
+        outcome: 'failed',
+        failure_reason: 'carrier_unavailable',
+        steps: [
+          expect.objectContaining({ name: 'login', outcome: 'succeeded' }),
+        ],
+        llm_calls: 2,
+        prompt_tokens: 200,
+        completion_tokens: 20,
+      }),
+    );
+  });
+});
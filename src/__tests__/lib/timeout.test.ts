@@ -0,0 +1,98 @@
+import type { Stagehand } from '@browserbasehq/stagehand';
+import {
+  createStepTimeout,
+  jobTimeoutError,
+  raceAbort,
+  withTimeout,
+} from '../../lib/timeout.js';
+
+/** A promise that never settles, like a hung browser call */
+const hang = <T>() => new Promise<T>(() => undefined);
+
+describe('timeout', () => {
+  describe('raceAbort', () => {
+    it('should settle with the operation while the signal is not aborted', async () => {
+      const controller = new AbortController();
+      await expect(
+        raceAbort(Promise.resolve('done'), controller.signal),
+      ).resolves.toBe('done');
+    });
+
+    it('should reject with the abort reason', async () => {
+      const controller = new AbortController();
+      const result = raceAbort(hang(), controller.signal);
+      controller.abort(jobTimeoutError(900000));
+
+      await expect(result).rejects.toMatchObject({
+        code: 'timeout',
+        message: 'Job did not finish within 900s',
+      });
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should fail as timeout once the budget is spent', async () => {
+      await expect(
+        withTimeout(hang(), 10, 'Took too long'),
+      ).rejects.toMatchObject({ code: 'timeout', message: 'Took too long' });
+    });
+
+    it('should fail with the job deadline when it aborts first', async () => {
+      const deadline = new AbortController();
+      deadline.abort(jobTimeoutError(60000));
+
+      await expect(
+        withTimeout(hang(), 60000, 'Took too long', deadline.signal),
+      ).rejects.toThrow('Job did not finish within 60s');
+    });
+  });
+
+  describe('createStepTimeout', () => {
+    function createFakeStagehand() {
+      const page = {
+        act: jest.fn((_options: unknown) =>
+          Promise.resolve({ success: true, message: 'done', action: 'click' }),
+        ),
+        observe: jest.fn((_options: unknown) => Promise.resolve([])),
+        waitForTimeout: jest.fn((_ms: number) => Promise.resolve()),
+      };
+      return { page, stagehand: { page } as unknown as Stagehand };
+    }
+
+    it('should fail page calls that exceed the step budget', async () => {
+      const { page, stagehand } = createFakeStagehand();
+      page.observe.mockImplementation(hang);
+
+      await expect(
+        createStepTimeout(10).wrap(stagehand).page.observe('Find the table'),
+      ).rejects.toThrow('Stagehand observe did not finish');
+    });
+
+    it('should not start page calls once the job deadline has passed', async () => {
+      const { page, stagehand } = createFakeStagehand();
+      const deadline = new AbortController();
+      const wrapped = createStepTimeout(60000, deadline.signal).wrap(stagehand);
+
+      await wrapped.page.act('click the Log In button');
+      deadline.abort(jobTimeoutError(60000));
+
+      await expect(
+        wrapped.page.act('click the Statements link'),
+      ).rejects.toMatchObject({ code: 'timeout' });
+      expect(page.act).toHaveBeenCalledTimes(1);
+    });
+
+    it('should end fixed waits when the job deadline passes', async () => {
+      const { page, stagehand } = createFakeStagehand();
+      page.waitForTimeout.mockImplementation(hang);
+      const deadline = new AbortController();
+
+      const wait = createStepTimeout(60000, deadline.signal)
+        .wrap(stagehand)
+        .page.waitForTimeout(2000);
+      deadline.abort(jobTimeoutError(60000));
+
+      await expect(wait).rejects.toMatchObject({ code: 'timeout' });
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { generateTotp } from '../../lib/totp.js';
+
+// RFC 6238 appendix B seed ("12345678901234567890") in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC 6238 test vector at %ds', (seconds, code) => {
+    expect(generateTotp(SECRET, seconds * 1000)).toBe(code);
+  });
+
+  it('should accept seeds as formatted by setup screens', () => {
+    expect(generateTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq', 59000)).toBe(
+      '287082',
+    );
+  });
+
+  it('should reject seeds that are not base32', () => {
+    expect(() => generateTotp('not-base32!')).toThrow('Invalid TOTP secret');
+  });
+});
@@ -0,0 +1,188 @@
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { submitMfaCode } from '../lib/mfa.js';
+import type { JobQueue } from '../services/job-queue.js';
+import type { JobRecord } from '../types/index.js';
+
+const mockJobQueue: jest.Mocked<JobQueue> = {
+  enqueue: jest.fn(),
+  get: jest.fn(),
+  start: jest.fn().mockResolvedValue(undefined),
+  stop: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.mock('../services/job-queue.js', () => ({
+  ...jest.requireActual<object>('../services/job-queue.js'),
+  createJobQueue: () => mockJobQueue,
+}));
+jest.mock('../lib/mfa.js');
+
+const mockSubmitMfaCode = submitMfaCode as jest.MockedFunction<
+  typeof submitMfaCode
+>;
+
+const API_KEY = 'test-api-key';
+
+const job: JobRecord = {
+  job_id: 'job-1',
+  request: {
+    job_id: 'job-1',
+    credential: {
+      username: 'alice@example.com',
+      password: 'hunter2-secret',
+      login_url: 'https://portal.abacus.net/login',
+      totp_secret: 'JBSWY3DPEHPK3PXP',
+    },
+    accounting_period_start_date: '2024-01-01',
+  },
+  state: 'awaiting_mfa',
+  carrier_slug: 'net_abacus',
+  attempts: 1,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+describe('server', () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    // The app is exercised through supertest, not a listening port
+    jest.spyOn(express.application, 'listen').mockImplementation(function (
+      this: Express,
+    ) {
+      return this as unknown as ReturnType<Express['listen']>;
+    });
+    ({ default: app } = await import('../server.js'));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/v1/jobs/:job_id', () => {
+    it('should return the status of a job without its credential', async () => {
+      mockJobQueue.get.mockResolvedValue(job);
+
+      const response = await request(app)
+        .get('/api/v1/jobs/job-1')
+        .set('x-api-key', API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        job_id: 'job-1',
+        state: 'awaiting_mfa',
+        carrier_slug: 'net_abacus',
+      });
+      expect(response.body).not.toHaveProperty('credential');
+      expect(response.text).not.toContain('alice@example.com');
+      expect(response.text).not.toContain('hunter2-secret');
+      expect(response.text).not.toContain('JBSWY3DPEHPK3PXP');
+      expect(mockJobQueue.get).toHaveBeenCalledWith('job-1');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      mockJobQueue.get.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/v1/jobs/job-2')
+        .set('x-api-key', API_KEY);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Job not found: job-2' });
+    });
+
+    it('should require the API key', async () => {
+      const response = await request(app).get('/api/v1/jobs/job-1');
+
+      expect(response.status).toBe(401);
+      expect(mockJobQueue.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/jobs/:job_id/mfa', () => {
+    it('should deliver the code to a job awaiting one', async () => {
+      mockJobQueue.get.mockResolvedValue(job);
+      mockSubmitMfaCode.mockReturnValue(true);
+
+      const response = await request(app)
+        .post('/api/v1/jobs/job-1/mfa')
+        .set('x-api-key', API_KEY)
+        .send({ code: ' 123456 ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        message: 'MFA code accepted',
+        job_id: 'job-1',
+      });
+      expect(mockSubmitMfaCode).toHaveBeenCalledWith('job-1', '123456');
+    });
+
+    it('should return 400 for an empty code', async () => {
+      const response = await request(app)
+        .post('/api/v1/jobs/job-1/mfa')
+        .set('x-api-key', API_KEY)
+        .send({ code: '  ' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Missing required field: code',
+      });
+      expect(mockSubmitMfaCode).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      mockJobQueue.get.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/v1/jobs/job-2/mfa')
+        .set('x-api-key', API_KEY)
+        .send({ code: '123456' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Job not found: job-2' });
+      expect(mockSubmitMfaCode).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the job is not awaiting a code', async () => {
+      mockJobQueue.get.mockResolvedValue({ ...job, state: 'running' });
+      mockSubmitMfaCode.mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/api/v1/jobs/job-1/mfa')
+        .set('x-api-key', API_KEY)
+        .send({ code: '123456' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({
+        error: 'Job is not awaiting an MFA code: job-1',
+      });
+    });
+
+    it('should require the API key', async () => {
+      const response = await request(app)
+        .post('/api/v1/jobs/job-1/mfa')
+        .send({ code: '123456' });
+
+      expect(response.status).toBe(401);
+      expect(mockSubmitMfaCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/carriers', () => {
+    it('should list the supported carriers', async () => {
+      const response = await request(app)
+        .get('/api/v1/carriers')
+        .set('x-api-key', API_KEY);
+
+      expect(response.status).toBe(200);
+      const { carriers } = response.body as { carriers: { slug: string }[] };
+      expect(carriers.map(({ slug }) => slug)).toContain('net_abacus');
+    });
+
+    it('should require the API key', async () => {
+      const response = await request(app).get('/api/v1/carriers');
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import * as adminApi from '../../services/admin-api-client.js';
+import {
+  createAdminApiCredentialProvider,
+  createFileCredentialProvider,
+  readCredentialFile,
+  resolveCredential,
+  writeCredentialFile,
+} from '../../services/credential-provider.js';
+import type { CarrierCredentials } from '../../types/index.js';
+
+jest.mock('../../services/admin-api-client.js');
+
+const mockGetCredential = adminApi.getCredential as jest.MockedFunction<
+  typeof adminApi.getCredential
+>;
+
+const credential: CarrierCredentials = {
+  username: 'agent@example.com',
+  password: 'correct-horse',
+  login_url: 'https://portal.abacus.net/login',
+};
+
+describe('credential-provider', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'credentials-'));
+    filePath = path.join(dir, 'credentials.enc.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('credentials file', () => {
+    it('should round-trip credentials without storing them in plaintext', async () => {
+      await writeCredentialFile(filePath, 'passphrase', { cred_1: credential });
+
+      const contents = await fs.readFile(filePath, 'utf-8');
+      expect(contents).not.toContain('correct-horse');
+      expect(contents).not.toContain('agent@example.com');
+      expect(await readCredentialFile(filePath, 'passphrase')).toEqual({
+        cred_1: credential,
+      });
+    });
+
+    it('should reject the wrong passphrase', async () => {
+      await writeCredentialFile(filePath, 'passphrase', { cred_1: credential });
+
+      await expect(readCredentialFile(filePath, 'wrong')).rejects.toThrow(
+        'Could not decrypt credentials file',
+      );
+    });
+
+    it('should read a missing file as empty', async () => {
+      expect(await readCredentialFile(filePath, 'passphrase')).toEqual({});
+    });
+  });
+
+  describe('resolveCredential', () => {
+    it('should use inline credentials without a credential_id', async () => {
+      const provider = { get: jest.fn() };
+
+      expect(await resolveCredential({ credential }, provider)).toBe(
+        credential,
+      );
+      expect(provider.get).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a credential_id from the credentials file', async () => {
+      await writeCredentialFile(filePath, 'passphrase', { cred_1: credential });
+      const provider = createFileCredentialProvider(filePath, 'passphrase');
+
+      expect(
+        await resolveCredential({ credential_id: 'cred_1' }, provider),
+      ).toEqual(credential);
+      await expect(
+        resolveCredential({ credential_id: 'toString' }, provider),
+      ).rejects.toThrow('Credential not found: toString');
+    });
+
+    it('should resolve a credential_id through the Admin API', async () => {
+      mockGetCredential
+        .mockResolvedValueOnce(credential)
+        .mockResolvedValueOnce(null);
+      const provider = createAdminApiCredentialProvider();
+
+      expect(
+        await resolveCredential({ credential_id: 'cred_1' }, provider),
+      ).toEqual(credential);
+      await expect(
+        resolveCredential({ credential_id: 'cred_2' }, provider),
+      ).rejects.toMatchObject({
+        code: 'invalid_credentials',
+        message: 'Credential not found: cred_2',
+      });
+      expect(mockGetCredential).toHaveBeenCalledWith('cred_1');
+    });
+
+    it('should reject a credential_id without a provider', async () => {
+      await expect(
+        resolveCredential({ credential_id: 'cred_1', credential }, null),
+      ).rejects.toThrow('credential_id requires a CREDENTIAL_PROVIDER');
+    });
+  });
+});
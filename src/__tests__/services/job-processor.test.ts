@@ -0,0 +1,402 @@
+import * as Sentry from '@sentry/node';
+import { processJob } from '../../services/job-processor.js';
+import * as workflow from '../../services/workflow-manager.js';
+import { processStatements } from '../../services/statement-processor.js';
+import * as adminApi from '../../services/admin-api-client.js';
+import { installConsoleRedaction, redact } from '../../lib/redaction.js';
+import { getMfaCode, submitMfaCode } from '../../lib/mfa.js';
+import type { JobRecord } from '../../types/index.js';
+
+jest.mock('@sentry/node');
+jest.mock('../../services/workflow-manager.js');
+jest.mock('../../services/statement-processor.js');
+jest.mock('../../services/admin-api-client.js');
+
+const mockIdentify = workflow.identify as jest.MockedFunction<
+  typeof workflow.identify
+>;
+const mockRun = workflow.run as jest.MockedFunction<typeof workflow.run>;
+const mockProcessStatements = processStatements as jest.MockedFunction<
+  typeof processStatements
+>;
+const mockCreateInboxStatements =
+  adminApi.createInboxStatements as jest.MockedFunction<
+    typeof adminApi.createInboxStatements
+  >;
+
+const credential = {
+  username: 'user',
+  password: 'pass',
+  login_url: 'https://portal.abacus.net/login',
+};
+
+const job: JobRecord = {
+  job_id: 'job-1',
+  request: {
+    job_id: 'job-1',
+    credential,
+    accounting_period_start_date: '2024-01-01',
+  },
+  state: 'running',
+  attempts: 1,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+const attachment = {
+  public_id: 'supplier_statements/net_abacus/statement',
+  format: 'pdf',
+  url: 'https://cloudinary.com/statement.pdf',
+  title: 'statement.pdf',
+  etag: 'abc123',
+  content_type: 'application/pdf',
+};
+
+describe('job-processor', () => {
+  const reportProgress = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIdentify.mockReturnValue('net_abacus');
+  });
+
+  it('should upload statements, create inbox items and succeed', async () => {
+    mockRun.mockResolvedValue({
+      success: true,
+      statements: [{ pdfUrl: 'url1', statementDate: '2024-01-15' }],
+    });
+    mockProcessStatements.mockResolvedValue([attachment]);
+    mockCreateInboxStatements.mockResolvedValue({
+      inbox_item_ids: ['inbox-1'],
+      inbox_item_status: [],
+    });
+
+    const outcome = await processJob(job, reportProgress);
+
+    expect(outcome).toEqual({ status_update: { status: 'success' } });
+    expect(mockProcessStatements).toHaveBeenCalledWith(
+      [{ pdfUrl: 'url1', statementDate: '2024-01-15' }],
+      'net_abacus',
+      { start: '2024-01-01' },
+      expect.anything(),
+    );
+    expect(mockCreateInboxStatements).toHaveBeenCalledWith('job-1', [
+      attachment,
+    ]);
+    expect(reportProgress).toHaveBeenCalledWith({
+      state: 'uploading',
+      statement_count: 1,
+    });
+    expect(reportProgress).toHaveBeenCalledWith({
+      attachments: [attachment],
+      retry_counts: {
+        workflow_attempts: 1,
+        step_retries: 0,
+        upload_retries: 0,
+      },
+    });
+  });
+
+  it('should report workflow, step and upload retries', async () => {
+    mockRun.mockResolvedValue({
+      success: true,
+      statements: [{ pdfUrl: 'url1', statementDate: '2024-01-15' }],
+      model: 'google/gemini-2.0-flash-exp',
+      attempts: 2,
+      stepRetries: 3,
+    });
+    mockProcessStatements.mockImplementation(
+      (_statements, _carrierSlug, _period, options) => {
+        options?.onRetry?.();
+        return Promise.resolve([attachment]);
+      },
+    );
+    mockCreateInboxStatements.mockResolvedValue({
+      inbox_item_ids: ['inbox-1'],
+      inbox_item_status: [],
+    });
+
+    await processJob(job, reportProgress);
+
+    expect(reportProgress).toHaveBeenCalledWith({
+      llm_model: 'google/gemini-2.0-flash-exp',
+      retry_counts: {
+        workflow_attempts: 2,
+        step_retries: 3,
+        upload_retries: 0,
+      },
+    });
+    expect(reportProgress).toHaveBeenCalledWith({
+      attachments: [attachment],
+      retry_counts: {
+        workflow_attempts: 2,
+        step_retries: 3,
+        upload_retries: 1,
+      },
+    });
+  });
+
+  it('should filter statements by the requested period range', async () => {
+    mockRun.mockResolvedValue({ success: true, statements: [] });
+    mockProcessStatements.mockResolvedValue([]);
+
+    await processJob(
+      {
+        ...job,
+        request: {
+          ...job.request,
+          accounting_period_end_date: '2024-03-31',
+        },
+      },
+      reportProgress,
+    );
+
+    expect(mockProcessStatements).toHaveBeenCalledWith(
+      [],
+      'net_abacus',
+      { start: '2024-01-01', end: '2024-03-31' },
+      expect.anything(),
+    );
+    expect(mockCreateInboxStatements).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    'invalid_credentials',
+    'requires_mfa',
+    'password_change',
+    'missing_instruction',
+  ] as const)(
+    'should report the workflow failure reason %s',
+    async (failureReason) => {
+      mockRun.mockResolvedValue({
+        success: false,
+        statements: [],
+        error: 'Login blocked',
+        failureReason,
+      });
+
+      const outcome = await processJob(job, reportProgress);
+
+      expect(outcome).toEqual({
+        status_update: { status: 'failed', failure_reason: failureReason },
+        error: 'Workflow failed: Login blocked',
+      });
+      expect(mockProcessStatements).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should record the model the workflow ran with', async () => {
+    mockRun.mockResolvedValue({
+      success: false,
+      statements: [],
+      error: 'Login blocked',
+      model: 'google/gemini-2.0-flash-exp',
+      fallbackModel: 'openai/gpt-4o-mini',
+    });
+
+    await processJob(job, reportProgress);
+
+    expect(reportProgress).toHaveBeenCalledWith({
+      llm_model: 'google/gemini-2.0-flash-exp',
+      llm_fallback_model: 'openai/gpt-4o-mini',
+      retry_counts: {
+        workflow_attempts: 1,
+        step_retries: 0,
+        upload_retries: 0,
+      },
+    });
+  });
+
+  it('should abort the workflow and fail with timeout past the job deadline', async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    mockRun.mockImplementation((_job, jobSignal) => {
+      signal = jobSignal;
+      // A workflow that never settles
+      return new Promise(() => undefined);
+    });
+
+    try {
+      const outcome = processJob(job, reportProgress);
+      await jest.advanceTimersByTimeAsync(900000);
+
+      await expect(outcome).resolves.toEqual({
+        status_update: { status: 'failed', failure_reason: 'timeout' },
+        error: 'Job did not finish within 900s',
+      });
+      expect(signal?.aborted).toBe(true);
+      expect(mockProcessStatements).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should fail with timeout when uploading runs past the job deadline', async () => {
+    jest.useFakeTimers();
+    mockRun.mockResolvedValue({
+      success: true,
+      statements: [{ pdfUrl: 'url1', statementDate: '2024-01-15' }],
+    });
+    mockProcessStatements.mockResolvedValue([attachment]);
+    mockCreateInboxStatements.mockReturnValue(new Promise(() => undefined));
+
+    try {
+      const outcome = processJob(job, reportProgress);
+      await jest.advanceTimersByTimeAsync(900000);
+
+      await expect(outcome).resolves.toEqual({
+        status_update: { status: 'failed', failure_reason: 'timeout' },
+        error: 'Job did not finish within 900s',
+      });
+      const [[, , , options]] = mockProcessStatements.mock.calls;
+      expect(options?.signal?.aborted).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should link failure artifacts from the job and the Sentry event', async () => {
+    const artifact = {
+      kind: 'screenshot' as const,
+      filename: 'attempt-1-failure.png',
+      content_type: 'image/png',
+      url: 'file:///data/artifacts/job-1/attempt-1-failure.png',
+    };
+    mockRun.mockResolvedValue({
+      success: false,
+      statements: [],
+      error: 'Could not find download button',
+      artifacts: [artifact],
+    });
+
+    await processJob(job, reportProgress);
+
+    expect(reportProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ failure_artifacts: [artifact] }),
+    );
+    expect(Sentry.captureException).toHaveBeenCalledWith(expect.any(Error), {
+      extra: { failure_artifacts: [artifact.url] },
+    });
+  });
+
+  it('should default to carrier_unavailable when no reason is given', async () => {
+    mockRun.mockResolvedValue({
+      success: false,
+      statements: [],
+      error: 'Could not find download button',
+    });
+
+    const outcome = await processJob(job, reportProgress);
+
+    expect(outcome.status_update).toEqual({
+      status: 'failed',
+      failure_reason: 'carrier_unavailable',
+    });
+  });
+
+  it('should fail as carrier_unavailable when uploads throw', async () => {
+    mockRun.mockResolvedValue({ success: true, statements: [] });
+    mockProcessStatements.mockRejectedValue(new Error('Cloudinary down'));
+
+    const outcome = await processJob(job, reportProgress);
+
+    expect(outcome).toEqual({
+      status_update: {
+        status: 'failed',
+        failure_reason: 'carrier_unavailable',
+      },
+      error: 'Cloudinary down',
+    });
+  });
+
+  it('should fail after creating inbox items when some uploads fail', async () => {
+    const statements = [
+      { pdfUrl: 'url1', statementDate: '2024-01-15' },
+      { pdfUrl: 'url2', statementDate: '2024-02-15' },
+    ];
+    mockRun.mockResolvedValue({ success: true, statements });
+    mockProcessStatements.mockImplementation(
+      (_statements, _carrierSlug, _period, options) => {
+        options?.onFailure?.(statements[1], new Error('Cloudinary down'));
+        return Promise.resolve([attachment]);
+      },
+    );
+    mockCreateInboxStatements.mockResolvedValue({
+      inbox_item_ids: ['inbox-1'],
+      inbox_item_status: [],
+    });
+
+    const outcome = await processJob(job, reportProgress);
+
+    expect(mockCreateInboxStatements).toHaveBeenCalledWith('job-1', [
+      attachment,
+    ]);
+    expect(outcome).toEqual({
+      status_update: {
+        status: 'failed',
+        failure_reason: 'carrier_unavailable',
+      },
+      error: '1 of 2 statements failed to upload: 2024-02-15',
+    });
+  });
+
+  it('should wait in awaiting_mfa for an out-of-band code', async () => {
+    mockRun.mockImplementation(async (request) => {
+      const code = getMfaCode(request);
+      // Let the job start waiting before the code is submitted
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(submitMfaCode('job-1', '123456')).toBe(true);
+      expect(await code).toBe('123456');
+      return { success: true, statements: [] };
+    });
+    mockProcessStatements.mockResolvedValue([]);
+
+    const outcome = await processJob(job, reportProgress);
+
+    expect(outcome).toEqual({ status_update: { status: 'success' } });
+    expect(adminApi.requestMfaCode).toHaveBeenCalledWith('job-1');
+    expect(reportProgress).toHaveBeenCalledWith({ state: 'awaiting_mfa' });
+    expect(reportProgress).toHaveBeenCalledWith({ state: 'running' });
+  });
+
+  it('should keep the password out of logs and the job error', async () => {
+    const password = 'correct-horse-battery';
+    const secretJob: JobRecord = {
+      ...job,
+      request: {
+        ...job.request,
+        credential: { ...credential, password },
+      },
+    };
+    const logged: string[] = [];
+    const capture = (message: string) => {
+      logged.push(message);
+    };
+    const spies = [
+      jest.spyOn(console, 'log').mockImplementation(capture),
+      jest.spyOn(console, 'error').mockImplementation(capture),
+    ];
+    const uninstall = installConsoleRedaction();
+    mockRun.mockImplementation((request) => {
+      console.log('Logging in with', request.credential);
+      return Promise.resolve({
+        success: false,
+        statements: [],
+        error: `Portal rejected password ${password}`,
+      });
+    });
+
+    const outcome = await processJob(secretJob, reportProgress).finally(() => {
+      uninstall();
+      spies.forEach((spy) => spy.mockRestore());
+    });
+
+    expect(logged.join('\n')).not.toContain(password);
+    expect(logged.join('\n')).toContain('[REDACTED]');
+    expect(outcome.error).toBe(
+      'Workflow failed: Portal rejected password [REDACTED]',
+    );
+    // Unregistered once the job is done
+    expect(redact(password)).toBe(password);
+  });
+});
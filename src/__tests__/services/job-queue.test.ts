@@ -0,0 +1,296 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJobStore, type JobStore } from '../../lib/job-store.js';
+import {
+  createJobQueue,
+  toJobStatusResponse,
+  type JobQueueOptions,
+} from '../../services/job-queue.js';
+import type {
+  FetchStatementsRequest,
+  JobRecord,
+  JobState,
+} from '../../types/index.js';
+
+jest.mock('@sentry/node');
+
+const buildRequest = (jobId: string): FetchStatementsRequest => ({
+  job_id: jobId,
+  credential: {
+    username: 'user',
+    password: 'pass',
+    login_url: 'https://portal.abacus.net/login',
+  },
+  accounting_period_start_date: '2024-01-01',
+});
+
+async function waitFor(
+  store: JobStore,
+  jobId: string,
+  predicate: (job: JobRecord) => boolean,
+): Promise<JobRecord> {
+  const deadline = Date.now() + 5000;
+  while (Date.now() < deadline) {
+    const job = await store.get(jobId);
+    if (job && predicate(job)) {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Timed out waiting for job ${jobId}`);
+}
+
+describe('job-queue', () => {
+  let dataDir: string;
+  let store: JobStore;
+  let runJob: jest.MockedFunction<JobQueueOptions['runJob']>;
+  let reportStatus: jest.MockedFunction<JobQueueOptions['reportStatus']>;
+  let stop: (() => Promise<void>) | undefined;
+
+  const startQueue = async (overrides: Partial<JobQueueOptions> = {}) => {
+    const queue = createJobQueue({
+      store,
+      runJob,
+      reportStatus,
+      concurrency: 1,
+      pollIntervalMs: 20,
+      maxAttempts: 3,
+      retentionMs: 60000,
+      ...overrides,
+    });
+    await queue.start();
+    stop = queue.stop;
+    return queue;
+  };
+
+  const seed = async (jobId: string, state: JobState, attempts: number) => {
+    const job = await store.create(buildRequest(jobId));
+    return store.save({ ...job, state, attempts });
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-queue-'));
+    store = createJobStore(dataDir);
+    runJob = jest
+      .fn()
+      .mockResolvedValue({ status_update: { status: 'success' } });
+    reportStatus = jest.fn().mockResolvedValue(undefined);
+    stop = undefined;
+  });
+
+  afterEach(async () => {
+    await stop?.();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should run an enqueued job and report its status', async () => {
+    const queue = await startQueue();
+
+    await queue.enqueue(buildRequest('job-1'));
+    const job = await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(job.state).toBe('succeeded');
+    expect(job.attempts).toBe(1);
+    expect(runJob).toHaveBeenCalledWith(
+      expect.objectContaining({ job_id: 'job-1', state: 'running' }),
+      expect.any(Function),
+    );
+    expect(reportStatus).toHaveBeenCalledWith('job-1', { status: 'success' });
+  });
+
+  it('should persist progress and phase timestamps', async () => {
+    const attachment = {
+      public_id: 'supplier_statements/net_abacus/statement',
+      format: 'pdf',
+      url: 'https://cloudinary.com/statement.pdf',
+      title: 'statement.pdf',
+      etag: 'abc123',
+      content_type: 'application/pdf',
+    };
+    runJob.mockImplementation(async (_job, reportProgress) => {
+      await reportProgress({ carrier_slug: 'net_abacus' });
+      await reportProgress({ state: 'uploading', statement_count: 1 });
+      await reportProgress({ attachments: [attachment] });
+      return { status_update: { status: 'success' } };
+    });
+    const queue = await startQueue();
+
+    await queue.enqueue(buildRequest('job-1'));
+    const job = await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(job).toMatchObject({
+      state: 'succeeded',
+      carrier_slug: 'net_abacus',
+      statement_count: 1,
+      attachments: [attachment],
+    });
+    expect(job.started_at).toBeDefined();
+    expect(job.uploading_at).toBeDefined();
+    expect(job.finished_at).toBeDefined();
+  });
+
+  it('should not enqueue the same job twice', async () => {
+    const queue = await startQueue();
+
+    await queue.enqueue(buildRequest('job-1'));
+    await queue.enqueue(buildRequest('job-1'));
+    await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(runJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a failure when the job handler throws', async () => {
+    runJob.mockRejectedValue(new Error('boom'));
+    const queue = await startQueue();
+
+    await queue.enqueue(buildRequest('job-1'));
+    const job = await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(job.state).toBe('failed');
+    expect(job.error).toBe('boom');
+    expect(reportStatus).toHaveBeenCalledWith('job-1', {
+      status: 'failed',
+      failure_reason: 'carrier_unavailable',
+    });
+  });
+
+  it('should keep unreported results and schedule a retry', async () => {
+    reportStatus.mockRejectedValue(new Error('Admin API down'));
+    const queue = await startQueue();
+
+    await queue.enqueue(buildRequest('job-1'));
+    const job = await waitFor(store, 'job-1', (j) => !!j.report_attempts);
+
+    expect(job.state).toBe('succeeded');
+    expect(job.reported_at).toBeUndefined();
+    expect(job.next_report_at).toBeDefined();
+  });
+
+  it('should re-queue orphaned running jobs on start', async () => {
+    await seed('job-1', 'running', 1);
+
+    await startQueue();
+    const job = await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(job.attempts).toBe(2);
+    expect(runJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail orphaned jobs that reached the attempt limit', async () => {
+    await seed('job-1', 'running', 3);
+
+    await startQueue();
+    const job = await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(job.state).toBe('failed');
+    expect(runJob).not.toHaveBeenCalled();
+    expect(reportStatus).toHaveBeenCalledWith('job-1', {
+      status: 'failed',
+      failure_reason: 'carrier_unavailable',
+    });
+  });
+
+  it('should fail orphaned uploading jobs instead of running them again', async () => {
+    await seed('job-1', 'uploading', 1);
+
+    await startQueue();
+    const job = await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(job.state).toBe('failed');
+    expect(job.error).toBe('Job interrupted while uploading statements');
+    expect(runJob).not.toHaveBeenCalled();
+  });
+
+  it('should drop the credential of finished jobs', async () => {
+    const queue = await startQueue();
+
+    await queue.enqueue(buildRequest('job-1'));
+    await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    const file = await fs.readFile(path.join(dataDir, 'job-1.json'), 'utf8');
+    expect(file).not.toContain('pass');
+    const [[claimed]] = runJob.mock.calls;
+    expect(claimed.request.credential?.password).toBe('pass');
+  });
+
+  it('should delete reported jobs after the retention period', async () => {
+    const job = await seed('job-1', 'succeeded', 1);
+    await store.save({
+      ...job,
+      reported_at: new Date(Date.now() - 60000).toISOString(),
+    });
+    await seed('job-2', 'succeeded', 1).then((recent) =>
+      store.save({ ...recent, reported_at: new Date().toISOString() }),
+    );
+
+    await startQueue();
+    await waitFor(store, 'job-2', () => true);
+    const deadline = Date.now() + 5000;
+    while ((await store.get('job-1')) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(await store.get('job-1')).toBeNull();
+    expect(await store.get('job-2')).not.toBeNull();
+  });
+
+  it('should report finished jobs left unreported by a previous process', async () => {
+    const job = await seed('job-1', 'succeeded', 1);
+    await store.save({ ...job, status_update: { status: 'success' } });
+
+    await startQueue();
+    await waitFor(store, 'job-1', (j) => !!j.reported_at);
+
+    expect(runJob).not.toHaveBeenCalled();
+    expect(reportStatus).toHaveBeenCalledWith('job-1', { status: 'success' });
+  });
+
+  it('should not exceed the configured concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    runJob.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      inFlight--;
+      return { status_update: { status: 'success' } };
+    });
+    const queue = await startQueue({ concurrency: 2 });
+
+    for (const jobId of ['job-1', 'job-2', 'job-3', 'job-4']) {
+      await queue.enqueue(buildRequest(jobId));
+    }
+    await waitFor(store, 'job-4', (j) => !!j.reported_at);
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  describe('toJobStatusResponse', () => {
+    it('should expose lifecycle fields without the original request', async () => {
+      const job = await seed('job-1', 'failed', 1);
+
+      const response = toJobStatusResponse({
+        ...job,
+        carrier_slug: 'net_abacus',
+        error: 'Workflow failed: login timed out',
+        status_update: {
+          status: 'failed',
+          failure_reason: 'carrier_unavailable',
+        },
+      });
+
+      expect(response).toMatchObject({
+        job_id: 'job-1',
+        state: 'failed',
+        carrier_slug: 'net_abacus',
+        attempts: 1,
+        timestamps: { queued_at: job.created_at },
+        attachments: [],
+        failure_reason: 'carrier_unavailable',
+        error: 'Workflow failed: login timed out',
+      });
+      expect(JSON.stringify(response)).not.toContain('pass');
+    });
+  });
+});
@@ -4,7 +4,8 @@ import {
 } from '../../services/statement-processor.js';
 import type { Statement } from '../../types/index.js';
 import { downloadPdf, extractFilename } from '../../lib/pdf-downloader.js';
-import { uploadPdf } from '../../lib/cloudinary-service.js';
+import { uploadStatementFile } from '../../lib/cloudinary-service.js';
+import { jobTimeoutError } from '../../lib/timeout.js';
 
 jest.mock('../../lib/pdf-downloader.js');
 jest.mock('../../lib/cloudinary-service.js');
@@ -13,7 +14,9 @@ const mockDownloadPdf = downloadPdf as jest.MockedFunction<typeof downloadPdf>;
 const mockExtractFilename = extractFilename as jest.MockedFunction<
   typeof extractFilename
 >;
-const mockUploadPdf = uploadPdf as jest.MockedFunction<typeof uploadPdf>;
+const mockUploadStatementFile = uploadStatementFile as jest.MockedFunction<
+  typeof uploadStatementFile
+>;
 
 describe('statement-processor', () => {
   describe('filterStatementsByDate', () => {
@@ -24,31 +27,68 @@ describe('statement-processor', () => {
       { pdfUrl: 'url4', statementDate: '2023-12-15' },
     ];
 
-    it('should filter statements after the cutoff date', () => {
-      const filtered = filterStatementsByDate(statements, '2024-02-01');
+    it('should filter statements after the start date', () => {
+      const filtered = filterStatementsByDate(statements, {
+        start: '2024-02-01',
+      });
+      expect(filtered).toHaveLength(2);
+      expect(filtered[0].statementDate).toBe('2024-02-15');
+      expect(filtered[1].statementDate).toBe('2024-03-15');
+    });
+
+    it('should include statements on the start date', () => {
+      const filtered = filterStatementsByDate(statements, {
+        start: '2024-02-15',
+      });
       expect(filtered).toHaveLength(2);
       expect(filtered[0].statementDate).toBe('2024-02-15');
       expect(filtered[1].statementDate).toBe('2024-03-15');
     });
 
-    it('should exclude statements on the cutoff date', () => {
-      const filtered = filterStatementsByDate(statements, '2024-02-15');
+    it('should include statements on the end date and exclude later ones', () => {
+      const filtered = filterStatementsByDate(statements, {
+        start: '2024-01-01',
+        end: '2024-02-15',
+      });
+      expect(filtered.map((s) => s.statementDate)).toEqual([
+        '2024-01-15',
+        '2024-02-15',
+      ]);
+    });
+
+    it('should compare non-ISO statement dates as calendar dates', () => {
+      const filtered = filterStatementsByDate(
+        [{ pdfUrl: 'url1', statementDate: '02/01/2024' }],
+        { start: '2024-02-01' },
+      );
       expect(filtered).toHaveLength(1);
-      expect(filtered[0].statementDate).toBe('2024-03-15');
+    });
+
+    it('should throw on unparseable statement dates', () => {
+      expect(() =>
+        filterStatementsByDate(
+          [{ pdfUrl: 'url1', statementDate: 'last month' }],
+          { start: '2024-01-01' },
+        ),
+      ).toThrow('Unparseable statement date: "last month"');
     });
 
     it('should return empty array if no statements match', () => {
-      const filtered = filterStatementsByDate(statements, '2024-04-01');
+      const filtered = filterStatementsByDate(statements, {
+        start: '2024-04-01',
+      });
       expect(filtered).toHaveLength(0);
     });
 
-    it('should return all statements if all are after cutoff', () => {
-      const filtered = filterStatementsByDate(statements, '2023-01-01');
+    it('should return all statements if all are after the start date', () => {
+      const filtered = filterStatementsByDate(statements, {
+        start: '2023-01-01',
+      });
       expect(filtered).toHaveLength(4);
     });
 
     it('should handle empty statements array', () => {
-      const filtered = filterStatementsByDate([], '2024-01-01');
+      const filtered = filterStatementsByDate([], { start: '2024-01-01' });
       expect(filtered).toHaveLength(0);
     });
   });
@@ -72,11 +112,12 @@ describe('statement-processor', () => {
           url: 'https://cloudinary.com/statement.pdf',
           title: 'statement.pdf',
           etag: 'abc123',
+          content_type: 'application/pdf',
         };
 
         mockDownloadPdf.mockResolvedValue(mockBuffer);
         mockExtractFilename.mockReturnValue('statement.pdf');
-        mockUploadPdf.mockResolvedValue(mockAttachment);
+        mockUploadStatementFile.mockResolvedValue(mockAttachment);
 
         const result = await processStatement(statement, 'net_abacus');
 
@@ -86,9 +127,11 @@ describe('statement-processor', () => {
         expect(mockExtractFilename).toHaveBeenCalledWith(
           'https://example.com/statement.pdf',
         );
-        expect(mockUploadPdf).toHaveBeenCalledWith(mockBuffer, {
+        expect(mockUploadStatementFile).toHaveBeenCalledWith(mockBuffer, {
           carrierName: 'net_abacus',
           filename: 'statement.pdf',
+          format: 'pdf',
+          contentType: 'application/pdf',
           metadata: {
             statement_date: '2024-01-15',
             carrier: 'net_abacus',
@@ -109,6 +152,81 @@ describe('statement-processor', () => {
           'Download failed',
         );
       });
+
+      it('should retry failed downloads and uploads', async () => {
+        const statement: Statement = {
+          pdfUrl: 'https://example.com/statement.pdf',
+          statementDate: '2024-01-15',
+        };
+        const mockAttachment = {
+          public_id: 'supplier_statements/net_abacus/statement',
+          format: 'pdf',
+          url: 'https://cloudinary.com/statement.pdf',
+          title: 'statement.pdf',
+          etag: 'abc123',
+          content_type: 'application/pdf',
+        };
+        const onRetry = jest.fn();
+
+        mockDownloadPdf
+          .mockRejectedValueOnce(new Error('socket hang up'))
+          .mockResolvedValue(Buffer.from('%PDF-1.4\nmock pdf content'));
+        mockExtractFilename.mockReturnValue('statement.pdf');
+        mockUploadStatementFile
+          .mockRejectedValueOnce(new Error('Cloudinary 503'))
+          .mockResolvedValue(mockAttachment);
+
+        const result = await processStatement(statement, 'net_abacus', {
+          onRetry,
+        });
+
+        expect(result).toEqual(mockAttachment);
+        expect(mockDownloadPdf).toHaveBeenCalledTimes(2);
+        expect(mockUploadStatementFile).toHaveBeenCalledTimes(2);
+        expect(onRetry).toHaveBeenCalledTimes(2);
+      });
+
+      it('should stop retrying once the job deadline passes', async () => {
+        const deadline = new AbortController();
+
+        mockDownloadPdf.mockResolvedValue(
+          Buffer.from('%PDF-1.4\nmock pdf content'),
+        );
+        mockExtractFilename.mockReturnValue('statement.pdf');
+        mockUploadStatementFile.mockRejectedValue(new Error('Cloudinary 503'));
+
+        await expect(
+          processStatement(
+            {
+              pdfUrl: 'https://example.com/statement.pdf',
+              statementDate: '2024-01-15',
+            },
+            'net_abacus',
+            {
+              onRetry: () => deadline.abort(jobTimeoutError(900000)),
+              signal: deadline.signal,
+            },
+          ),
+        ).rejects.toThrow('Job did not finish within 900s');
+        expect(mockUploadStatementFile).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not retry files that fail validation', async () => {
+        const statement: Statement = {
+          pdfUrl: 'https://example.com/statement.pdf',
+          statementDate: '2024-01-15',
+        };
+
+        mockDownloadPdf.mockResolvedValue(
+          Buffer.from('<html><body>Session expired</body></html>'),
+        );
+
+        await expect(
+          processStatement(statement, 'net_abacus'),
+        ).rejects.toThrow();
+        expect(mockDownloadPdf).toHaveBeenCalledTimes(1);
+        expect(mockUploadStatementFile).not.toHaveBeenCalled();
+      });
     });
 
     describe('with fileBuffer (pre-captured file)', () => {
@@ -126,18 +244,21 @@ describe('statement-processor', () => {
           url: 'https://cloudinary.com/ufg_statement.pdf',
           title: 'UFG_Statement_2024-01-15.pdf',
           etag: 'xyz789',
+          content_type: 'application/pdf',
         };
 
-        mockUploadPdf.mockResolvedValue(mockAttachment);
+        mockUploadStatementFile.mockResolvedValue(mockAttachment);
 
         const result = await processStatement(statement, 'com_ufginsurance');
 
         expect(mockDownloadPdf).not.toHaveBeenCalled();
         expect(mockExtractFilename).not.toHaveBeenCalled();
 
-        expect(mockUploadPdf).toHaveBeenCalledWith(mockBuffer, {
+        expect(mockUploadStatementFile).toHaveBeenCalledWith(mockBuffer, {
           carrierName: 'com_ufginsurance',
           filename: 'UFG_Statement_2024-01-15.pdf',
+          format: 'pdf',
+          contentType: 'application/pdf',
           metadata: {
             statement_date: '2024-01-15',
             carrier: 'com_ufginsurance',
@@ -159,15 +280,18 @@ describe('statement-processor', () => {
           url: 'https://cloudinary.com/statement.pdf',
           title: 'statement.pdf',
           etag: 'default123',
+          content_type: 'application/pdf',
         };
 
-        mockUploadPdf.mockResolvedValue(mockAttachment);
+        mockUploadStatementFile.mockResolvedValue(mockAttachment);
 
         const result = await processStatement(statement, 'com_ufginsurance');
 
-        expect(mockUploadPdf).toHaveBeenCalledWith(mockBuffer, {
+        expect(mockUploadStatementFile).toHaveBeenCalledWith(mockBuffer, {
           carrierName: 'com_ufginsurance',
           filename: 'statement.pdf',
+          format: 'pdf',
+          contentType: 'application/pdf',
           metadata: {
             statement_date: '2024-01-15',
             carrier: 'com_ufginsurance',
@@ -184,7 +308,7 @@ describe('statement-processor', () => {
           statementDate: '2024-01-15',
         };
 
-        mockUploadPdf.mockRejectedValue(new Error('Upload failed'));
+        mockUploadStatementFile.mockRejectedValue(new Error('Upload failed'));
 
         await expect(
           processStatement(statement, 'com_ufginsurance'),
@@ -192,6 +316,69 @@ describe('statement-processor', () => {
       });
     });
 
+    describe('with spreadsheet files', () => {
+      const xlsxBuffer = Buffer.concat([
+        Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+        Buffer.from('[Content_Types].xml xl/workbook.xml'),
+      ]);
+
+      beforeEach(() => {
+        mockUploadStatementFile.mockResolvedValue({
+          public_id: 'supplier_statements/com_apagents/statement',
+          format: 'xlsx',
+          url: 'https://cloudinary.com/statement',
+          title: 'statement.xlsx',
+          etag: 'sheet123',
+          content_type:
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        });
+      });
+
+      it('should upload XLSX files with their detected format and MIME type', async () => {
+        const statement: Statement = {
+          fileBuffer: xlsxBuffer,
+          filename: 'AP_Statement_January_2024.xlsx',
+          statementDate: '2024-01-01',
+        };
+
+        await processStatement(statement, 'com_apagents');
+
+        expect(mockUploadStatementFile).toHaveBeenCalledWith(xlsxBuffer, {
+          carrierName: 'com_apagents',
+          filename: 'AP_Statement_January_2024.xlsx',
+          format: 'xlsx',
+          contentType:
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          metadata: {
+            statement_date: '2024-01-01',
+            carrier: 'com_apagents',
+          },
+        });
+      });
+
+      it('should correct the extension of downloaded CSV files', async () => {
+        const csvBuffer = Buffer.from('policy,premium,commission\nA1,100,10\n');
+        const statement: Statement = {
+          pdfUrl: 'https://example.com/export',
+          statementDate: '2024-01-15',
+        };
+
+        mockDownloadPdf.mockResolvedValue(csvBuffer);
+        mockExtractFilename.mockReturnValue('export');
+
+        await processStatement(statement, 'net_abacus');
+
+        expect(mockUploadStatementFile).toHaveBeenCalledWith(
+          csvBuffer,
+          expect.objectContaining({
+            filename: 'export.csv',
+            format: 'csv',
+            contentType: 'text/csv',
+          }),
+        );
+      });
+    });
+
     describe('error cases', () => {
       it('should throw error if statement has neither pdfUrl nor fileBuffer', async () => {
         const statement: Statement = {
@@ -203,7 +390,7 @@ describe('statement-processor', () => {
         );
 
         expect(mockDownloadPdf).not.toHaveBeenCalled();
-        expect(mockUploadPdf).not.toHaveBeenCalled();
+        expect(mockUploadStatementFile).not.toHaveBeenCalled();
       });
 
       it('should throw error if fileBuffer is empty', async () => {
@@ -213,13 +400,13 @@ describe('statement-processor', () => {
         };
 
         await expect(processStatement(statement, 'net_abacus')).rejects.toThrow(
-          'PDF buffer is empty or null',
+          'File buffer is empty or null',
         );
 
-        expect(mockUploadPdf).not.toHaveBeenCalled();
+        expect(mockUploadStatementFile).not.toHaveBeenCalled();
       });
 
-      it('should throw error if fileBuffer does not have valid PDF header', async () => {
+      it('should throw error if fileBuffer is an HTML error page', async () => {
         const statement: Statement = {
           fileBuffer: Buffer.from('<!DOCTYPE html>'),
           filename: 'error.pdf',
@@ -227,10 +414,10 @@ describe('statement-processor', () => {
         };
 
         await expect(processStatement(statement, 'net_abacus')).rejects.toThrow(
-          'Invalid PDF: expected header "%PDF" but got "<!DO"',
+          'Invalid statement file: received an HTML page',
         );
 
-        expect(mockUploadPdf).not.toHaveBeenCalled();
+        expect(mockUploadStatementFile).not.toHaveBeenCalled();
       });
     });
 
@@ -250,18 +437,21 @@ describe('statement-processor', () => {
           url: 'https://cloudinary.com/buffer_statement.pdf',
           title: 'buffer_statement.pdf',
           etag: 'buffer123',
+          content_type: 'application/pdf',
         };
 
-        mockUploadPdf.mockResolvedValue(mockAttachment);
+        mockUploadStatementFile.mockResolvedValue(mockAttachment);
 
         const result = await processStatement(statement, 'net_abacus');
 
         expect(mockDownloadPdf).not.toHaveBeenCalled();
         expect(mockExtractFilename).not.toHaveBeenCalled();
 
-        expect(mockUploadPdf).toHaveBeenCalledWith(mockBuffer, {
+        expect(mockUploadStatementFile).toHaveBeenCalledWith(mockBuffer, {
           carrierName: 'net_abacus',
           filename: 'buffer_statement.pdf',
+          format: 'pdf',
+          contentType: 'application/pdf',
           metadata: {
             statement_date: '2024-01-15',
             carrier: 'net_abacus',
@@ -1,6 +1,47 @@
+import type { Stagehand } from '@browserbasehq/stagehand';
 import * as workflow from '../../services/workflow-manager.js';
+import { jobTimeoutError } from '../../lib/timeout.js';
+import {
+  createStagehandClient,
+  type StagehandClient,
+} from '../../lib/stagehand-client.js';
+
+jest.mock('../../lib/stagehand-client.js');
+
+const mockCreateStagehandClient = createStagehandClient as jest.MockedFunction<
+  typeof createStagehandClient
+>;
+
+const buildClient = (rows: Record<string, string>[]): StagehandClient => {
+  const page = {
+    goto: jest.fn().mockResolvedValue(undefined),
+    act: jest.fn().mockResolvedValue(undefined),
+    waitForTimeout: jest.fn().mockResolvedValue(undefined),
+    waitForLoadState: jest.fn().mockResolvedValue(undefined),
+    extract: jest.fn().mockResolvedValue({ rows }),
+    observe: jest.fn().mockResolvedValue([{ selector: 'xpath=//input' }]),
+    locator: jest.fn().mockReturnValue({
+      fill: jest.fn().mockResolvedValue(undefined),
+      innerText: jest.fn().mockResolvedValue('Welcome back'),
+      first: () => ({ isVisible: jest.fn().mockResolvedValue(false) }),
+    }),
+  };
+  return {
+    stagehand: { page } as unknown as Stagehand,
+    page: page as unknown as StagehandClient['page'],
+    model: 'openai/gpt-4o',
+    getFallbackModelUsed: () => undefined,
+    getStepRetries: () => 0,
+    captureArtifacts: jest.fn().mockResolvedValue([]),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+};
 
 describe('workflow-manager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
   describe('identify', () => {
     it('should identify net_abacus carrier', () => {
       expect(workflow.identify('https://portal.abacus.net/login')).toBe(
@@ -15,6 +56,24 @@ describe('workflow-manager', () => {
       );
     });
 
+    it('should map every registered domain to its carrier', () => {
+      expect(workflow.identify('https://www.apagents.com/login')).toBe(
+        'com_apagents',
+      );
+      expect(workflow.identify('https://advantagepartners.com/login')).toBe(
+        'com_apagents',
+      );
+    });
+
+    it('should keep the registrable domain for second-level suffixes', () => {
+      expect(workflow.identify('https://portal.example.co.uk/login')).toBe(
+        'uk_co_example',
+      );
+      expect(workflow.identify('https://agents.example.com.au/login')).toBe(
+        'au_com_example',
+      );
+    });
+
     it('should return carrier slug for any valid URL', () => {
       expect(workflow.identify('https://unknown-carrier.com/login')).toBe(
         'com_unknown-carrier',
@@ -29,4 +88,110 @@ describe('workflow-manager', () => {
       expect(workflow.identify('')).toBe('unknown');
     });
   });
+
+  describe('executeWorkflow', () => {
+    it('should fail with missing_instruction for unknown carriers', async () => {
+      const result = await workflow.executeWorkflow('unknown', {
+        job_id: 'job-1',
+        credential: {
+          username: 'user',
+          password: 'pass',
+          login_url: 'not-a-url',
+        },
+        accounting_period_start_date: '2024-01-01',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        statements: [],
+        error: 'Unknown carrier for URL: not-a-url',
+        failureReason: 'missing_instruction',
+      });
+    });
+
+    it('should fail with missing_instruction for unregistered carriers', async () => {
+      const result = await workflow.executeWorkflow('com_example', {
+        job_id: 'job-1',
+        credential: {
+          username: 'user',
+          password: 'pass',
+          login_url: 'https://example.com/login',
+        },
+        accounting_period_start_date: '2024-01-01',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        statements: [],
+        error: 'No workflow implemented for carrier: com_example',
+        failureReason: 'missing_instruction',
+      });
+    });
+
+    it('should not retry when no statement was issued for the period', async () => {
+      mockCreateStagehandClient.mockResolvedValue(
+        buildClient([{ month: 'June', year: '2023' }]),
+      );
+
+      const result = await workflow.executeWorkflow('com_apagents', {
+        job_id: 'job-1',
+        credential: {
+          username: 'user',
+          password: 'pass',
+          login_url: 'https://www.apagents.com/login',
+        },
+        accounting_period_start_date: '2024-01-01',
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        statements: [],
+        attempts: 1,
+      });
+      expect(mockCreateStagehandClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up on a session that is still starting at the deadline', async () => {
+      let startSession: (client: StagehandClient) => void = () => undefined;
+      let starting: () => void = () => undefined;
+      const started = new Promise<void>((resolve) => {
+        starting = resolve;
+      });
+      mockCreateStagehandClient.mockImplementation(() => {
+        starting();
+        return new Promise((resolve) => {
+          startSession = resolve;
+        });
+      });
+      const deadline = new AbortController();
+
+      const pending = workflow.executeWorkflow(
+        'com_apagents',
+        {
+          job_id: 'job-1',
+          credential: {
+            username: 'user',
+            password: 'pass',
+            login_url: 'https://www.apagents.com/login',
+          },
+          accounting_period_start_date: '2024-01-01',
+        },
+        deadline.signal,
+      );
+      await started;
+      deadline.abort(jobTimeoutError(60000));
+
+      expect(await pending).toMatchObject({
+        success: false,
+        failureReason: 'timeout',
+        attempts: 1,
+      });
+
+      // The session is closed once it has started
+      const client = buildClient([]);
+      startSession(client);
+      await new Promise(setImmediate);
+      expect(client.close).toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,156 @@
+import { chromium, type Browser, type Page } from 'playwright';
+import * as amerisafe from '../../workflows/com_amerisafe.js';
+import * as apagents from '../../workflows/com_apagents.js';
+import * as ufg from '../../workflows/com_ufginsurance.js';
+import * as abacus from '../../workflows/net_abacus.js';
+import { describeWithBrowser } from '../fixtures/browser.js';
+import { createStubStagehand } from '../fixtures/stub-stagehand.js';
+import {
+  PASSWORD,
+  PORTALS,
+  USERNAME,
+  samplePdf,
+  sampleXlsx,
+  startPortalServer,
+  type PortalServer,
+} from '../fixtures/carrier-portals/server.js';
+import type { WorkflowJob } from '../../types/index.js';
+
+interface WorkflowCase {
+  slug: string;
+  runWorkflow: typeof abacus.runWorkflow;
+  /** Expected statement filename and contents for an ISO date */
+  filename: (date: string) => string;
+  contents: (date: string) => Buffer;
+}
+
+const CASES: WorkflowCase[] = [
+  {
+    slug: 'com_amerisafe',
+    runWorkflow: amerisafe.runWorkflow,
+    filename: (date) => `Amerisafe_Statement_${date}.pdf`,
+    contents: (date) => samplePdf('com_amerisafe', date),
+  },
+  {
+    slug: 'com_apagents',
+    runWorkflow: apagents.runWorkflow,
+    filename: (date) =>
+      date === '2024-01-01'
+        ? 'AP_Statement_January_2024.xlsx'
+        : 'AP_Statement_February_2024.xlsx',
+    contents: (date) => sampleXlsx('com_apagents', date),
+  },
+  {
+    slug: 'com_ufginsurance',
+    runWorkflow: ufg.runWorkflow,
+    filename: (date) => `UFG_Statement_${date}.pdf`,
+    contents: (date) => samplePdf('com_ufginsurance', date),
+  },
+  {
+    slug: 'net_abacus',
+    runWorkflow: abacus.runWorkflow,
+    filename: (date) => `statement-${date}.pdf`,
+    contents: (date) => samplePdf('net_abacus', date),
+  },
+];
+
+// Workflows pause between steps the way they do against real portals
+jest.setTimeout(60000);
+
+describeWithBrowser('carrier workflows against mock portals', () => {
+  let server: PortalServer;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await startPortalServer();
+    browser = await chromium.launch();
+  });
+
+  afterAll(async () => {
+    await browser.close();
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+  });
+
+  afterEach(async () => {
+    await page.context().close();
+  });
+
+  function run(
+    workflowCase: WorkflowCase,
+    job: Partial<WorkflowJob> & { password?: string } = {},
+  ) {
+    const portal = PORTALS.find(({ slug }) => slug === workflowCase.slug);
+    if (!portal) {
+      throw new Error(`No mock portal for ${workflowCase.slug}`);
+    }
+    const { password = PASSWORD, ...overrides } = job;
+
+    return workflowCase.runWorkflow(createStubStagehand(page, portal.rules), {
+      job_id: `test-${workflowCase.slug}`,
+      credential: {
+        username: USERNAME,
+        password,
+        login_url: server.loginUrl(workflowCase.slug),
+      },
+      accounting_period_start_date: '2024-01-01',
+      ...overrides,
+    });
+  }
+
+  it.each(CASES)(
+    '$slug should download the statement for the period',
+    async (workflowCase) => {
+      const result = await run(workflowCase);
+
+      expect(result.error).toBeUndefined();
+      expect(result.success).toBe(true);
+      expect(result.statements).toHaveLength(1);
+
+      const [statement] = result.statements;
+      expect(statement.statementDate).toBe('2024-01-01');
+      expect(statement.filename).toBe(workflowCase.filename('2024-01-01'));
+      expect(statement.fileBuffer).toEqual(workflowCase.contents('2024-01-01'));
+    },
+  );
+
+  it.each(CASES)(
+    '$slug should download every statement in a range',
+    async (workflowCase) => {
+      const result = await run(workflowCase, {
+        accounting_period_end_date: '2024-02-29',
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.statements.map((s) => s.statementDate)).toEqual([
+        '2024-01-01',
+        '2024-02-01',
+      ]);
+      for (const statement of result.statements) {
+        expect(statement.filename).toBe(
+          workflowCase.filename(statement.statementDate),
+        );
+        expect(statement.fileBuffer).toEqual(
+          workflowCase.contents(statement.statementDate),
+        );
+      }
+    },
+  );
+
+  it.each(CASES)(
+    '$slug should report rejected credentials',
+    async (workflowCase) => {
+      const result = await run(workflowCase, { password: 'wrong-password' });
+
+      expect(result).toMatchObject({
+        success: false,
+        statements: [],
+        failureReason: 'invalid_credentials',
+      });
+    },
+  );
+});
@@ -1,5 +1,16 @@
 import 'dotenv/config';
-import type { AppConfig } from '../types/index.js';
+import type {
+  AppConfig,
+  ArtifactStoreType,
+  BrowserProvider,
+  CarrierSlug,
+  CarrierThrottle,
+  CredentialProviderType,
+  LlmModel,
+  LogLevel,
+  RecordingMode,
+  RetryPolicy,
+} from '../types/index.js';
 
 function getEnvVar(name: string, required: boolean = true): string {
   const value = process.env[name];
@@ -9,19 +20,243 @@ function getEnvVar(name: string, required: boolean = true): string {
   return value || '';
 }
 
+function getJsonEnvVar<T>(name: string, fallback: T): T {
+  const value = getEnvVar(name, false);
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Invalid JSON in environment variable: ${name}`);
+  }
+}
+
+const BROWSER_PROVIDERS: BrowserProvider[] = ['browserbase', 'local', 'cdp'];
+
+function getBrowserProvider(): BrowserProvider {
+  const value = getEnvVar('BROWSER_PROVIDER', false) || 'browserbase';
+  if (!BROWSER_PROVIDERS.includes(value as BrowserProvider)) {
+    throw new Error(
+      `Invalid BROWSER_PROVIDER: ${value} (expected ${BROWSER_PROVIDERS.join(', ')})`,
+    );
+  }
+  return value as BrowserProvider;
+}
+
+const browserProvider = getBrowserProvider();
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+function getLogLevel(): LogLevel {
+  const value = getEnvVar('LOG_LEVEL', false) || 'info';
+  if (!LOG_LEVELS.includes(value as LogLevel)) {
+    throw new Error(
+      `Invalid LOG_LEVEL: ${value} (expected ${LOG_LEVELS.join(', ')})`,
+    );
+  }
+  return value as LogLevel;
+}
+
+function getLlmModel(): LlmModel {
+  const provider = getEnvVar('LLM_PROVIDER', false) || 'google';
+  return {
+    provider,
+    model: getEnvVar('LLM_MODEL', false) || 'gemini-2.0-flash-exp',
+    apiKey:
+      getEnvVar('LLM_API_KEY', false) ||
+      (provider === 'google' ? getEnvVar('GEMINI_API_KEY') : undefined),
+    baseURL: getEnvVar('LLM_BASE_URL', false) || undefined,
+  };
+}
+
+function getFallbackLlmModel(primary: LlmModel): LlmModel | undefined {
+  const model = getEnvVar('LLM_FALLBACK_MODEL', false);
+  if (!model) {
+    return undefined;
+  }
+  const provider =
+    getEnvVar('LLM_FALLBACK_PROVIDER', false) || primary.provider;
+  return {
+    provider,
+    model,
+    apiKey:
+      getEnvVar('LLM_FALLBACK_API_KEY', false) ||
+      (provider === primary.provider ? primary.apiKey : undefined),
+    baseURL: getEnvVar('LLM_FALLBACK_BASE_URL', false) || undefined,
+  };
+}
+
+const llmModel = getLlmModel();
+
+const RECORDING_MODES: RecordingMode[] = ['off', 'record', 'replay'];
+
+function getRecordingMode(): RecordingMode {
+  const value = getEnvVar('STAGEHAND_RECORDING', false) || 'off';
+  if (!RECORDING_MODES.includes(value as RecordingMode)) {
+    throw new Error(
+      `Invalid STAGEHAND_RECORDING: ${value} (expected ${RECORDING_MODES.join(', ')})`,
+    );
+  }
+  return value as RecordingMode;
+}
+
+const CREDENTIAL_PROVIDERS: CredentialProviderType[] = [
+  'none',
+  'file',
+  'admin_api',
+];
+
+function getCredentialProvider(): CredentialProviderType {
+  const value = getEnvVar('CREDENTIAL_PROVIDER', false) || 'none';
+  if (!CREDENTIAL_PROVIDERS.includes(value as CredentialProviderType)) {
+    throw new Error(
+      `Invalid CREDENTIAL_PROVIDER: ${value} (expected ${CREDENTIAL_PROVIDERS.join(', ')})`,
+    );
+  }
+  return value as CredentialProviderType;
+}
+
+const credentialProvider = getCredentialProvider();
+
+const ARTIFACT_STORES: ArtifactStoreType[] = ['off', 'local', 'cloudinary'];
+
+function getArtifactStore(): ArtifactStoreType {
+  const value = getEnvVar('ARTIFACTS_STORE', false) || 'local';
+  if (!ARTIFACT_STORES.includes(value as ArtifactStoreType)) {
+    throw new Error(
+      `Invalid ARTIFACTS_STORE: ${value} (expected ${ARTIFACT_STORES.join(', ')})`,
+    );
+  }
+  return value as ArtifactStoreType;
+}
+
+function getRetryPolicy(
+  prefix: string,
+  defaultAttempts: number,
+  defaultBaseDelayMs: number,
+): RetryPolicy {
+  return {
+    attempts: Math.max(
+      1,
+      parseInt(
+        getEnvVar(`${prefix}_RETRY_ATTEMPTS`, false) || `${defaultAttempts}`,
+        10,
+      ),
+    ),
+    baseDelayMs: parseInt(
+      getEnvVar(`${prefix}_RETRY_BASE_DELAY_MS`, false) ||
+        `${defaultBaseDelayMs}`,
+      10,
+    ),
+  };
+}
+
 export const config: AppConfig = {
   port: parseInt(getEnvVar('PORT', false) || '3003', 10),
   apiKey: getEnvVar('API_KEY'),
+  logging: {
+    level: getLogLevel(),
+  },
+  jobs: {
+    dataDir: getEnvVar('JOBS_DATA_DIR', false) || './data/jobs',
+    concurrency: parseInt(getEnvVar('JOB_CONCURRENCY', false) || '1', 10),
+    pollIntervalMs: parseInt(
+      getEnvVar('JOB_POLL_INTERVAL_MS', false) || '1000',
+      10,
+    ),
+    maxAttempts: parseInt(getEnvVar('JOB_MAX_ATTEMPTS', false) || '3', 10),
+    retentionMs: parseInt(
+      getEnvVar('JOB_RETENTION_MS', false) || '604800000',
+      10,
+    ),
+    mfaTimeoutMs: parseInt(
+      getEnvVar('MFA_CODE_TIMEOUT_MS', false) || '300000',
+      10,
+    ),
+    timeoutMs: parseInt(getEnvVar('JOB_TIMEOUT_MS', false) || '900000', 10),
+    stepTimeoutMs: parseInt(
+      getEnvVar('STEP_TIMEOUT_MS', false) || '120000',
+      10,
+    ),
+  },
+  sessions: {
+    maxConcurrent: parseInt(
+      getEnvVar('MAX_CONCURRENT_SESSIONS', false) || '5',
+      10,
+    ),
+    carrierDefaults: {
+      maxSessions: parseInt(
+        getEnvVar('CARRIER_MAX_SESSIONS', false) || '2',
+        10,
+      ),
+      minLoginIntervalMs: parseInt(
+        getEnvVar('CARRIER_MIN_LOGIN_INTERVAL_MS', false) || '5000',
+        10,
+      ),
+    },
+    carrierOverrides: getJsonEnvVar<Record<CarrierSlug, CarrierThrottle>>(
+      'CARRIER_THROTTLE_OVERRIDES',
+      {},
+    ),
+  },
   adminApi: {
     apiKey: getEnvVar('ADMIN_API_KEY'),
     baseUrl: getEnvVar('ADMIN_API_BASE_URL'),
   },
-  browserbase: {
-    apiKey: getEnvVar('BROWSERBASE_API_KEY'),
-    projectId: getEnvVar('BROWSERBASE_PROJECT_ID'),
+  credentials: {
+    provider: credentialProvider,
+    filePath:
+      getEnvVar('CREDENTIALS_FILE', false) || './data/credentials.enc.json',
+    secret:
+      getEnvVar('CREDENTIALS_SECRET', credentialProvider === 'file') ||
+      undefined,
+  },
+  browser: {
+    provider: browserProvider,
+    headless: getEnvVar('BROWSER_HEADLESS', false) !== 'false',
+    cdpUrl:
+      getEnvVar('BROWSER_CDP_URL', browserProvider === 'cdp') || undefined,
+    executablePath: getEnvVar('BROWSER_EXECUTABLE_PATH', false) || undefined,
+  },
+  recording: {
+    mode: getRecordingMode(),
+    dir: getEnvVar('STAGEHAND_RECORDINGS_DIR', false) || './recordings',
+  },
+  sessionState: getEnvVar('SESSION_STATE_SECRET', false)
+    ? {
+        dir: getEnvVar('SESSION_STATE_DIR', false) || './data/session-state',
+        secret: getEnvVar('SESSION_STATE_SECRET'),
+      }
+    : undefined,
+  artifacts: {
+    store: getArtifactStore(),
+    dir: getEnvVar('ARTIFACTS_DIR', false) || './data/artifacts',
+    everyStep: getEnvVar('ARTIFACTS_EVERY_STEP', false) === 'true',
+  },
+  retry: {
+    step: getRetryPolicy('STEP', 2, 1000),
+    workflow: getRetryPolicy('WORKFLOW', 2, 30000),
+    upload: getRetryPolicy('UPLOAD', 3, 2000),
+  },
+  selectorCache: {
+    enabled: getEnvVar('SELECTOR_CACHE_ENABLED', false) !== 'false',
+    dir: getEnvVar('SELECTOR_CACHE_DIR', false) || './data/selector-cache',
   },
-  gemini: {
-    apiKey: getEnvVar('GEMINI_API_KEY'),
+  browserbase:
+    browserProvider === 'browserbase'
+      ? {
+          apiKey: getEnvVar('BROWSERBASE_API_KEY'),
+          projectId: getEnvVar('BROWSERBASE_PROJECT_ID'),
+        }
+      : undefined,
+  llm: {
+    model: llmModel,
+    fallback: getFallbackLlmModel(llmModel),
+    carrierOverrides: getJsonEnvVar<Record<CarrierSlug, Partial<LlmModel>>>(
+      'LLM_CARRIER_OVERRIDES',
+      {},
+    ),
   },
   cloudinary: {
     cloudName: getEnvVar('CLOUDINARY_CLOUD_NAME'),
@@ -1,5 +1,9 @@
 import 'dotenv/config';
 import * as Sentry from '@sentry/node';
+import { installConsoleRedaction, redactSecrets } from './lib/redaction.js';
+
+// Before anything logs: job credentials must never reach stdout/stderr
+installConsoleRedaction();
 
 const sentryDsn = process.env.SENTRY_DSN;
 const nodeEnv = process.env.NODE_ENV;
@@ -24,7 +28,16 @@ if (sentryDsn && nodeEnv == 'production') {
       if (event.request?.headers) {
         delete event.request.headers['x-api-key'];
       }
-      return event;
+      // Credentials of running jobs may appear in exception messages and
+      // console breadcrumbs
+      return redactSecrets(event);
+    },
+    beforeSendTransaction(event) {
+      if (event.request?.headers) {
+        delete event.request.headers['x-api-key'];
+      }
+      // Step spans carry workflow instructions and error messages
+      return redactSecrets(event);
     },
   });
 }
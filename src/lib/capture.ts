@@ -0,0 +1,325 @@
+import type { APIResponse, Page, Response, Route } from 'playwright';
+import { extractFilename } from './pdf-downloader.js';
+import { getErrorMessage } from './error-utils.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const POLL_INTERVAL_MS = 250;
+
+/** A file captured from a carrier portal */
+export interface CapturedFile {
+  buffer: Buffer;
+  /** URL the file was served from */
+  url: string;
+  /** Content-Type reported by the server (may be empty) */
+  contentType: string;
+  /** From Content-Disposition, else the URL path, else the fallback */
+  filename: string;
+}
+
+export interface CaptureOptions {
+  /** How long to wait for the file (default 10 seconds) */
+  timeoutMs?: number;
+  /** Filename used when the server provides none */
+  fallbackFilename?: string;
+}
+
+export interface NewTabCaptureOptions extends CaptureOptions {
+  /** Only accept tabs whose URL contains this text */
+  urlIncludes?: string;
+}
+
+export interface ResponseCaptureOptions extends CaptureOptions {
+  /** Predicate selecting the response that carries the file */
+  match: (response: Response) => boolean;
+}
+
+/** Action that makes the portal serve the file, e.g. clicking a link */
+export type CaptureTrigger = () => Promise<unknown>;
+
+/**
+ * Get a file's name from its response headers or URL
+ * @param headers - Response headers (lower-case names)
+ * @param url - Response URL
+ * @param fallback - Name used when neither provides one
+ * @returns Filename
+ */
+export function getResponseFilename(
+  headers: Record<string, string>,
+  url: string,
+  fallback: string = 'statement',
+): string {
+  const disposition = headers['content-disposition'] ?? '';
+  const encoded = /filename\*\s*=\s*[^']*''([^;]+)/i.exec(disposition);
+  const plain = /filename\s*=\s*"?([^";]+)"?/i.exec(disposition);
+
+  try {
+    if (encoded) {
+      return decodeURIComponent(encoded[1].trim());
+    }
+  } catch {
+    // Malformed encoding; fall back to the plain filename
+  }
+  if (plain) {
+    return plain[1].trim();
+  }
+  return extractFilename(url, fallback);
+}
+
+async function toCapturedFile(
+  response: Response | APIResponse,
+  buffer: Buffer,
+  options: CaptureOptions,
+): Promise<CapturedFile> {
+  const headers =
+    'allHeaders' in response ? await response.allHeaders() : response.headers();
+
+  if (buffer.length === 0) {
+    throw new Error(`Captured file is empty: ${response.url()}`);
+  }
+
+  return {
+    buffer,
+    url: response.url(),
+    contentType: headers['content-type'] ?? '',
+    filename: getResponseFilename(
+      headers,
+      response.url(),
+      options.fallbackFilename,
+    ),
+  };
+}
+
+/**
+ * Fetch a URL with the page's cookies
+ * @throws Error if the server does not return a success status
+ */
+async function fetchWithSession(
+  page: Page,
+  url: string,
+  options: CaptureOptions,
+): Promise<CapturedFile> {
+  const response = await page.request.get(url, {
+    timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  });
+
+  if (!response.ok()) {
+    throw new Error(
+      `Failed to fetch ${url}: ${response.status()} ${response.statusText()}`,
+    );
+  }
+
+  return toCapturedFile(response, await response.body(), options);
+}
+
+/**
+ * Capture a file that the portal opens in a new tab
+ * The tab's URL is fetched again with the session cookies, then the tab is
+ * closed.
+ * @param page - Page the trigger acts on
+ * @param trigger - Action that opens the tab
+ * @param options - Timeout and URL filter
+ * @returns Captured file
+ * @throws Error if no tab opens in time or its URL doesn't match
+ */
+export async function captureNewTab(
+  page: Page,
+  trigger: CaptureTrigger,
+  options: NewTabCaptureOptions = {},
+): Promise<CapturedFile> {
+  const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const [newPage] = await Promise.all([
+    page.context().waitForEvent('page', { timeout }),
+    trigger(),
+  ]);
+
+  let url: string;
+  try {
+    // PDF viewers may never finish loading and headless browsers turn PDFs
+    // into downloads; either way the file's URL is all we need
+    url = await Promise.race([
+      newPage
+        .waitForURL((tabUrl) => tabUrl.href !== 'about:blank', { timeout })
+        .then(() => newPage.url()),
+      newPage
+        .waitForEvent('download', { timeout })
+        .then((download) => download.url()),
+    ]).catch(() => newPage.url());
+  } finally {
+    await newPage.close().catch(() => undefined);
+  }
+
+  if (url === 'about:blank') {
+    throw new Error(`New tab did not navigate within ${timeout}ms`);
+  }
+  if (options.urlIncludes && !url.includes(options.urlIncludes)) {
+    throw new Error(
+      `New tab URL does not contain "${options.urlIncludes}": ${url}`,
+    );
+  }
+
+  return fetchWithSession(page, url, options);
+}
+
+/**
+ * Capture a file by intercepting the request that serves it
+ * Works for files rendered from blob URLs, where the tab URL is useless.
+ * The route is removed again before returning.
+ * @param page - Page the trigger acts on
+ * @param urlGlob - Glob matching the file request, e.g. `**\/*statement*`
+ * @param trigger - Action that requests the file
+ * @param options - Timeout
+ * @returns Captured file
+ * @throws Error if no matching response arrives in time
+ */
+export async function captureRoute(
+  page: Page,
+  urlGlob: string,
+  trigger: CaptureTrigger,
+  options: CaptureOptions = {},
+): Promise<CapturedFile> {
+  const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let captured: CapturedFile | null = null;
+
+  const handler = async (route: Route) => {
+    try {
+      const response = await route.fetch();
+      const buffer = await response.body();
+      if (!captured && buffer.length > 0) {
+        captured = await toCapturedFile(response, buffer, options);
+      }
+      await route.fulfill({ response });
+    } catch {
+      // Let the browser handle the request if the fetch itself failed
+      await route.continue().catch(() => undefined);
+    }
+  };
+
+  let triggerError: Error | undefined;
+  await page.route(urlGlob, handler);
+  try {
+    try {
+      await trigger();
+    } catch (error: unknown) {
+      // Clicks that open blob tabs can fail after the request was sent
+      triggerError =
+        error instanceof Error ? error : new Error(getErrorMessage(error));
+    }
+
+    const startTime = Date.now();
+    while (!captured && Date.now() - startTime < timeout) {
+      await page.waitForTimeout(POLL_INTERVAL_MS);
+    }
+  } finally {
+    await page.unroute(urlGlob, handler);
+  }
+
+  if (!captured) {
+    throw (
+      triggerError ??
+      new Error(
+        `Timed out after ${timeout}ms waiting for a response matching ${urlGlob}`,
+      )
+    );
+  }
+  return captured;
+}
+
+/**
+ * Capture a file by replaying the form that encloses a download control
+ * The form fields (and the control's own name/value) are sent as a POST with
+ * the session cookies, without navigating the page.
+ * @param page - Page holding the form
+ * @param selector - Selector of the download control
+ * @param options - Timeout
+ * @returns Captured file
+ * @throws Error if the control has no form or the server rejects the POST
+ */
+export async function captureFormPost(
+  page: Page,
+  selector: string,
+  options: CaptureOptions = {},
+): Promise<CapturedFile> {
+  const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const formInfo = await page.locator(selector).evaluate(
+    (el: Element) => {
+      const control = el as HTMLButtonElement;
+      const form = control.closest('form');
+      if (!form) {
+        return null;
+      }
+
+      const fields: Record<string, string> = {};
+      form
+        .querySelectorAll<HTMLInputElement>('input, select, textarea')
+        .forEach((input) => {
+          if (input.name && input.type !== 'submit') {
+            fields[input.name] = input.value;
+          }
+        });
+      if (control.name) {
+        fields[control.name] = control.value;
+      }
+
+      return { action: form.action, fields };
+    },
+    undefined,
+    { timeout },
+  );
+
+  if (!formInfo?.action) {
+    throw new Error(`Download control is not inside a form: ${selector}`);
+  }
+
+  const response = await page.request.post(formInfo.action, {
+    form: formInfo.fields,
+    timeout,
+  });
+
+  if (!response.ok()) {
+    throw new Error(
+      `Failed to fetch ${formInfo.action}: ${response.status()} ${response.statusText()}`,
+    );
+  }
+
+  return toCapturedFile(response, await response.body(), options);
+}
+
+/**
+ * Capture a file from a response the page receives, e.g. a postback that
+ * returns a PDF. The body is re-fetched with the session cookies when the
+ * browser doesn't keep it (downloads and navigations away).
+ * @param page - Page the trigger acts on
+ * @param trigger - Action that makes the page request the file
+ * @param options - Response predicate and timeout
+ * @returns Captured file
+ * @throws Error if no matching response arrives in time
+ */
+export async function captureResponse(
+  page: Page,
+  trigger: CaptureTrigger,
+  options: ResponseCaptureOptions,
+): Promise<CapturedFile> {
+  const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const [response] = await Promise.all([
+    page.waitForResponse(options.match, { timeout }),
+    trigger(),
+  ]);
+
+  let buffer: Buffer;
+  try {
+    buffer = await response.body();
+  } catch {
+    return fetchWithSession(page, response.url(), options);
+  }
+  return toCapturedFile(response, buffer, options);
+}
+
+/**
+ * Match responses whose Content-Type or URL identifies a PDF
+ * @param response - Page response
+ * @returns True for PDF responses
+ */
+export function isPdfResponse(response: Response): boolean {
+  const contentType = response.headers()['content-type'] ?? '';
+  return contentType.includes('pdf') || response.url().includes('.pdf');
+}
@@ -0,0 +1,85 @@
+import type { Carrier, CarrierResponse, CarrierSlug } from '../types/index.js';
+
+/**
+ * Supported carriers
+ * The slug names the workflow file; add an entry here with each new workflow
+ */
+const CARRIERS: Carrier[] = [
+  {
+    slug: 'com_amerisafe',
+    displayName: 'Amerisafe',
+    domains: ['amerisafe.com'],
+    aliases: ['amerisafe'],
+    statementFormats: ['pdf'],
+  },
+  {
+    slug: 'com_apagents',
+    displayName: 'Advantage Partners',
+    domains: ['apagents.com', 'advantagepartners.com'],
+    aliases: ['advantage-partners', 'advantagepartners'],
+    statementFormats: ['xlsx'],
+  },
+  {
+    slug: 'com_ufginsurance',
+    displayName: 'UFG Insurance',
+    domains: ['ufginsurance.com'],
+    aliases: ['ufg'],
+    statementFormats: ['pdf'],
+  },
+  {
+    slug: 'net_abacus',
+    displayName: 'Abacus',
+    domains: ['abacus.net'],
+    aliases: ['abacus'],
+    statementFormats: ['pdf'],
+  },
+];
+
+/**
+ * List all supported carriers
+ * @returns Carriers sorted by slug
+ */
+export function listCarriers(): Carrier[] {
+  return [...CARRIERS].sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+/**
+ * Find the carrier whose portal is served from a hostname
+ * @param hostname - Hostname, e.g. "portal.abacus.net"
+ * @returns Carrier, or undefined if no registered domain matches
+ */
+export function findCarrierByHostname(hostname: string): Carrier | undefined {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+
+  return CARRIERS.find(({ domains }) =>
+    domains.some((domain) => host === domain || host.endsWith(`.${domain}`)),
+  );
+}
+
+/**
+ * Find a carrier by slug or alias (case-insensitive)
+ * @param name - Slug (e.g. "net_abacus") or alias (e.g. "abacus")
+ * @returns Carrier, or undefined if the name is not registered
+ */
+export function findCarrier(name: CarrierSlug): Carrier | undefined {
+  const key = name.trim().toLowerCase();
+
+  return CARRIERS.find(
+    ({ slug, aliases }) => slug === key || aliases.includes(key),
+  );
+}
+
+/**
+ * Convert a carrier to its API representation
+ * @param carrier - Carrier
+ * @returns Carrier as returned by GET /api/v1/carriers
+ */
+export function toCarrierResponse(carrier: Carrier): CarrierResponse {
+  return {
+    slug: carrier.slug,
+    display_name: carrier.displayName,
+    domains: carrier.domains,
+    aliases: carrier.aliases,
+    statement_formats: carrier.statementFormats,
+  };
+}
@@ -15,6 +15,10 @@ cloudinary.config({
 export interface UploadOptions {
   carrierName: string;
   filename: string;
+  /** File extension without the dot (e.g. 'pdf', 'xlsx') */
+  format: string;
+  /** MIME type detected from the file contents */
+  contentType: string;
   metadata?: Record<string, string>;
   overwrite?: boolean;
   uniqueFilename?: boolean;
@@ -27,14 +31,22 @@ export interface UploadOptions {
  *
  * @param carrierName - Name of the carrier (e.g., 'net_abacus')
  * @param filename - Original filename (e.g., 'statement_2024-01.pdf')
+ * @param format - File extension to strip (e.g., 'pdf')
  * @returns Public ID path for Cloudinary
  *
  * @example
- * buildPublicId('net_abacus', 'statement_2024-01.pdf')
+ * buildPublicId('net_abacus', 'statement_2024-01.pdf', 'pdf')
  * // Returns: 'supplier_statements/net_abacus/statement_2024-01'
  */
-function buildPublicId(carrierName: string, filename: string): string {
-  const filenameWithoutExt = filename.replace(/\.pdf$/i, '');
+function buildPublicId(
+  carrierName: string,
+  filename: string,
+  format: string,
+): string {
+  const extension = `.${format}`;
+  const filenameWithoutExt = filename.toLowerCase().endsWith(extension)
+    ? filename.slice(0, -extension.length)
+    : filename;
   return `supplier_statements/${carrierName}/${filenameWithoutExt}`;
 }
 
@@ -69,12 +81,12 @@ function buildUploadOptions(
 }
 
 /**
- * Upload a PDF file to Cloudinary
+ * Upload a statement file (PDF, Excel, CSV) to Cloudinary
  *
- * Uploads a PDF buffer to Cloudinary using the streaming upload API.
+ * Uploads a file buffer to Cloudinary using the streaming upload API.
  * Files are organized in the folder structure: supplier_statements/{carrier}/{filename}
  *
- * @param buffer - PDF file as Buffer
+ * @param buffer - Statement file as Buffer
  * @param options - Upload configuration
  * @returns Cloudinary attachment metadata for Rails API
  *
@@ -82,21 +94,64 @@ function buildUploadOptions(
  *
  * @example
  * const fileBuffer = await downloadPdf(url);
- * const attachment = await uploadPdf(fileBuffer, {
+ * const attachment = await uploadStatementFile(fileBuffer, {
  *   carrierName: 'net_abacus',
  *   filename: 'statement_2024-01.pdf',
+ *   format: 'pdf',
+ *   contentType: 'application/pdf',
  *   metadata: { statement_date: '2024-01-01' },
  *   overwrite: true
  * });
  */
-export async function uploadPdf(
+export async function uploadStatementFile(
   buffer: Buffer,
   options: UploadOptions,
 ): Promise<CloudinaryAttachment> {
-  const { carrierName, filename } = options;
-  const publicId = buildPublicId(carrierName, filename);
+  const { carrierName, filename, format } = options;
+  const publicId = buildPublicId(carrierName, filename, format);
   const uploadOptions = buildUploadOptions(publicId, options);
 
+  return mapToAttachment(await uploadBuffer(buffer, uploadOptions), options);
+}
+
+/**
+ * Upload a failure artifact (screenshot, DOM snapshot, console log, HAR)
+ * Files are organized in the folder structure:
+ * failure_artifacts/{carrier}/{job_id}/{filename}
+ *
+ * @param buffer - Artifact contents
+ * @param options - Carrier, job and filename
+ * @returns URL of the uploaded file
+ *
+ * @throws {Error} If upload fails or returns no result
+ */
+export async function uploadArtifactFile(
+  buffer: Buffer,
+  options: { carrierName: string; jobId: string; filename: string },
+): Promise<string> {
+  const { carrierName, jobId, filename } = options;
+  const result = await uploadBuffer(buffer, {
+    resource_type: 'raw',
+    public_id: `failure_artifacts/${carrierName}/${jobId}/${filename}`,
+    overwrite: true,
+    tags: ['failure_artifact', carrierName],
+  });
+  return result.secure_url || result.url;
+}
+
+/**
+ * Upload a buffer with the streaming upload API
+ *
+ * @param buffer - File contents
+ * @param uploadOptions - Cloudinary API upload options
+ * @returns Cloudinary upload API response
+ *
+ * @throws {Error} If upload fails or returns no result
+ */
+function uploadBuffer(
+  buffer: Buffer,
+  uploadOptions: UploadApiOptions,
+): Promise<UploadApiResponse> {
   return new Promise((resolve, reject) => {
     const uploadStream = cloudinary.uploader.upload_stream(
       uploadOptions,
@@ -117,7 +172,7 @@ export async function uploadPdf(
           return;
         }
 
-        resolve(mapToAttachment(result, filename));
+        resolve(result);
       },
     );
 
@@ -128,20 +183,23 @@ export async function uploadPdf(
 /**
  * Map Cloudinary upload response to Rails-compatible attachment format
  *
+ * Raw uploads don't always report a format, so the detected one is used
+ *
  * @param result - Cloudinary upload API response
- * @param filename - Original filename
+ * @param options - Upload configuration (filename, format, content type)
  * @returns CloudinaryAttachment for Rails API
  */
 function mapToAttachment(
   result: UploadApiResponse,
-  filename: string,
+  options: UploadOptions,
 ): CloudinaryAttachment {
   return {
     public_id: result.public_id,
-    format: result.format,
+    format: result.format || options.format,
     url: result.secure_url || result.url,
-    title: filename,
+    title: options.filename,
     etag: result.etag,
+    content_type: options.contentType,
   };
 }
 
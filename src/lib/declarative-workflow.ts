@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import type { Page, Stagehand } from '@browserbasehq/stagehand';
+import { assertLoginSucceeded } from './login-classifier.js';
+import { fillSecureInput } from './secure-input.js';
+import { isLoggedIn } from './session-state.js';
+import { failedResult } from './workflow-error.js';
+import { untracedWorkflow, type WorkflowTracer } from './step-tracer.js';
+import { logger, type Logger } from './logger.js';
+import {
+  captureFormPost,
+  captureNewTab,
+  captureRoute,
+  type CapturedFile,
+} from './capture.js';
+import {
+  getAccountingPeriod,
+  getMonthStart,
+  getPeriodEnd,
+  isWithinPeriod,
+  parseStatementDate,
+} from './statement-date.js';
+import type { Statement, WorkflowJob, WorkflowResult } from '../types/index.js';
+
+/** One step taken after login to reach the statements table */
+export type NavigationStep =
+  /** Natural-language action passed to page.act() */
+  | { act: string }
+  /** Fixed pause, for pages that keep rendering after load */
+  | { waitMs: number }
+  /** Wait for an element (e.g. a loading spinner) to be removed */
+  | { waitForDetached: string; timeoutMs?: number };
+
+/**
+ * How the statement file is obtained from a row's download control
+ * (see lib/capture)
+ * - `new_tab`: the control opens the file in a new tab
+ * - `route`: requests matching `urlGlob` are intercepted and their body kept
+ * - `form_post`: the control's enclosing form is replayed as a POST request
+ */
+export type CaptureDefinition =
+  | { strategy: 'new_tab'; urlIncludes?: string; timeoutMs?: number }
+  | { strategy: 'route'; urlGlob: string; timeoutMs?: number }
+  | { strategy: 'form_post' };
+
+/**
+ * Carrier definition interpreted by createDeclarativeWorkflow
+ *
+ * Instructions may reference row columns as `{column}` and the statement's
+ * ISO date as `{date}`, e.g. `"Find the download button in the row with
+ * {month} {year}"`.
+ */
+export interface DeclarativeWorkflowDefinition {
+  login: {
+    /** Description of the username input, e.g. "User ID input" */
+    usernameField: string;
+    /** Description of the password input */
+    passwordField: string;
+    /** Description of the control that submits the form */
+    submitButton: string;
+    /** Pause after submitting, before checking the result */
+    waitMs?: number;
+  };
+  /** Steps from the post-login page to the statements table */
+  navigation: NavigationStep[];
+  table: {
+    /** extract() instruction describing the statement rows */
+    instruction: string;
+    /** Columns to extract; joined with spaces they must form the row's date */
+    dateColumns: string[];
+    /**
+     * Rows are monthly statements (e.g. "March 2024"), dated the 1st: a row
+     * matches when its month overlaps the requested period
+     */
+    monthly?: boolean;
+  };
+  /**
+   * Rows to download
+   * - `in_period` (default): every row dated within the requested period
+   * - `latest`: the most recent row dated within the requested period
+   */
+  select?: 'in_period' | 'latest';
+  download: {
+    /** observe() instruction locating the row's download control */
+    control: string;
+    capture: CaptureDefinition;
+    /** Filename template for captured files */
+    filename: string;
+  };
+}
+
+interface StatementRow {
+  columns: Record<string, string>;
+  statementDate: string;
+}
+
+/**
+ * Fill `{placeholder}` references from a row
+ * @param template - Instruction or filename template
+ * @param row - Table row
+ * @returns Template with placeholders replaced
+ * @throws Error if the template references an unknown placeholder
+ */
+function fillTemplate(template: string, row: StatementRow): string {
+  const values: Record<string, string> = {
+    ...row.columns,
+    date: row.statementDate,
+  };
+
+  return template.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    if (!(name in values)) {
+      throw new Error(`Unknown placeholder {${name}} in "${template}"`);
+    }
+    return values[name];
+  });
+}
+
+/**
+ * Parse extracted rows into dated rows, skipping rows without a date
+ * (e.g. section headers)
+ */
+function toStatementRows(
+  rows: Record<string, string>[],
+  dateColumns: string[],
+): StatementRow[] {
+  return rows.flatMap((columns) => {
+    try {
+      const label = dateColumns.map((column) => columns[column]).join(' ');
+      return [{ columns, statementDate: parseStatementDate(label) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Pick the rows to download for a job
+ * A monthly row whose month contains the period start is dated by the start
+ * instead, so statement processing does not filter it out as too early
+ * @param rows - Dated table rows
+ * @param definition - Carrier definition
+ * @param job - Workflow job
+ * @returns Rows to download, oldest first; none when nothing was issued for
+ * the period
+ */
+function selectRows(
+  rows: StatementRow[],
+  definition: DeclarativeWorkflowDefinition,
+  job: WorkflowJob,
+): StatementRow[] {
+  const period = getAccountingPeriod(job);
+  const end = getPeriodEnd(period);
+  const targetPeriod = {
+    start: definition.table.monthly
+      ? getMonthStart(period.start)
+      : period.start,
+    end,
+  };
+
+  const matching = rows
+    .filter((row) => isWithinPeriod(row.statementDate, targetPeriod))
+    .sort((a, b) => a.statementDate.localeCompare(b.statementDate))
+    .map((row) =>
+      row.statementDate < period.start
+        ? { ...row, statementDate: period.start }
+        : row,
+    );
+
+  return definition.select === 'latest' ? matching.slice(-1) : matching;
+}
+
+async function runNavigationStep(
+  page: Page,
+  step: NavigationStep,
+): Promise<void> {
+  if ('act' in step) {
+    await page.act(step.act);
+  } else if ('waitMs' in step) {
+    await page.waitForTimeout(step.waitMs);
+  } else {
+    await page.waitForSelector(step.waitForDetached, {
+      state: 'detached',
+      timeout: step.timeoutMs,
+    });
+  }
+}
+
+/**
+ * Download the statement for one table row
+ * @returns Statement with the captured file
+ */
+async function downloadRow(
+  page: Page,
+  row: StatementRow,
+  definition: DeclarativeWorkflowDefinition,
+): Promise<Statement> {
+  const { control, capture, filename } = definition.download;
+  const instruction = fillTemplate(control, row);
+
+  const controls = await page.observe(instruction);
+  if (!controls || controls.length === 0) {
+    throw new Error(`Could not find download control: ${instruction}`);
+  }
+  const locator = page.locator(controls[0].selector);
+  const click = () => locator.click();
+
+  let file: CapturedFile;
+  switch (capture.strategy) {
+    case 'new_tab':
+      file = await captureNewTab(page, click, capture);
+      break;
+    case 'route':
+      file = await captureRoute(page, capture.urlGlob, click, capture);
+      break;
+    case 'form_post':
+      file = await captureFormPost(page, controls[0].selector);
+      break;
+  }
+
+  return {
+    fileBuffer: file.buffer,
+    filename: fillTemplate(filename, row),
+    statementDate: row.statementDate,
+  };
+}
+
+/**
+ * Create a runWorkflow function from a declarative carrier definition
+ *
+ * The runner logs in (unless a restored session is still valid), checks the
+ * login result, follows the navigation steps,
+ * extracts the statement table and downloads the rows dated within the job's
+ * accounting period, checking the job deadline between rows. Each phase is
+ * a traced step (login, navigate, extract, download). Export the result as
+ * `runWorkflow` from `src/workflows/{carrier_slug}.ts`.
+ *
+ * @param definition - Carrier definition
+ * @returns Workflow function
+ */
+export function createDeclarativeWorkflow(
+  definition: DeclarativeWorkflowDefinition,
+): (
+  stagehand: Stagehand,
+  job: WorkflowJob,
+  signal?: AbortSignal,
+  tracer?: WorkflowTracer,
+  log?: Logger,
+) => Promise<WorkflowResult> {
+  return async (
+    stagehand,
+    job,
+    signal,
+    tracer = untracedWorkflow,
+    log = logger,
+  ) => {
+    const { username, password, login_url: loginUrl } = job.credential;
+    const { login, navigation, table } = definition;
+    const page = stagehand.page;
+
+    try {
+      await tracer.step('login', async () => {
+        await page.goto(loginUrl);
+        if (!(await isLoggedIn(page, job))) {
+          await fillSecureInput(page, login.usernameField, username);
+          await fillSecureInput(page, login.passwordField, password);
+          await page.act(`click the ${login.submitButton}`);
+          if (login.waitMs) {
+            await page.waitForTimeout(login.waitMs);
+          }
+          await assertLoginSucceeded(page, job);
+        }
+      });
+
+      await tracer.step('navigate', async () => {
+        for (const step of navigation) {
+          await runNavigationStep(page, step);
+        }
+      });
+
+      const extracted = await tracer.step('extract', () =>
+        page.extract({
+          instruction: table.instruction,
+          schema: z.object({
+            rows: z.array(
+              z.object(
+                Object.fromEntries(
+                  table.dateColumns.map((column) => [column, z.string()]),
+                ),
+              ),
+            ),
+          }),
+        }),
+      );
+
+      const available = toStatementRows(
+        extracted.rows ?? [],
+        table.dateColumns,
+      );
+      const rows = selectRows(available, definition, job);
+      if (rows.length === 0) {
+        log.info('No statement within the accounting period', {
+          available: available.map(({ statementDate }) => statementDate),
+        });
+      }
+
+      const statements: Statement[] = [];
+      for (const row of rows) {
+        signal?.throwIfAborted();
+        const statement = await tracer.step(
+          'download',
+          () => downloadRow(page, row, definition),
+          { statement_date: row.statementDate },
+        );
+        log.info('Captured statement file', {
+          statement_date: statement.statementDate,
+          bytes: statement.fileBuffer?.length,
+        });
+        statements.push(statement);
+      }
+
+      return { success: true, statements };
+    } catch (error: unknown) {
+      return failedResult(error);
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+
+/**
+ * JSON value encrypted with AES-256-GCM under a key derived from a
+ * passphrase (scrypt, per-value salt); all fields are base64
+ */
+export interface EncryptedJson {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, 32);
+}
+
+/**
+ * Encrypt a JSON-serializable value
+ * @param value - Value to encrypt
+ * @param secret - Passphrase
+ * @returns Encrypted value, safe to write to disk
+ */
+export function encryptJson(value: unknown, secret: string): EncryptedJson {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(secret, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(value), 'utf-8'),
+    cipher.final(),
+  ]);
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a value encrypted with encryptJson
+ * @param encrypted - Encrypted value
+ * @param secret - Passphrase it was encrypted with
+ * @returns Decrypted value
+ * @throws Error if the passphrase is wrong or the value was tampered with
+ */
+export function decryptJson<T>(encrypted: EncryptedJson, secret: string): T {
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(secret, Buffer.from(encrypted.salt, 'base64')),
+    Buffer.from(encrypted.iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(encrypted.data, 'base64')),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString('utf-8')) as T;
+}
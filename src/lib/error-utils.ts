@@ -1,6 +1,11 @@
+import { redact } from './redaction.js';
+
+/**
+ * Get the message of a caught error
+ * Registered secrets (see registerSecrets) are redacted
+ * @param error - Caught error
+ * @returns Error message
+ */
 export function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return String(error);
+  return redact(error instanceof Error ? error.message : String(error));
 }
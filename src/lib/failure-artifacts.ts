@@ -0,0 +1,387 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  ActOptions,
+  ActResult,
+  ObserveResult,
+  Page,
+  Stagehand,
+} from '@browserbasehq/stagehand';
+import type { ConsoleMessage, Request } from 'playwright';
+import { uploadArtifactFile } from './cloudinary-service.js';
+import { getErrorMessage } from './error-utils.js';
+import { logger, type Logger } from './logger.js';
+import { redact } from './redaction.js';
+import { override } from './stagehand-actions.js';
+import type {
+  AppConfig,
+  ArtifactKind,
+  CarrierSlug,
+  FailureArtifact,
+} from '../types/index.js';
+
+/** Network requests kept for the HAR; older ones are dropped */
+const MAX_HAR_ENTRIES = 500;
+/** Console messages kept; older ones are dropped */
+const MAX_CONSOLE_LINES = 1000;
+/** Headers that carry credentials or session tokens */
+const SENSITIVE_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+  'set-cookie',
+]);
+
+/** A captured file, before it is stored */
+export interface ArtifactFile {
+  kind: ArtifactKind;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ArtifactRecorder {
+  /** Wrap a Stagehand instance to screenshot the page after each step */
+  wrap: (stagehand: Stagehand) => Stagehand;
+  /**
+   * Capture the page as it is now: screenshot, DOM, console log and HAR,
+   * after any step screenshots. Parts that cannot be captured are skipped.
+   */
+  capture: () => Promise<ArtifactFile[]>;
+}
+
+export interface ArtifactStore {
+  /** Store a job's file and return its URL */
+  save: (
+    carrierSlug: CarrierSlug,
+    jobId: string,
+    file: ArtifactFile,
+  ) => Promise<string>;
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: never[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: never[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _failureText?: string;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers)
+    .filter(([name]) => !SENSITIVE_HEADERS.has(name.toLowerCase()))
+    .map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Build a HAR entry for a finished or failed request
+ * Bodies are left out: login requests carry the credentials
+ * @param request - Playwright request
+ * @returns HAR 1.2 entry
+ */
+async function toHarEntry(request: Request): Promise<HarEntry> {
+  const timing = request.timing();
+  const response = await request.response();
+  const url = new URL(request.url());
+  const headers = response ? await response.allHeaders() : {};
+
+  return {
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time: Math.max(timing.responseEnd, 0),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(await request.allHeaders()),
+      queryString: [...url.searchParams].map(([name, value]) => ({
+        name,
+        value,
+      })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: -1,
+    },
+    response: {
+      status: response?.status() ?? 0,
+      statusText: response?.statusText() ?? '',
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(headers),
+      cookies: [],
+      content: { size: -1, mimeType: headers['content-type'] ?? '' },
+      redirectURL: headers.location ?? '',
+      headersSize: -1,
+      bodySize: -1,
+      ...(request.failure() && { _failureText: request.failure()?.errorText }),
+    },
+    cache: {},
+    timings: {
+      send: 0,
+      wait: Math.max(timing.responseStart - timing.requestStart, 0),
+      receive: Math.max(timing.responseEnd - timing.responseStart, 0),
+    },
+  };
+}
+
+function textFile(
+  kind: ArtifactKind,
+  filename: string,
+  contentType: string,
+  text: string,
+): ArtifactFile {
+  // Registered credentials must not leave the process in artifacts either
+  return {
+    kind,
+    filename,
+    contentType,
+    content: Buffer.from(redact(text)),
+  };
+}
+
+/**
+ * Record what a workflow's page does, for evidence when it fails
+ * Console messages and network requests are collected from the moment the
+ * recorder is created, so create it before the workflow runs
+ * @param page - Stagehand page
+ * @param options - everyStep: screenshot the page after each act and goto;
+ *   log: logger for parts that cannot be captured
+ * @returns Artifact recorder
+ */
+export function createArtifactRecorder(
+  page: Page,
+  options: { everyStep: boolean; log?: Logger },
+): ArtifactRecorder {
+  const log = options.log ?? logger;
+  const consoleLines: string[] = [];
+  const harEntries: HarEntry[] = [];
+  const stepScreenshots: ArtifactFile[] = [];
+
+  const pushLimited = <T>(items: T[], item: T, limit: number) => {
+    items.push(item);
+    if (items.length > limit) {
+      items.shift();
+    }
+  };
+
+  page.on('console', (message: ConsoleMessage) => {
+    pushLimited(
+      consoleLines,
+      `${new Date().toISOString()} [${message.type()}] ${message.text()}`,
+      MAX_CONSOLE_LINES,
+    );
+  });
+  page.on('pageerror', (error: Error) => {
+    pushLimited(
+      consoleLines,
+      `${new Date().toISOString()} [pageerror] ${error.stack ?? error.message}`,
+      MAX_CONSOLE_LINES,
+    );
+  });
+
+  const recordRequest = (request: Request) => {
+    toHarEntry(request)
+      .then((entry) => pushLimited(harEntries, entry, MAX_HAR_ENTRIES))
+      .catch(() => undefined);
+  };
+  page.context().on('requestfinished', recordRequest);
+  page.context().on('requestfailed', recordRequest);
+
+  const screenshot = async (filename: string): Promise<ArtifactFile> => ({
+    kind: 'screenshot',
+    filename,
+    contentType: 'image/png',
+    content: await page.screenshot({ fullPage: true }),
+  });
+
+  const afterStep = async (method: string): Promise<void> => {
+    const step = String(stepScreenshots.length + 1).padStart(3, '0');
+    try {
+      stepScreenshots.push(await screenshot(`step-${step}-${method}.png`));
+    } catch (error: unknown) {
+      log.warn('Failed to take step screenshot', {
+        error: getErrorMessage(error),
+      });
+    }
+  };
+
+  const wrapPage = (target: Page): Page => {
+    const act = async (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> => {
+      const result = await target.act(actionOrOptions as ActOptions);
+      await afterStep('act');
+      return result;
+    };
+
+    const goto: Page['goto'] = async (url, gotoOptions) => {
+      const response = await target.goto(url, gotoOptions);
+      await afterStep('goto');
+      return response;
+    };
+
+    return override(target, { act, goto });
+  };
+
+  const capture = async (): Promise<ArtifactFile[]> => {
+    const files: ArtifactFile[] = [...stepScreenshots];
+    const attempt = async (
+      captureFile: () => ArtifactFile | Promise<ArtifactFile>,
+    ) => {
+      try {
+        files.push(await captureFile());
+      } catch (error: unknown) {
+        log.warn('Failed to capture failure artifact', {
+          error: getErrorMessage(error),
+        });
+      }
+    };
+
+    await attempt(() => screenshot('failure.png'));
+    await attempt(async () =>
+      textFile('dom', 'failure.html', 'text/html', await page.content()),
+    );
+    await attempt(() =>
+      textFile('console', 'console.log', 'text/plain', consoleLines.join('\n')),
+    );
+    await attempt(() =>
+      textFile(
+        'har',
+        'network.har',
+        'application/json',
+        JSON.stringify(
+          {
+            log: {
+              version: '1.2',
+              creator: { name: 'carrier-logins', version: '1.0.0' },
+              pages: [],
+              entries: harEntries,
+            },
+          },
+          null,
+          2,
+        ),
+      ),
+    );
+    return files;
+  };
+
+  return {
+    wrap: (stagehand) => {
+      if (!options.everyStep) {
+        return stagehand;
+      }
+      const wrappedPage = wrapPage(stagehand.page);
+      return override(stagehand, { page: wrappedPage });
+    },
+    capture,
+  };
+}
+
+/**
+ * Create a store writing artifacts to {dir}/{job_id}/{filename}
+ * The job_id comes from the request, so it is URI-encoded (as in job-store)
+ * and must resolve to a directory directly inside dir
+ * @param dir - Artifacts directory
+ * @returns Artifact store returning file:// URLs
+ */
+export function createLocalArtifactStore(dir: string): ArtifactStore {
+  const root = path.resolve(dir);
+  return {
+    save: async (_carrierSlug, jobId, file) => {
+      const jobDir = path.resolve(root, encodeURIComponent(jobId));
+      if (path.dirname(jobDir) !== root) {
+        throw new Error(`Invalid job_id for artifacts directory: ${jobId}`);
+      }
+      await fs.mkdir(jobDir, { recursive: true });
+      const filePath = path.join(jobDir, file.filename);
+      await fs.writeFile(filePath, file.content);
+      return pathToFileURL(filePath).href;
+    },
+  };
+}
+
+/**
+ * Create the configured artifact store
+ * @param settings - Artifacts config
+ * @returns Artifact store, or undefined when capturing is off
+ */
+export function createArtifactStore(
+  settings: AppConfig['artifacts'],
+): ArtifactStore | undefined {
+  switch (settings.store) {
+    case 'off':
+      return undefined;
+    case 'local':
+      return createLocalArtifactStore(settings.dir);
+    case 'cloudinary':
+      return {
+        save: (carrierSlug, jobId, file) =>
+          uploadArtifactFile(file.content, {
+            carrierName: carrierSlug,
+            jobId,
+            filename: file.filename,
+          }),
+      };
+  }
+}
+
+/**
+ * Store captured files, skipping those that fail to save
+ * @param store - Artifact store
+ * @param carrierSlug - Carrier the job ran against
+ * @param jobId - Job ID
+ * @param files - Captured files
+ * @param log - Logger for files that fail to save
+ * @returns Stored artifacts with their URLs
+ */
+export async function saveArtifacts(
+  store: ArtifactStore,
+  carrierSlug: CarrierSlug,
+  jobId: string,
+  files: ArtifactFile[],
+  log: Logger = logger,
+): Promise<FailureArtifact[]> {
+  const artifacts: FailureArtifact[] = [];
+  for (const file of files) {
+    try {
+      artifacts.push({
+        kind: file.kind,
+        filename: file.filename,
+        content_type: file.contentType,
+        url: await store.save(carrierSlug, jobId, file),
+      });
+    } catch (error: unknown) {
+      log.warn('Failed to store failure artifact', {
+        filename: file.filename,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+  return artifacts;
+}
@@ -0,0 +1,147 @@
+export type FileKind = 'pdf' | 'xlsx' | 'xls' | 'csv' | 'html' | 'unknown';
+
+export interface FileType {
+  kind: FileKind;
+  mimeType: string;
+  extension: string;
+}
+
+/** Statement formats accepted by the upload pipeline */
+export type StatementFileType = FileType & {
+  kind: 'pdf' | 'xlsx' | 'xls' | 'csv';
+};
+
+const FILE_TYPES: Record<FileKind, FileType> = {
+  pdf: { kind: 'pdf', mimeType: 'application/pdf', extension: 'pdf' },
+  xlsx: {
+    kind: 'xlsx',
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  xls: {
+    kind: 'xls',
+    mimeType: 'application/vnd.ms-excel',
+    extension: 'xls',
+  },
+  csv: { kind: 'csv', mimeType: 'text/csv', extension: 'csv' },
+  html: { kind: 'html', mimeType: 'text/html', extension: 'html' },
+  unknown: {
+    kind: 'unknown',
+    mimeType: 'application/octet-stream',
+    extension: 'bin',
+  },
+};
+
+const PDF_MAGIC = Buffer.from('%PDF', 'ascii');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const OLE_HEADER_BYTES = 512;
+const TEXT_SAMPLE_BYTES = 4096;
+const HTML_PATTERN = /^\s*(<!doctype html|<html|<head|<body|<script)/i;
+
+/**
+ * Check whether a buffer looks like plain text (no NUL or binary control bytes)
+ * @param sample - Leading bytes of the file
+ * @returns True if the sample is text
+ */
+function isText(sample: Buffer): boolean {
+  return sample.every(
+    (byte) => byte === 0x09 || byte === 0x0a || byte === 0x0d || byte >= 0x20,
+  );
+}
+
+/**
+ * Detect a file's type from its leading (magic) bytes
+ * ZIP archives are only reported as XLSX when they contain an `xl/` part;
+ * text that is not HTML is reported as CSV when its first line has a delimiter.
+ * @param buffer - File contents
+ * @returns Detected file type ('unknown' if unrecognized)
+ */
+export function detectFileType(buffer: Buffer): FileType {
+  if (buffer.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+    return FILE_TYPES.pdf;
+  }
+
+  if (buffer.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) {
+    return buffer.includes('xl/') ? FILE_TYPES.xlsx : FILE_TYPES.unknown;
+  }
+
+  if (buffer.subarray(0, OLE_MAGIC.length).equals(OLE_MAGIC)) {
+    return FILE_TYPES.xls;
+  }
+
+  const sample = buffer.subarray(0, TEXT_SAMPLE_BYTES);
+  if (sample.length > 0 && isText(sample)) {
+    const text = sample.toString('utf8').replace(/^\uFEFF/, '');
+    if (HTML_PATTERN.test(text)) {
+      return FILE_TYPES.html;
+    }
+
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    if (/[,;\t]/.test(firstLine)) {
+      return FILE_TYPES.csv;
+    }
+  }
+
+  return FILE_TYPES.unknown;
+}
+
+/**
+ * Validate that a buffer holds a supported statement file
+ * @param buffer - File contents
+ * @returns Detected statement file type
+ * @throws Error if the buffer is empty, an HTML page or an unsupported format
+ */
+export function validateStatementFile(buffer: Buffer): StatementFileType {
+  if (!buffer || buffer.length === 0) {
+    throw new Error('File buffer is empty or null');
+  }
+
+  const fileType = detectFileType(buffer);
+
+  switch (fileType.kind) {
+    case 'xls':
+      if (buffer.length < OLE_HEADER_BYTES) {
+        throw new Error(
+          `Invalid XLS: file is truncated (${buffer.length} bytes)`,
+        );
+      }
+      return fileType as StatementFileType;
+    case 'pdf':
+    case 'xlsx':
+    case 'csv':
+      return fileType as StatementFileType;
+    case 'html':
+      throw new Error(
+        'Invalid statement file: received an HTML page (likely an error or login page)',
+      );
+    default:
+      throw new Error(
+        `Invalid statement file: unrecognized format (bytes: ${buffer.subarray(0, 4).join(' ')})`,
+      );
+  }
+}
+
+/**
+ * Ensure a filename ends with the given extension
+ * Replaces a mismatched extension (e.g. "statement.pdf" holding an XLSX file)
+ * @param filename - Original filename
+ * @param extension - Expected extension without the dot
+ * @returns Filename with the expected extension
+ */
+export function withExtension(filename: string, extension: string): string {
+  const expected = `.${extension}`;
+  if (filename.toLowerCase().endsWith(expected)) {
+    return filename;
+  }
+
+  const knownExtension = Object.values(FILE_TYPES).find(({ extension: ext }) =>
+    filename.toLowerCase().endsWith(`.${ext}`),
+  );
+  const basename = knownExtension
+    ? filename.slice(0, -(knownExtension.extension.length + 1))
+    : filename;
+
+  return `${basename}${expected}`;
+}
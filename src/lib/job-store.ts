@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FetchStatementsRequest, JobRecord } from '../types/index.js';
+
+export interface JobStore {
+  create: (request: FetchStatementsRequest) => Promise<JobRecord>;
+  get: (jobId: string) => Promise<JobRecord | null>;
+  save: (record: JobRecord) => Promise<JobRecord>;
+  list: () => Promise<JobRecord[]>;
+  remove: (jobId: string) => Promise<void>;
+}
+
+/**
+ * Writes in progress per record file
+ * Saves of one job (e.g. a progress update and the status report) may
+ * overlap; they share a temp file and must land in the order they were made
+ */
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Build the path of the file holding a job record
+ * Job IDs are URI-encoded so they can never escape the data directory
+ * @param dataDir - Directory holding job records
+ * @param jobId - Job identifier
+ * @returns Absolute path of the job's JSON file
+ */
+function recordPath(dataDir: string, jobId: string): string {
+  return path.join(dataDir, `${encodeURIComponent(jobId)}.json`);
+}
+
+/**
+ * Write a job record atomically (write to temp file, then rename), once
+ * earlier writes of the same file have settled
+ * @param filePath - Destination path
+ * @param record - Job record to persist
+ */
+function writeRecord(filePath: string, record: JobRecord): Promise<void> {
+  const write = async () => {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), {
+      mode: 0o600,
+    });
+    await fs.rename(tempPath, filePath);
+  };
+
+  const written = (pendingWrites.get(filePath) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(write);
+  pendingWrites.set(filePath, written);
+  const forget = () => {
+    if (pendingWrites.get(filePath) === written) {
+      pendingWrites.delete(filePath);
+    }
+  };
+  written.then(forget, forget);
+  return written;
+}
+
+/**
+ * Read a job record, returning null if it does not exist
+ * @param filePath - Path of the job's JSON file
+ * @returns Parsed job record or null
+ */
+async function readRecord(filePath: string): Promise<JobRecord | null> {
+  try {
+    const contents = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(contents) as JobRecord;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates a file-backed job store
+ * Each job is persisted as one JSON file in the data directory
+ * @param dataDir - Directory holding job records (created if missing)
+ * @returns Job store instance
+ */
+export function createJobStore(dataDir: string): JobStore {
+  let ready: Promise<void> | undefined;
+
+  const ensureDir = (): Promise<void> => {
+    ready ??= fs.mkdir(dataDir, { recursive: true }).then(() => undefined);
+    return ready;
+  };
+
+  const save = async (record: JobRecord): Promise<JobRecord> => {
+    await ensureDir();
+    const updated = { ...record, updated_at: new Date().toISOString() };
+    await writeRecord(recordPath(dataDir, record.job_id), updated);
+    return updated;
+  };
+
+  return {
+    create: async (request) => {
+      const now = new Date().toISOString();
+      return save({
+        job_id: request.job_id,
+        request,
+        state: 'queued',
+        attempts: 0,
+        created_at: now,
+        updated_at: now,
+      });
+    },
+
+    get: async (jobId) => {
+      await ensureDir();
+      return readRecord(recordPath(dataDir, jobId));
+    },
+
+    save,
+
+    list: async () => {
+      await ensureDir();
+      const files = await fs.readdir(dataDir);
+      const records = await Promise.all(
+        files
+          .filter((file) => file.endsWith('.json'))
+          .map((file) => readRecord(path.join(dataDir, file))),
+      );
+
+      return records
+        .filter((record): record is JobRecord => record !== null)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    remove: async (jobId) => {
+      await fs.rm(recordPath(dataDir, jobId), { force: true });
+    },
+  };
+}
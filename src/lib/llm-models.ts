@@ -0,0 +1,180 @@
+import type {
+  ActOptions,
+  ActResult,
+  ClientOptions,
+  ExtractOptions,
+  ObserveOptions,
+  ObserveResult,
+  Page,
+  Stagehand,
+} from '@browserbasehq/stagehand';
+import type { AnyZodObject } from 'zod';
+import { getErrorMessage } from './error-utils.js';
+import { logger, type Logger } from './logger.js';
+import { override } from './stagehand-actions.js';
+import type { AppConfig, CarrierSlug, LlmModel } from '../types/index.js';
+
+export interface ModelFallback {
+  /** Wrap a Stagehand instance so failed LLM calls are retried */
+  wrap: (stagehand: Stagehand) => Stagehand;
+  /** Whether the fallback model has answered a call */
+  used: () => boolean;
+}
+
+/**
+ * Get the Stagehand model name of a model
+ * @param model - Model
+ * @returns "{provider}/{model}", e.g. "google/gemini-2.0-flash-exp"
+ */
+export function getModelName(model: LlmModel): string {
+  return `${model.provider}/${model.model}`;
+}
+
+/**
+ * Get the Stagehand model settings of a model
+ * @param model - Model
+ * @returns Model name and client options (API key, base URL)
+ */
+export function getModelParams(model: LlmModel): {
+  modelName: string;
+  modelClientOptions: ClientOptions;
+} {
+  return {
+    modelName: getModelName(model),
+    modelClientOptions: {
+      ...(model.apiKey && { apiKey: model.apiKey }),
+      ...(model.baseURL && { baseURL: model.baseURL }),
+    },
+  };
+}
+
+/**
+ * Get the primary model for a carrier
+ * A carrier override switching provider does not inherit the default
+ * model's API key or base URL
+ * @param llm - LLM config
+ * @param carrierSlug - Carrier slug, if known
+ * @returns Model to run the carrier's workflow with
+ */
+export function getCarrierModel(
+  llm: AppConfig['llm'],
+  carrierSlug?: CarrierSlug,
+): LlmModel {
+  const carrierOverride = carrierSlug
+    ? llm.carrierOverrides[carrierSlug]
+    : undefined;
+  if (!carrierOverride) {
+    return llm.model;
+  }
+
+  const { provider = llm.model.provider } = carrierOverride;
+  const base =
+    provider === llm.model.provider
+      ? llm.model
+      : { provider, model: llm.model.model };
+  return { ...base, ...carrierOverride };
+}
+
+/**
+ * Retry failed act/observe/extract calls with a fallback model
+ * Calls that need no LLM (act with an observed action, extract without an
+ * instruction) are not retried
+ * @param fallback - Fallback model
+ * @param log - Logger for calls retried with the fallback model
+ * @returns Model fallback
+ */
+export function createModelFallback(
+  fallback: LlmModel,
+  log: Logger = logger,
+): ModelFallback {
+  const params = getModelParams(fallback);
+  let used = false;
+
+  const retry = async <T>(
+    method: string,
+    error: unknown,
+    call: () => Promise<T>,
+  ): Promise<T> => {
+    log.warn(`Stagehand ${method} failed, retrying with the fallback model`, {
+      model: params.modelName,
+      error: getErrorMessage(error),
+    });
+    const result = await call();
+    used = true;
+    return result;
+  };
+
+  const wrapPage = (page: Page): Page => {
+    const act = async (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> => {
+      if (
+        typeof actionOrOptions !== 'string' &&
+        'selector' in actionOrOptions
+      ) {
+        return page.act(actionOrOptions);
+      }
+      const options =
+        typeof actionOrOptions === 'string'
+          ? { action: actionOrOptions }
+          : actionOrOptions;
+
+      try {
+        return await page.act(options);
+      } catch (error: unknown) {
+        return retry('act', error, () => page.act({ ...options, ...params }));
+      }
+    };
+
+    const observe = async (
+      instructionOrOptions?: string | ObserveOptions,
+    ): Promise<ObserveResult[]> => {
+      const options =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+
+      try {
+        return await page.observe(options);
+      } catch (error: unknown) {
+        return retry('observe', error, () =>
+          page.observe({ ...options, ...params }),
+        );
+      }
+    };
+
+    const extract = async (
+      instructionOrOptions?: string | ExtractOptions<AnyZodObject>,
+    ): Promise<unknown> => {
+      if (!instructionOrOptions) {
+        return page.extract();
+      }
+      const options =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+
+      try {
+        return await page.extract(options);
+      } catch (error: unknown) {
+        return retry('extract', error, () =>
+          page.extract({ ...options, ...params }),
+        );
+      }
+    };
+
+    return override(page, {
+      act,
+      observe,
+      extract: extract as Page['extract'],
+    });
+  };
+
+  return {
+    wrap: (stagehand) => {
+      const page = wrapPage(stagehand.page);
+      return override(stagehand, { page });
+    },
+    used: () => used,
+  };
+}
@@ -0,0 +1,101 @@
+import { config } from '../config/index.js';
+import { redactSecrets } from './redaction.js';
+import type { LogLevel } from '../types/index.js';
+
+/** Verbosity of each level; lower levels are dropped first */
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/** Context of a log line, e.g. { job_id, carrier } */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  /**
+   * Create a logger adding fields to every line, e.g. the job being run
+   * @param fields - Fields to bind
+   * @returns Child logger
+   */
+  child: (fields: LogFields) => Logger;
+}
+
+export interface LoggerOptions {
+  /** Lines below this level are dropped */
+  level: LogLevel;
+  /** Fields on every line */
+  fields?: LogFields;
+}
+
+// Writing through console keeps third-party output and ours in one stream,
+// and console redaction (see installConsoleRedaction) as a second guard
+const WRITERS: Record<LogLevel, (line: string) => void> = {
+  debug: (line) => console.debug(line),
+  info: (line) => console.log(line),
+  warn: (line) => console.warn(line),
+  error: (line) => console.error(line),
+};
+
+/**
+ * Make errors JSON-friendly; JSON.stringify drops their message and stack
+ */
+function serializeField(value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(value.stack && { stack: value.stack }),
+    };
+  }
+  return value;
+}
+
+/**
+ * Create a logger writing one JSON object per line:
+ * { time, level, message, ...bound fields, ...line fields }
+ * Registered secrets (see lib/redaction) are replaced in every string
+ * @param options - Level and bound fields
+ * @returns Logger
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const { level, fields = {} } = options;
+
+  const write = (
+    lineLevel: LogLevel,
+    message: string,
+    lineFields: LogFields = {},
+  ) => {
+    if (LEVEL_ORDER[lineLevel] < LEVEL_ORDER[level]) {
+      return;
+    }
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level: lineLevel,
+      message,
+    };
+    for (const [key, value] of Object.entries({ ...fields, ...lineFields })) {
+      if (value !== undefined) {
+        entry[key] = serializeField(value);
+      }
+    }
+    WRITERS[lineLevel](JSON.stringify(redactSecrets(entry)));
+  };
+
+  return {
+    debug: (message, lineFields) => write('debug', message, lineFields),
+    info: (message, lineFields) => write('info', message, lineFields),
+    warn: (message, lineFields) => write('warn', message, lineFields),
+    error: (message, lineFields) => write('error', message, lineFields),
+    child: (childFields) =>
+      createLogger({ level, fields: { ...fields, ...childFields } }),
+  };
+}
+
+/** Service-wide logger (LOG_LEVEL); bind job context with child() */
+export const logger = createLogger({ level: config.logging.level });
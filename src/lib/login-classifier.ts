@@ -0,0 +1,146 @@
+import type { Page } from '@browserbasehq/stagehand';
+import { getMfaCode } from './mfa.js';
+import { fillSecureInput } from './secure-input.js';
+import { WorkflowError } from './workflow-error.js';
+import type { FailureReason, WorkflowJob } from '../types/index.js';
+
+interface PageRule {
+  reason: FailureReason;
+  message: string;
+  patterns: RegExp[];
+  /** Only applies when the page also shows a one-time code input */
+  requiresCodeInput?: boolean;
+}
+
+const MFA_MESSAGE = 'Carrier portal requires a one-time verification code';
+
+/** Inputs of one-time code prompts */
+const CODE_INPUT_SELECTOR = [
+  'input[autocomplete="one-time-code"]',
+  'input[inputmode="numeric"]',
+  'input[name*="code" i]',
+  'input[id*="code" i]',
+  'input[placeholder*="code" i]',
+].join(', ');
+
+/**
+ * Text patterns of post-login screens that block the workflow
+ * Ordered by precedence: a password-change screen often also mentions
+ * "password", and MFA screens often mention the username
+ */
+const PAGE_RULES: PageRule[] = [
+  {
+    reason: 'password_change',
+    message: 'Carrier portal requires a password change',
+    patterns: [
+      /password (has )?expired/i,
+      /must (be )?change[ds]? (your |their )?password/i,
+      /password must be (changed|updated|reset)/i,
+      /(create|choose|set) a new password/i,
+    ],
+  },
+  {
+    reason: 'requires_mfa',
+    message: MFA_MESSAGE,
+    patterns: [
+      /verification code/i,
+      /one[- ]time (pass)?code/i,
+      /one[- ]time password/i,
+      /enter the code (we|that was) sent/i,
+    ],
+  },
+  {
+    // Also found in the account settings links of logged-in pages
+    reason: 'requires_mfa',
+    message: MFA_MESSAGE,
+    patterns: [
+      /(security|authentication|access) code/i,
+      /(two|multi)[- ](factor|step) (authentication|verification)/i,
+    ],
+    requiresCodeInput: true,
+  },
+  {
+    reason: 'invalid_credentials',
+    message: 'Carrier portal rejected the username or password',
+    patterns: [
+      /(invalid|incorrect|wrong|unrecognized) (user ?name|user ?id|e-?mail|password|credentials|login)/i,
+      /(user ?name|user ?id|password|credentials)( you entered| provided)? (is |are |was |were )?(invalid|incorrect|not recognized)/i,
+      /(login|log in|sign in|authentication) (attempt )?(failed|unsuccessful)/i,
+      /account (has been |is )?locked/i,
+    ],
+  },
+];
+
+function matchesText(rule: PageRule, text: string): boolean {
+  return rule.patterns.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Classify the visible text of a page shown after submitting a login form
+ * @param text - Visible page text
+ * @param hasCodeInput - Whether the page shows a one-time code input
+ * @returns Failure reason if the page blocks the workflow, otherwise null
+ */
+export function classifyPageText(
+  text: string,
+  hasCodeInput = false,
+): FailureReason | null {
+  return (
+    PAGE_RULES.find(
+      (rule) =>
+        matchesText(rule, text) && (!rule.requiresCodeInput || hasCodeInput),
+    )?.reason ?? null
+  );
+}
+
+/**
+ * Find the first rule the page matches, looking for a code input only when
+ * a rule's text needs one
+ */
+async function findPageRule(
+  page: Page,
+  text: string,
+): Promise<PageRule | undefined> {
+  for (const rule of PAGE_RULES) {
+    if (
+      matchesText(rule, text) &&
+      (!rule.requiresCodeInput ||
+        (await page.locator(CODE_INPUT_SELECTOR).first().isVisible()))
+    ) {
+      return rule;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check the page after login and throw if the carrier blocked access
+ * Call right after submitting the login form. Given the job, a one-time code
+ * prompt is answered with a code from getMfaCode (TOTP seed or out-of-band
+ * handler) instead of failing.
+ * @param page - Stagehand page
+ * @param job - Job being run, to answer MFA prompts
+ * @throws WorkflowError with invalid_credentials, requires_mfa or password_change
+ */
+export async function assertLoginSucceeded(
+  page: Page,
+  job?: Pick<WorkflowJob, 'job_id' | 'credential'>,
+): Promise<void> {
+  await page.waitForLoadState('domcontentloaded');
+  const text = await page.locator('body').innerText({ timeout: 5000 });
+  const rule = await findPageRule(page, text);
+
+  if (!rule) {
+    return;
+  }
+  if (rule.reason === 'requires_mfa' && job) {
+    const code = await getMfaCode(job);
+    if (code) {
+      await fillSecureInput(page, 'one-time code input', code);
+      await page.act('click the button that submits the code');
+      // A rejected code leaves the prompt up and fails as requires_mfa
+      return assertLoginSucceeded(page);
+    }
+  }
+  throw new WorkflowError(rule.reason, rule.message);
+}
@@ -0,0 +1,199 @@
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { findCarrier, findCarrierByHostname } from './carrier-registry.js';
+import type {
+  CarrierSlug,
+  FetchStatementsRequest,
+  JobRecord,
+  WorkflowResult,
+} from '../types/index.js';
+
+const PREFIX = 'carrier_logins_';
+
+/** Label of jobs whose carrier is not (yet) known or not registered */
+const UNKNOWN_CARRIER = 'unknown';
+
+export type StatementTransfer = 'download' | 'upload';
+
+/** Registry served by GET /metrics */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+export const jobsAccepted = new Counter({
+  name: `${PREFIX}jobs_accepted_total`,
+  help: 'Jobs accepted for processing',
+  labelNames: ['carrier'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobsSucceeded = new Counter({
+  name: `${PREFIX}jobs_succeeded_total`,
+  help: 'Jobs finished successfully',
+  labelNames: ['carrier'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobsFailed = new Counter({
+  name: `${PREFIX}jobs_failed_total`,
+  help: 'Jobs finished as failed',
+  labelNames: ['carrier', 'failure_reason'] as const,
+  registers: [metricsRegistry],
+});
+
+export const workflowDuration = new Histogram({
+  name: `${PREFIX}workflow_duration_seconds`,
+  help: 'Duration of job workflows, across attempts and MFA waits',
+  labelNames: ['carrier', 'outcome'] as const,
+  buckets: [5, 15, 30, 60, 120, 300, 600, 900, 1800],
+  registers: [metricsRegistry],
+});
+
+export const statementsFound = new Counter({
+  name: `${PREFIX}statements_found_total`,
+  help: 'Statements returned by successful workflows',
+  labelNames: ['carrier'] as const,
+  registers: [metricsRegistry],
+});
+
+export const statementsFilteredOut = new Counter({
+  name: `${PREFIX}statements_filtered_out_total`,
+  help: 'Statements dated outside the job accounting period',
+  labelNames: ['carrier'] as const,
+  registers: [metricsRegistry],
+});
+
+export const statementsUploaded = new Counter({
+  name: `${PREFIX}statements_uploaded_total`,
+  help: 'Statements uploaded to Cloudinary',
+  labelNames: ['carrier'] as const,
+  registers: [metricsRegistry],
+});
+
+export const statementTransferDuration = new Histogram({
+  name: `${PREFIX}statement_transfer_duration_seconds`,
+  help: 'Latency of statement downloads and Cloudinary uploads, per attempt',
+  labelNames: ['carrier', 'operation', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
+
+export const statementTransferErrors = new Counter({
+  name: `${PREFIX}statement_transfer_errors_total`,
+  help: 'Failed statement download and Cloudinary upload attempts',
+  labelNames: ['carrier', 'operation'] as const,
+  registers: [metricsRegistry],
+});
+
+export const llmCallsPerJob = new Histogram({
+  name: `${PREFIX}llm_calls_per_job`,
+  help: 'Stagehand calls of a job that reached the LLM, across attempts',
+  labelNames: ['carrier'] as const,
+  buckets: [0, 5, 10, 20, 50, 100, 200],
+  registers: [metricsRegistry],
+});
+
+export const activeBrowserSessions = new Gauge({
+  name: `${PREFIX}browser_sessions_active`,
+  help: 'Browser sessions currently open',
+  labelNames: ['carrier'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Get the carrier label of a slug
+ * Only registered carriers get their own label, so arbitrary login URLs
+ * cannot grow the number of series
+ * @param carrierSlug - Carrier slug, if known
+ * @returns Registered slug, or "unknown"
+ */
+export function getCarrierLabel(carrierSlug?: CarrierSlug): string {
+  return (carrierSlug && findCarrier(carrierSlug)?.slug) || UNKNOWN_CARRIER;
+}
+
+/**
+ * Count an accepted job
+ * The carrier is known up front only for inline credentials
+ * @param request - Accepted request
+ */
+export function recordJobAccepted(request: FetchStatementsRequest): void {
+  let carrierSlug: CarrierSlug | undefined;
+  try {
+    const loginUrl = request.credential?.login_url;
+    carrierSlug =
+      loginUrl &&
+      findCarrierByHostname(new URL(loginUrl).hostname.toLowerCase())?.slug;
+  } catch {
+    carrierSlug = undefined;
+  }
+  jobsAccepted.inc({ carrier: getCarrierLabel(carrierSlug) });
+}
+
+/**
+ * Count a finished job by carrier and, if it failed, failure_reason
+ * @param job - Job record in a terminal state
+ */
+export function recordJobFinished(job: JobRecord): void {
+  const carrier = getCarrierLabel(job.carrier_slug);
+  if (job.state === 'succeeded') {
+    jobsSucceeded.inc({ carrier });
+  } else {
+    jobsFailed.inc({
+      carrier,
+      failure_reason: job.status_update?.failure_reason ?? 'unknown',
+    });
+  }
+}
+
+/**
+ * Time a job's workflow, across attempts, and record its LLM calls
+ * @param carrierSlug - Identified carrier
+ * @param run - Workflow run
+ * @returns Its result
+ */
+export async function timeWorkflow(
+  carrierSlug: CarrierSlug,
+  run: () => Promise<WorkflowResult>,
+): Promise<WorkflowResult> {
+  const carrier = getCarrierLabel(carrierSlug);
+  const end = workflowDuration.startTimer({ carrier });
+  let result: WorkflowResult | undefined;
+  try {
+    result = await run();
+    return result;
+  } finally {
+    end({ outcome: result?.success ? 'succeeded' : 'failed' });
+    llmCallsPerJob.observe({ carrier }, result?.llmCalls ?? 0);
+  }
+}
+
+/**
+ * Time one statement download or upload attempt, counting it as an error
+ * when it throws
+ * @param carrierSlug - Carrier of the statement
+ * @param operation - download or upload
+ * @param transfer - The attempt
+ * @returns Its result
+ */
+export async function timeStatementTransfer<T>(
+  carrierSlug: CarrierSlug,
+  operation: StatementTransfer,
+  transfer: () => Promise<T>,
+): Promise<T> {
+  const carrier = getCarrierLabel(carrierSlug);
+  const end = statementTransferDuration.startTimer({ carrier, operation });
+  try {
+    const result = await transfer();
+    end({ outcome: 'success' });
+    return result;
+  } catch (error: unknown) {
+    end({ outcome: 'error' });
+    statementTransferErrors.inc({ carrier, operation });
+    throw error;
+  }
+}
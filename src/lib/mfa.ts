@@ -0,0 +1,110 @@
+import { getAbortError } from './timeout.js';
+import { generateTotp } from './totp.js';
+import { WorkflowError } from './workflow-error.js';
+import type { WorkflowJob } from '../types/index.js';
+
+/** Obtains a one-time code for a job whose portal asked for one */
+export type MfaCodeHandler = () => Promise<string>;
+
+const handlers = new Map<string, MfaCodeHandler>();
+const waiting = new Map<string, (code: string) => void>();
+
+/**
+ * Register how a job obtains codes it cannot generate itself (SMS, email)
+ * @param jobId - Job ID
+ * @param handler - Resolves with the code, e.g. once a user submits it
+ * @returns Function that unregisters the handler
+ */
+export function registerMfaHandler(
+  jobId: string,
+  handler: MfaCodeHandler,
+): () => void {
+  handlers.set(jobId, handler);
+  return () => {
+    if (handlers.get(jobId) === handler) {
+      handlers.delete(jobId);
+    }
+  };
+}
+
+/**
+ * Get a one-time code for a job's login
+ * Generated from the credential's TOTP seed when there is one, otherwise
+ * obtained through the job's MFA handler
+ * @param job - Job being run
+ * @returns Code, or null if the job has no way to obtain one
+ */
+export async function getMfaCode(
+  job: Pick<WorkflowJob, 'job_id' | 'credential'>,
+): Promise<string | null> {
+  if (job.credential.totp_secret) {
+    return generateTotp(job.credential.totp_secret);
+  }
+  const handler = handlers.get(job.job_id);
+  return handler ? handler() : null;
+}
+
+/**
+ * Wait for a code submitted with submitMfaCode
+ * @param jobId - Job ID
+ * @param timeoutMs - How long to wait
+ * @param signal - Stops waiting when aborted, e.g. by the job deadline
+ * @returns Submitted code
+ * @throws WorkflowError (requires_mfa) if no code arrives in time, or the
+ *   signal's reason once it aborts
+ */
+export function waitForMfaCode(
+  jobId: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const stop = (error: Error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      waiting.delete(jobId);
+      reject(error);
+    };
+    const onAbort = () => {
+      if (signal) {
+        stop(getAbortError(signal));
+      }
+    };
+
+    const timer = setTimeout(() => {
+      stop(
+        new WorkflowError(
+          'requires_mfa',
+          `No one-time code received within ${Math.round(timeoutMs / 1000)}s`,
+        ),
+      );
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    waiting.set(jobId, (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      waiting.delete(jobId);
+      resolve(code);
+    });
+
+    if (signal?.aborted) {
+      onAbort();
+    }
+  });
+}
+
+/**
+ * Deliver a one-time code to a job waiting in waitForMfaCode
+ * @param jobId - Job ID
+ * @param code - Code the user received
+ * @returns Whether the job was waiting for a code
+ */
+export function submitMfaCode(jobId: string, code: string): boolean {
+  const deliver = waiting.get(jobId);
+  if (!deliver) {
+    return false;
+  }
+  deliver(code);
+  return true;
+}
@@ -31,9 +31,10 @@ export async function downloadPdf(url: string): Promise<Buffer> {
 
 /**
  * Extract filename from URL or generate one
- * @param url PDF URL
+ * The extension is left as-is; callers set it from the detected file type
+ * @param url File URL
  * @param fallbackName Fallback filename if URL doesn't contain one
- * @returns Filename with .pdf extension
+ * @returns Filename from the URL path
  */
 export function extractFilename(
   url: string,
@@ -42,15 +43,8 @@ export function extractFilename(
   try {
     const urlObj = new URL(url);
     const pathname = urlObj.pathname;
-    const filename = pathname.split('/').pop() || fallbackName;
-
-    // Ensure .pdf extension
-    if (!filename.toLowerCase().endsWith('.pdf')) {
-      return `${filename}.pdf`;
-    }
-
-    return filename;
+    return decodeURIComponent(pathname.split('/').pop() || '') || fallbackName;
   } catch {
-    return `${fallbackName}.pdf`;
+    return fallbackName;
   }
 }
@@ -0,0 +1,129 @@
+import { formatWithOptions } from 'util';
+
+/** Replacement for redacted values */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Values shorter than this are not redacted: replacing them would mangle
+ * unrelated text, and portals do not accept such short passwords
+ */
+const MIN_SECRET_LENGTH = 4;
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+// Count per value, so a secret shared by two running jobs stays registered
+// until both finish
+const secrets = new Map<string, number>();
+
+/**
+ * Register values (e.g. carrier credentials) to scrub from logs, errors and
+ * Sentry events
+ * @param values - Secret values
+ * @returns Function that unregisters the values
+ */
+export function registerSecrets(values: (string | undefined)[]): () => void {
+  const registered = values.filter(
+    (value): value is string =>
+      value !== undefined && value.length >= MIN_SECRET_LENGTH,
+  );
+  for (const value of registered) {
+    secrets.set(value, (secrets.get(value) ?? 0) + 1);
+  }
+
+  let unregistered = false;
+  return () => {
+    if (unregistered) {
+      return;
+    }
+    unregistered = true;
+    for (const value of registered) {
+      const count = (secrets.get(value) ?? 1) - 1;
+      if (count > 0) {
+        secrets.set(value, count);
+      } else {
+        secrets.delete(value);
+      }
+    }
+  };
+}
+
+/**
+ * Replace registered secrets in a string
+ * @param text - Text that may contain secrets
+ * @returns Text with every secret replaced by REDACTED
+ */
+export function redact(text: string): string {
+  let result = text;
+  // Longest first, so a secret containing another is replaced whole
+  const values = [...secrets.keys()].sort((a, b) => b.length - a.length);
+  for (const value of values) {
+    result = result.split(value).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Replace registered secrets in the strings of a JSON-like value
+ * Arrays and plain objects are copied; other objects are returned as is
+ * @param value - Value to scrub (e.g. a Sentry event)
+ * @returns Scrubbed copy
+ */
+export function redactSecrets<T>(value: T): T {
+  const seen = new WeakMap<object, unknown>();
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === 'string') {
+      return redact(current);
+    }
+    if (typeof current !== 'object' || current === null) {
+      return current;
+    }
+    if (seen.has(current)) {
+      return seen.get(current);
+    }
+
+    if (Array.isArray(current)) {
+      const copy: unknown[] = [];
+      seen.set(current, copy);
+      copy.push(...current.map(visit));
+      return copy;
+    }
+    const prototype = Object.getPrototypeOf(current) as unknown;
+    if (prototype !== Object.prototype && prototype !== null) {
+      return current;
+    }
+    const copy: Record<string, unknown> = {};
+    seen.set(current, copy);
+    for (const [key, entry] of Object.entries(current)) {
+      copy[key] = visit(entry);
+    }
+    return copy;
+  };
+
+  return visit(value) as T;
+}
+
+/**
+ * Scrub registered secrets from everything written through console methods
+ * Arguments are formatted the way console would format them, then redacted
+ * @param target - Console to patch (defaults to the global console)
+ * @returns Function restoring the original methods
+ */
+export function installConsoleRedaction(target: Console = console): () => void {
+  const originals = CONSOLE_METHODS.map((method) => [
+    method,
+    target[method],
+  ]) as [(typeof CONSOLE_METHODS)[number], Console['log']][];
+
+  for (const [method, original] of originals) {
+    target[method] = (...args: unknown[]) => {
+      original.call(target, redact(formatWithOptions({}, ...args)));
+    };
+  }
+
+  return () => {
+    for (const [method, original] of originals) {
+      target[method] = original;
+    }
+  };
+}
@@ -0,0 +1,184 @@
+import type {
+  ActOptions,
+  ActResult,
+  ExtractOptions,
+  ObserveOptions,
+  ObserveResult,
+  Page,
+  Stagehand,
+} from '@browserbasehq/stagehand';
+import type { AnyZodObject } from 'zod';
+import { getErrorMessage } from './error-utils.js';
+import { logger, type Logger } from './logger.js';
+import { override } from './stagehand-actions.js';
+import { raceAbort } from './timeout.js';
+import { WorkflowError } from './workflow-error.js';
+import type { RetryPolicy } from '../types/index.js';
+
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * goto errors of navigations cut short on purpose, e.g. by a link that
+ * downloads a file; retrying only repeats the download
+ */
+const ABORTED_NAVIGATION = /net::ERR_ABORTED|Download is starting/;
+
+export interface RetryOptions {
+  /** Whether a failed attempt may be retried (default: every error) */
+  isRetryable?: (error: unknown) => boolean;
+  /** Called before each retry */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** Deadline; attempts and waits between them are given up on once it aborts */
+  signal?: AbortSignal;
+}
+
+export interface StepRetry {
+  /** Wrap a Stagehand instance so failed page calls are retried */
+  wrap: (stagehand: Stagehand) => Stagehand;
+  /** Number of page calls retried so far */
+  retries: () => number;
+}
+
+/**
+ * Calculate the delay before a retry
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that failed, from 1
+ * @returns Exponential backoff delay, capped at five minutes
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation, retrying failures with exponential backoff
+ * @param operation - Operation; receives the attempt number, from 1
+ * @param policy - Attempts (including the first) and base delay
+ * @param options - Retryable errors, retry callback and deadline
+ * @returns Result of the first successful attempt
+ * @throws The last error once attempts run out or it is not retryable, or
+ * the signal's reason once it aborts
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {},
+): Promise<T> {
+  const { isRetryable = () => true, onRetry, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await raceAbort(operation(attempt), signal);
+    } catch (error: unknown) {
+      if (
+        signal?.aborted ||
+        attempt >= policy.attempts ||
+        !isRetryable(error)
+      ) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(policy, attempt);
+      onRetry?.(error, attempt, delayMs);
+      await raceAbort(sleep(delayMs), signal);
+    }
+  }
+}
+
+/**
+ * Retry failed act/observe/extract/goto calls of a workflow
+ * act results reporting failure are retried like errors; after the last
+ * attempt the failed result is returned as Stagehand would. WorkflowErrors
+ * and aborted navigations are never retried.
+ * @param policy - Attempts per call and base delay
+ * @param log - Logger for retried calls
+ * @returns Step retry
+ */
+export function createStepRetry(
+  policy: RetryPolicy,
+  log: Logger = logger,
+): StepRetry {
+  let retries = 0;
+
+  const retry = <T>(method: string, call: () => Promise<T>): Promise<T> =>
+    withRetry(call, policy, {
+      isRetryable: (error) =>
+        !(error instanceof WorkflowError) &&
+        !(method === 'goto' && ABORTED_NAVIGATION.test(getErrorMessage(error))),
+      onRetry: (error, attempt, delayMs) => {
+        retries++;
+        log.warn(`Stagehand ${method} failed, retrying`, {
+          attempt,
+          max_attempts: policy.attempts,
+          delay_ms: delayMs,
+          error: getErrorMessage(error),
+        });
+      },
+    });
+
+  const wrapPage = (page: Page): Page => {
+    const act = async (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> => {
+      let result: ActResult | undefined;
+      try {
+        return await retry('act', async () => {
+          result = await page.act(actionOrOptions as ActOptions);
+          if (!result.success) {
+            throw new Error(result.message);
+          }
+          return result;
+        });
+      } catch (error: unknown) {
+        if (result && !result.success) {
+          return result;
+        }
+        throw error;
+      }
+    };
+
+    const observe = (
+      instructionOrOptions?: string | ObserveOptions,
+    ): Promise<ObserveResult[]> => {
+      const options =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      return retry('observe', () => page.observe(options));
+    };
+
+    const extract = (
+      instructionOrOptions?: string | ExtractOptions<AnyZodObject>,
+    ): Promise<unknown> => {
+      if (!instructionOrOptions) {
+        return retry('extract', () => page.extract());
+      }
+      const options =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      return retry('extract', () => page.extract(options));
+    };
+
+    const goto: Page['goto'] = (url, options) =>
+      retry('goto', () => page.goto(url, options));
+
+    return override(page, {
+      act,
+      observe,
+      extract: extract as Page['extract'],
+      goto,
+    });
+  };
+
+  return {
+    wrap: (stagehand) => {
+      const page = wrapPage(stagehand.page);
+      return override(stagehand, { page });
+    },
+    retries: () => retries,
+  };
+}
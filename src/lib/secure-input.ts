@@ -0,0 +1,23 @@
+import type { Page } from '@browserbasehq/stagehand';
+
+/**
+ * Fill a credential into a form field without sending it to the LLM
+ * The field is located with observe(), which only sees its description, and
+ * filled through Playwright, so the value never appears in a prompt, a
+ * Stagehand log line, a recording or the selector cache
+ * @param page - Stagehand page
+ * @param field - Description of the field, e.g. "Password input"
+ * @param value - Value to fill
+ * @throws Error if the field cannot be found
+ */
+export async function fillSecureInput(
+  page: Page,
+  field: string,
+  value: string,
+): Promise<void> {
+  const [target] = await page.observe(`Find the ${field}`);
+  if (!target) {
+    throw new Error(`Could not find the ${field}`);
+  }
+  await page.locator(target.selector).fill(value);
+}
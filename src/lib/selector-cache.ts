@@ -0,0 +1,331 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  ActOptions,
+  ActResult,
+  ObserveOptions,
+  ObserveResult,
+  Page,
+  Stagehand,
+} from '@browserbasehq/stagehand';
+import {
+  TYPED_TEXT,
+  isOnPage,
+  override,
+  splitTypedText,
+  substituteText,
+} from './stagehand-actions.js';
+
+/**
+ * Actions an act/observe instruction resolved to on one page layout
+ * Text typed by act instructions is stored as TYPED_TEXT
+ */
+interface CacheEntry {
+  method: 'act' | 'observe';
+  /** URL path of the page the instruction ran on */
+  path: string;
+  /** DOM fingerprint of that page (see getDomFingerprint) */
+  fingerprint: string;
+  instruction: string;
+  actions: ObserveResult[];
+  /**
+   * Text of each action's element when it was resolved. Rows and dates are
+   * not part of the fingerprint, so this tells a row-specific hit from an
+   * element that now shows a different row
+   */
+  texts: string[];
+}
+
+/** Files of another version are ignored and rewritten */
+const CACHE_VERSION = 2;
+
+interface CacheFile {
+  version: typeof CACHE_VERSION;
+  entries: CacheEntry[];
+}
+
+export interface SelectorCache {
+  /** Wrap a Stagehand instance so its page consults the cache */
+  wrap: (stagehand: Stagehand) => Stagehand;
+  /** Persist entries added or invalidated since the cache was loaded */
+  save: () => Promise<void>;
+}
+
+/**
+ * Saves in progress per cache file
+ * Each save reads, merges and rewrites the file, so saves of concurrent jobs
+ * for a carrier must run one at a time or they lose each other's entries
+ */
+const pendingSaves = new Map<string, Promise<void>>();
+
+/**
+ * Run a save once earlier saves of the same file have settled
+ * @param filePath - Cache file
+ * @param save - Read-merge-write of the file
+ * @returns Promise settling with the save
+ */
+function queueSave(filePath: string, save: () => Promise<void>): Promise<void> {
+  const saved = (pendingSaves.get(filePath) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(save);
+  pendingSaves.set(filePath, saved);
+  const forget = () => {
+    if (pendingSaves.get(filePath) === saved) {
+      pendingSaves.delete(filePath);
+    }
+  };
+  saved.then(forget, forget);
+  return saved;
+}
+
+function entryKey(entry: Omit<CacheEntry, 'actions' | 'texts'>): string {
+  return [entry.method, entry.path, entry.fingerprint, entry.instruction].join(
+    '\n',
+  );
+}
+
+async function readEntries(filePath: string): Promise<Map<string, CacheEntry>> {
+  try {
+    const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheFile;
+    if (file.version !== CACHE_VERSION) {
+      return new Map();
+    }
+    return new Map(file.entries.map((entry) => [entryKey(entry), entry]));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Map();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fingerprint the structure of a page
+ * Hashes the distinct forms and controls (tag, id, name, type) so the
+ * fingerprint changes with the page layout but not with the rows or text
+ * shown in it
+ * @param page - Stagehand page
+ * @returns Short hex hash
+ */
+export async function getDomFingerprint(page: Page): Promise<string> {
+  const controls = await page.evaluate(() =>
+    Array.from(
+      document.querySelectorAll(
+        'form, input, button, select, textarea, a[id], [role="button"]',
+      ),
+      (el) =>
+        [
+          el.tagName.toLowerCase(),
+          el.id,
+          el.getAttribute('name') ?? '',
+          el.getAttribute('type') ?? '',
+        ].join('|'),
+    ),
+  );
+
+  return createHash('sha256')
+    .update([...new Set(controls)].sort().join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Read the text of each action's element, whitespace collapsed
+ * @param page - Stagehand page
+ * @param actions - Resolved actions
+ * @returns One text per action; empty for elements without text
+ */
+async function getElementTexts(
+  page: Page,
+  actions: ObserveResult[],
+): Promise<string[]> {
+  return Promise.all(
+    actions.map(async ({ selector }) =>
+      (await page.locator(selector).allTextContents())
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim(),
+    ),
+  );
+}
+
+/**
+ * Check that a cached entry still points at the elements it was resolved to
+ * @param page - Stagehand page
+ * @param entry - Cache hit
+ * @returns Whether every element is on the page and shows the same text
+ */
+async function matchesPage(page: Page, entry: CacheEntry): Promise<boolean> {
+  if (!(await isOnPage(page, entry.actions))) {
+    return false;
+  }
+  const texts = await getElementTexts(page, entry.actions);
+  return texts.every((text, index) => text === entry.texts[index]);
+}
+
+/**
+ * Create a per-carrier cache of instruction -> resolved selector/action
+ *
+ * act and observe instructions are looked up by URL path, DOM fingerprint
+ * and instruction. A hit whose elements are still on the page with the same
+ * text is used without calling the LLM; a hit whose elements are gone or show
+ * other text (e.g. another row of a table), or whose action fails, is
+ * invalidated and the instruction is resolved live. act instructions are
+ * resolved with observe() and performed from the result so the action can be
+ * cached.
+ *
+ * @param filePath - JSON file holding the carrier's cache
+ * @returns Selector cache
+ */
+export async function createSelectorCache(
+  filePath: string,
+): Promise<SelectorCache> {
+  const entries = await readEntries(filePath);
+  const added = new Map<string, CacheEntry>();
+  const invalidated = new Set<string>();
+
+  const invalidate = (key: string): void => {
+    entries.delete(key);
+    added.delete(key);
+    invalidated.add(key);
+  };
+
+  const store = (entry: CacheEntry): void => {
+    const key = entryKey(entry);
+    entries.set(key, entry);
+    added.set(key, entry);
+    invalidated.delete(key);
+  };
+
+  const wrapPage = (page: Page): Page => {
+    const locate = async (
+      method: CacheEntry['method'],
+      instruction: string,
+    ) => {
+      const entry = {
+        method,
+        path: new URL(page.url()).pathname,
+        fingerprint: await getDomFingerprint(page),
+        instruction,
+      };
+      return { entry, key: entryKey(entry) };
+    };
+
+    const act = async (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> => {
+      if (typeof actionOrOptions !== 'string') {
+        return 'selector' in actionOrOptions
+          ? page.act(actionOrOptions)
+          : page.act(actionOrOptions);
+      }
+      const { instruction, text = '' } = splitTypedText(actionOrOptions);
+      const { entry, key } = await locate('act', instruction);
+
+      const cached = entries.get(key);
+      if (cached) {
+        try {
+          if (await matchesPage(page, cached)) {
+            const result = await page.act(
+              substituteText(cached.actions[0], TYPED_TEXT, text),
+            );
+            if (result.success) {
+              return result;
+            }
+          }
+        } catch {
+          // Fall through to the LLM
+        }
+        invalidate(key);
+      }
+
+      const [action] = await page.observe({
+        instruction: actionOrOptions,
+        returnAction: true,
+      });
+      if (!action?.method) {
+        return page.act(actionOrOptions);
+      }
+      // Read before acting: the action may change the element
+      const texts = await getElementTexts(page, [action]);
+      const result = await page.act(action);
+      if (result.success) {
+        store({
+          ...entry,
+          actions: [substituteText(action, text, TYPED_TEXT)],
+          texts,
+        });
+      }
+      return result;
+    };
+
+    const observe = async (
+      instructionOrOptions?: string | ObserveOptions,
+    ): Promise<ObserveResult[]> => {
+      const observeOptions =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      const instruction = observeOptions?.instruction;
+      if (!instruction) {
+        return page.observe(observeOptions);
+      }
+      const { entry, key } = await locate('observe', instruction);
+
+      const cached = entries.get(key);
+      if (cached) {
+        if (await matchesPage(page, cached)) {
+          return cached.actions;
+        }
+        invalidate(key);
+      }
+
+      const actions = await page.observe(observeOptions);
+      // Nothing found is not cached: the element may appear on a later job
+      if (actions.length > 0) {
+        store({
+          ...entry,
+          actions,
+          texts: await getElementTexts(page, actions),
+        });
+      }
+      return actions;
+    };
+
+    return override(page, { act, observe });
+  };
+
+  return {
+    wrap: (stagehand) => {
+      const page = wrapPage(stagehand.page);
+      return override(stagehand, { page });
+    },
+
+    save: async () => {
+      if (added.size === 0 && invalidated.size === 0) {
+        return;
+      }
+      await queueSave(filePath, async () => {
+        // Merge into the file as it is now: other jobs for the carrier may
+        // have saved since this cache was loaded
+        const latest = await readEntries(filePath);
+        for (const key of invalidated) {
+          latest.delete(key);
+        }
+        for (const [key, entry] of added) {
+          latest.set(key, entry);
+        }
+        const file: CacheFile = {
+          version: CACHE_VERSION,
+          entries: [...latest.values()],
+        };
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+        await fs.rename(tempPath, filePath);
+      });
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import { getAbortError } from './timeout.js';
+import type { CarrierSlug, CarrierThrottle } from '../types/index.js';
+
+export interface SessionLimiterOptions {
+  /** Maximum browser sessions open at once across all carriers */
+  maxConcurrent: number;
+  /** Throttle applied to carriers without an override */
+  carrierDefaults: Required<CarrierThrottle>;
+  /** Per-carrier overrides of the default throttle */
+  carrierOverrides: Record<CarrierSlug, CarrierThrottle>;
+}
+
+export interface SessionLimiter {
+  /**
+   * Wait for a session slot for a carrier
+   * @param carrierSlug - Carrier the session is for
+   * @param signal - Job deadline; once aborted, stops waiting and rejects
+   * with its reason
+   * @returns Function that releases the slot (safe to call more than once)
+   */
+  acquire: (
+    carrierSlug: CarrierSlug,
+    signal?: AbortSignal,
+  ) => Promise<() => void>;
+}
+
+interface Waiter {
+  carrierSlug: CarrierSlug;
+  grant: (release: () => void) => void;
+}
+
+/**
+ * Creates a limiter for browser sessions
+ *
+ * Waiters are served in FIFO order, skipping over carriers that are at their
+ * own limit or still inside their login spacing window, so one throttled
+ * carrier never blocks jobs for the others.
+ *
+ * @param options - Global and per-carrier limits
+ * @returns Session limiter instance
+ */
+export function createSessionLimiter(
+  options: SessionLimiterOptions,
+): SessionLimiter {
+  const waiters: Waiter[] = [];
+  const activeByCarrier = new Map<CarrierSlug, number>();
+  const lastLoginAt = new Map<CarrierSlug, number>();
+  let active = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  const throttleFor = (
+    carrierSlug: CarrierSlug,
+  ): Required<CarrierThrottle> => ({
+    ...options.carrierDefaults,
+    ...options.carrierOverrides[carrierSlug],
+  });
+
+  const release = (carrierSlug: CarrierSlug): void => {
+    active--;
+    activeByCarrier.set(
+      carrierSlug,
+      (activeByCarrier.get(carrierSlug) ?? 1) - 1,
+    );
+    pump();
+  };
+
+  const pump = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    let nextEligibleAt = Infinity;
+
+    for (let i = 0; i < waiters.length && active < options.maxConcurrent; ) {
+      const { carrierSlug, grant } = waiters[i];
+      const { maxSessions, minLoginIntervalMs } = throttleFor(carrierSlug);
+      const carrierActive = activeByCarrier.get(carrierSlug) ?? 0;
+      const eligibleAt =
+        (lastLoginAt.get(carrierSlug) ?? -Infinity) + minLoginIntervalMs;
+
+      if (carrierActive >= maxSessions) {
+        i++;
+        continue;
+      }
+
+      if (eligibleAt > Date.now()) {
+        nextEligibleAt = Math.min(nextEligibleAt, eligibleAt);
+        i++;
+        continue;
+      }
+
+      waiters.splice(i, 1);
+      active++;
+      activeByCarrier.set(carrierSlug, carrierActive + 1);
+      lastLoginAt.set(carrierSlug, Date.now());
+
+      let released = false;
+      grant(() => {
+        if (!released) {
+          released = true;
+          release(carrierSlug);
+        }
+      });
+    }
+
+    if (nextEligibleAt !== Infinity && active < options.maxConcurrent) {
+      timer = setTimeout(pump, nextEligibleAt - Date.now());
+    }
+  };
+
+  return {
+    acquire: (carrierSlug, signal) =>
+      new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(getAbortError(signal));
+          return;
+        }
+
+        const onAbort = () => {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          reject(getAbortError(signal!));
+        };
+        const waiter: Waiter = {
+          carrierSlug,
+          grant: (releaseSlot) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(releaseSlot);
+          },
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiters.push(waiter);
+        pump();
+      }),
+  };
+}
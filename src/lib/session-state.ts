@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Page } from '@browserbasehq/stagehand';
+import type { BrowserContext } from 'playwright';
+import { decryptJson, encryptJson, type EncryptedJson } from './encryption.js';
+import type { CarrierCredentials, WorkflowJob } from '../types/index.js';
+
+/** Cookies and localStorage of a logged-in browser context */
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+type StorageOrigins = StorageState['origins'];
+
+export interface SessionStateStore {
+  /** Stored state, or null if there is none or it cannot be decrypted */
+  load: (key: string) => Promise<StorageState | null>;
+  save: (key: string, state: StorageState) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+/**
+ * Get the key a credential's session is stored under
+ * Hashed, so usernames do not appear in file names
+ * @param credential - Carrier credentials
+ * @returns Hex key, one per portal host and username
+ */
+export function getSessionStateKey(credential: CarrierCredentials): string {
+  const { hostname } = new URL(credential.login_url);
+  return createHash('sha256')
+    .update(`${hostname.toLowerCase()}\n${credential.username}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Create a store of encrypted browser storage states, one file per key
+ * @param dir - Directory holding the state files
+ * @param secret - Passphrase the files are encrypted with
+ * @returns Session state store
+ */
+export function createSessionStateStore(
+  dir: string,
+  secret: string,
+): SessionStateStore {
+  const filePath = (key: string) => path.join(dir, `${key}.json`);
+
+  return {
+    load: async (key) => {
+      let file: EncryptedJson;
+      try {
+        file = JSON.parse(
+          await fs.readFile(filePath(key), 'utf-8'),
+        ) as EncryptedJson;
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+
+      try {
+        return decryptJson<StorageState>(file, secret);
+      } catch {
+        // Written with another secret: log in again and overwrite it
+        return null;
+      }
+    },
+
+    save: async (key, state) => {
+      await fs.mkdir(dir, { recursive: true });
+      const tempPath = `${filePath(key)}.${process.pid}.tmp`;
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify(encryptJson(state, secret), null, 2),
+        { mode: 0o600 },
+      );
+      await fs.rename(tempPath, filePath(key));
+    },
+
+    remove: async (key) => {
+      await fs.rm(filePath(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Load a stored state into a browser context before any page is opened
+ * Cookies are added directly; localStorage entries are written by an init
+ * script when a page of their origin loads, without overwriting values the
+ * portal has set since
+ * @param context - Browser context
+ * @param state - Stored state
+ */
+export async function restoreSessionState(
+  context: Pick<BrowserContext, 'addCookies' | 'addInitScript'>,
+  state: StorageState,
+): Promise<void> {
+  await context.addCookies(state.cookies);
+  if (state.origins.length === 0) {
+    return;
+  }
+  await context.addInitScript((origins: StorageOrigins) => {
+    const stored = origins.find(
+      ({ origin }) => origin === window.location.origin,
+    );
+    for (const { name, value } of stored?.localStorage ?? []) {
+      if (window.localStorage.getItem(name) === null) {
+        window.localStorage.setItem(name, value);
+      }
+    }
+  }, state.origins);
+}
+
+/** Controls only shown to a logged-in user */
+const LOGOUT_CONTROL = /\b(log|sign) ?(out|off)\b/i;
+
+/**
+ * Check whether a restored session is still logged in to the portal
+ * Call right after navigating to the login URL; when it resolves true the
+ * login steps can be skipped. Only a job whose stored session was restored
+ * is checked, and only a log out / sign out control on the page counts as
+ * logged in: portals set cookies and render login forms in steps before
+ * any login, so their absence proves nothing.
+ * @param page - Stagehand page, on the login URL
+ * @param job - Job being run (session_restored)
+ * @returns Whether the login steps can be skipped
+ */
+export async function isLoggedIn(
+  page: Page,
+  job: Pick<WorkflowJob, 'session_restored'>,
+): Promise<boolean> {
+  if (!job.session_restored) {
+    return false;
+  }
+
+  await page.waitForLoadState('domcontentloaded');
+  try {
+    await page
+      .locator('a, button, [role="button"], [role="link"], [role="menuitem"]')
+      .filter({ hasText: LOGOUT_CONTROL })
+      .first()
+      // Attached, not visible: logout links often sit in a closed user menu
+      .waitFor({ state: 'attached', timeout: 5000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
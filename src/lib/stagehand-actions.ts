@@ -0,0 +1,84 @@
+import type { ObserveResult, Page } from '@browserbasehq/stagehand';
+
+/** Placeholder for the text typed by an act instruction */
+export const TYPED_TEXT = '%text%';
+
+const TYPE_INSTRUCTION = /^type '(.*)' into (.+)$/s;
+
+/**
+ * Split the typed text out of an act instruction
+ * Lets resolved actions be stored without the credentials they typed
+ * @param instruction - Instruction, e.g. "type 'alice' into the Username input"
+ * @returns Instruction with the text replaced by TYPED_TEXT, and the text
+ */
+export function splitTypedText(instruction: string): {
+  instruction: string;
+  text?: string;
+} {
+  const match = TYPE_INSTRUCTION.exec(instruction);
+  if (!match) {
+    return { instruction };
+  }
+  return {
+    instruction: `type '${TYPED_TEXT}' into ${match[2]}`,
+    text: match[1],
+  };
+}
+
+function replaceText(value: string, from: string, to: string): string {
+  return from ? value.split(from).join(to) : value;
+}
+
+/**
+ * Replace the typed text in a resolved action
+ * @param action - Resolved action
+ * @param from - Text to replace
+ * @param to - Replacement
+ */
+export function substituteText(
+  action: ObserveResult,
+  from: string,
+  to: string,
+): ObserveResult {
+  return {
+    ...action,
+    description: replaceText(action.description, from, to),
+    arguments: action.arguments?.map((arg) => replaceText(arg, from, to)),
+  };
+}
+
+/**
+ * Check that every element of resolved actions is still on the page
+ */
+export async function isOnPage(
+  page: Page,
+  actions: ObserveResult[],
+): Promise<boolean> {
+  for (const { selector } of actions) {
+    if ((await page.locator(selector).count()) === 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Proxy an object, replacing some properties
+ * Other methods stay bound to the original object
+ */
+export function override<T extends object>(
+  target: T,
+  overrides: Partial<T>,
+): T {
+  return new Proxy(target, {
+    get(obj, prop) {
+      if (prop in overrides) {
+        return overrides[prop as keyof T];
+      }
+      const value = Reflect.get(obj, prop) as unknown;
+      return typeof value === 'function'
+        ? (value as (...args: unknown[]) => unknown).bind(obj)
+        : value;
+    },
+  });
+}
@@ -1,39 +1,221 @@
-import { Stagehand, type Page } from '@browserbasehq/stagehand';
+import {
+  Stagehand,
+  type ConstructorParams,
+  type LogLine,
+  type Page,
+} from '@browserbasehq/stagehand';
+import path from 'path';
 import { config } from '../config/index.js';
+import {
+  createModelFallback,
+  getCarrierModel,
+  getModelName,
+  getModelParams,
+} from './llm-models.js';
+import { logger, type Logger } from './logger.js';
+import { createStepRetry } from './retry.js';
+import {
+  createArtifactRecorder,
+  type ArtifactFile,
+} from './failure-artifacts.js';
+import { createSelectorCache } from './selector-cache.js';
+import { createStepTimeout } from './timeout.js';
+import { createStagehandRecorder } from './stagehand-recorder.js';
+import type { AppConfig, CarrierSlug } from '../types/index.js';
 
 export interface StagehandClient {
   stagehand: Stagehand;
   page: Page;
+  /** Primary model ("{provider}/{model}") */
+  model: string;
+  /** Fallback model name if it has answered a call, otherwise undefined */
+  getFallbackModelUsed: () => string | undefined;
+  /** Number of act/observe/extract/goto calls retried (STEP_RETRY_ATTEMPTS) */
+  getStepRetries: () => number;
+  /**
+   * Capture the page as failure evidence (see lib/failure-artifacts); no
+   * files when ARTIFACTS_STORE is off
+   */
+  captureArtifacts: () => Promise<ArtifactFile[]>;
   close: () => Promise<void>;
 }
 
+export interface StagehandClientOptions {
+  /**
+   * Carrier whose model override, selector cache and act/observe/extract
+   * recording are used (LLM_CARRIER_OVERRIDES, SELECTOR_CACHE_ENABLED,
+   * STAGEHAND_RECORDING)
+   */
+  carrierSlug?: CarrierSlug;
+  /** Job deadline; pending page calls fail as soon as it aborts */
+  signal?: AbortSignal;
+  /**
+   * Logger for Stagehand's own lines, retries and fallbacks, e.g. bound to
+   * the job; defaults to the service logger
+   */
+  log?: Logger;
+}
+
+type BrowserParams = Pick<
+  ConstructorParams,
+  'env' | 'apiKey' | 'projectId' | 'localBrowserLaunchOptions'
+>;
+
+/**
+ * Build the Stagehand browser settings for the configured provider
+ * @param appConfig - Application config (browser and browserbase sections)
+ * @returns Stagehand constructor params selecting the browser
+ * @throws Error if the provider's settings are missing
+ */
+export function getBrowserParams(
+  appConfig: Pick<AppConfig, 'browser' | 'browserbase'>,
+): BrowserParams {
+  const { browser, browserbase } = appConfig;
+
+  switch (browser.provider) {
+    case 'browserbase':
+      if (!browserbase) {
+        throw new Error(
+          'Browserbase provider requires Browserbase credentials',
+        );
+      }
+      return {
+        env: 'BROWSERBASE',
+        apiKey: browserbase.apiKey,
+        projectId: browserbase.projectId,
+      };
+    case 'local':
+      return {
+        env: 'LOCAL',
+        localBrowserLaunchOptions: {
+          headless: browser.headless,
+          executablePath: browser.executablePath,
+        },
+      };
+    case 'cdp':
+      if (!browser.cdpUrl) {
+        throw new Error('CDP provider requires BROWSER_CDP_URL');
+      }
+      // Stagehand connects to the running browser instead of launching one
+      return {
+        env: 'LOCAL',
+        localBrowserLaunchOptions: { cdpUrl: browser.cdpUrl },
+      };
+  }
+}
+
+/**
+ * Write Stagehand log lines through our logger rather than Stagehand's own,
+ * so they carry the job context and registered secrets are redacted
+ * @param log - Logger
+ * @param line - Stagehand log line
+ */
+function logStagehandLine(log: Logger, line: LogLine): void {
+  const fields = { source: 'stagehand', category: line.category };
+  switch (line.level) {
+    case 0:
+      log.error(line.message, fields);
+      break;
+    case 2:
+      log.debug(line.message, fields);
+      break;
+    default:
+      log.info(line.message, fields);
+  }
+}
+
 /**
  * Creates and initializes a Stagehand client with standard configuration
+ * The browser comes from the configured provider (BROWSER_PROVIDER)
+ * @param options - Client options
  * @returns Initialized Stagehand client with page instance
  */
-export async function createStagehandClient(): Promise<StagehandClient> {
-  const stagehand = new Stagehand({
-    env: 'BROWSERBASE',
-    apiKey: config.browserbase.apiKey,
-    projectId: config.browserbase.projectId,
+export async function createStagehandClient(
+  options: StagehandClientOptions = {},
+): Promise<StagehandClient> {
+  const { carrierSlug, signal, log = logger } = options;
+  const { artifacts, jobs, llm, recording, retry, selectorCache } = config;
+  const model = getCarrierModel(llm, carrierSlug);
+  const fallback = llm.fallback && createModelFallback(llm.fallback, log);
+  const stepRetry = createStepRetry(retry.step, log);
+  const stepTimeout = createStepTimeout(jobs.stepTimeoutMs, signal);
+
+  const recorder =
+    recording.mode !== 'off' && carrierSlug
+      ? await createStagehandRecorder({
+          mode: recording.mode,
+          filePath: path.join(recording.dir, `${carrierSlug}.json`),
+          log,
+        })
+      : undefined;
+
+  // A recording run must send every instruction to the LLM
+  const cache =
+    selectorCache.enabled && recording.mode !== 'record' && carrierSlug
+      ? await createSelectorCache(
+          path.join(selectorCache.dir, `${carrierSlug}.json`),
+        )
+      : undefined;
+
+  const client = new Stagehand({
+    ...getBrowserParams(config),
     verbose: 1,
-    modelName: 'google/gemini-2.0-flash-exp',
-    modelClientOptions: {
-      apiKey: config.gemini.apiKey,
-    },
+    logger: (line) => logStagehandLine(log, line),
+    ...getModelParams(model),
   });
 
-  await stagehand.init();
+  try {
+    await client.init();
+
+    if (!client.page) {
+      throw new Error('Failed to initialize Stagehand page');
+    }
+  } catch (error: unknown) {
+    // The browser session may already have been created
+    await client.close().catch(() => undefined);
+    throw error;
+  }
+
+  // Fallback, step retries and step timeouts run below the recorder and
+  // cache, which only see the final result of each call. The step budget
+  // covers all retries of a call
+  let stagehand: Stagehand = client;
+  if (fallback) {
+    stagehand = fallback.wrap(stagehand);
+  }
+  stagehand = stepRetry.wrap(stagehand);
+  stagehand = stepTimeout.wrap(stagehand);
+  if (recorder) {
+    stagehand = recorder.wrap(stagehand);
+  }
+  if (cache) {
+    stagehand = cache.wrap(stagehand);
+  }
 
-  if (!stagehand.page) {
-    throw new Error('Failed to initialize Stagehand page');
+  // Console and network capture start with the session
+  const artifactRecorder =
+    artifacts.store !== 'off'
+      ? createArtifactRecorder(client.page, { ...artifacts, log })
+      : undefined;
+  if (artifactRecorder) {
+    stagehand = artifactRecorder.wrap(stagehand);
   }
 
   return {
     stagehand,
     page: stagehand.page,
+    model: getModelName(model),
+    getFallbackModelUsed: () =>
+      llm.fallback && fallback?.used() ? getModelName(llm.fallback) : undefined,
+    getStepRetries: stepRetry.retries,
+    captureArtifacts: async () => (await artifactRecorder?.capture()) ?? [],
     close: async () => {
-      await stagehand.close();
+      try {
+        await recorder?.save();
+        await cache?.save();
+      } finally {
+        await client.close();
+      }
     },
   };
 }
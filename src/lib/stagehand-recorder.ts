@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  ActOptions,
+  ActResult,
+  ExtractOptions,
+  ObserveOptions,
+  ObserveResult,
+  Page,
+  Stagehand,
+} from '@browserbasehq/stagehand';
+import type { AnyZodObject } from 'zod';
+import { logger, type Logger } from './logger.js';
+import {
+  TYPED_TEXT,
+  isOnPage,
+  override,
+  splitTypedText,
+  substituteText,
+} from './stagehand-actions.js';
+
+type RecordedMethod = 'act' | 'observe' | 'extract';
+
+/**
+ * One resolved act/observe/extract instruction
+ * Text typed by an act instruction is stored as TYPED_TEXT, never verbatim
+ */
+interface RecordedCall {
+  method: RecordedMethod;
+  instruction: string;
+  /** Element(s) and action resolved by the LLM (act, observe) */
+  actions?: ObserveResult[];
+  /** Extracted JSON (extract) */
+  data?: unknown;
+}
+
+interface RecordingFile {
+  version: 1;
+  calls: RecordedCall[];
+}
+
+export interface StagehandRecorderOptions {
+  mode: 'record' | 'replay';
+  /** JSON file holding the recorded calls */
+  filePath: string;
+  /** Logger for live fallbacks; defaults to the service logger */
+  log?: Logger;
+}
+
+export interface StagehandRecorder {
+  /** Wrap a Stagehand instance so its page records or replays calls */
+  wrap: (stagehand: Stagehand) => Stagehand;
+  /** Persist the calls recorded so far (no-op in replay mode) */
+  save: () => Promise<void>;
+}
+
+async function readRecording(filePath: string): Promise<RecordedCall[]> {
+  try {
+    const file = JSON.parse(
+      await fs.readFile(filePath, 'utf-8'),
+    ) as RecordingFile;
+    return file.calls;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a recorder for Stagehand act/observe/extract calls
+ *
+ * In record mode each instruction is resolved by the LLM and saved with the
+ * selector and action (act, observe) or JSON (extract) it produced; act
+ * instructions are resolved with observe() and performed from the result so
+ * the action itself can be saved. In replay mode saved results are served
+ * without calling the LLM, falling back to the live call when an instruction
+ * was not recorded, a recorded element is no longer on the page or recorded
+ * data no longer fits the schema.
+ *
+ * @param options - Mode and recording file
+ * @returns Recorder
+ */
+export async function createStagehandRecorder(
+  options: StagehandRecorderOptions,
+): Promise<StagehandRecorder> {
+  const { mode, filePath, log = logger } = options;
+  const saved = await readRecording(filePath);
+  const recorded: RecordedCall[] = [];
+  // Replay position per method + instruction, for repeated instructions
+  const positions = new Map<string, number>();
+
+  const nextSaved = (
+    method: RecordedMethod,
+    instruction: string,
+  ): RecordedCall | undefined => {
+    const matching = saved.filter(
+      (call) => call.method === method && call.instruction === instruction,
+    );
+    const id = `${method}\n${instruction}`;
+    const position = positions.get(id) ?? 0;
+    positions.set(id, position + 1);
+    return matching[Math.min(position, matching.length - 1)];
+  };
+
+  const liveFallback = (method: RecordedMethod, instruction: string): void => {
+    log.warn('No usable recording, calling the LLM', { method, instruction });
+  };
+
+  const wrapPage = (page: Page): Page => {
+    const act = async (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> => {
+      if (typeof actionOrOptions !== 'string') {
+        return 'selector' in actionOrOptions
+          ? page.act(actionOrOptions)
+          : page.act(actionOrOptions);
+      }
+      const { instruction, text = '' } = splitTypedText(actionOrOptions);
+
+      if (mode === 'replay') {
+        const action = nextSaved('act', instruction)?.actions?.[0];
+        if (action && (await isOnPage(page, [action]))) {
+          const result = await page.act(
+            substituteText(action, TYPED_TEXT, text),
+          );
+          if (result.success) {
+            return result;
+          }
+        }
+        liveFallback('act', instruction);
+        return page.act(actionOrOptions);
+      }
+
+      const [action] = await page.observe({
+        instruction: actionOrOptions,
+        returnAction: true,
+      });
+      if (!action?.method) {
+        return page.act(actionOrOptions);
+      }
+      const result = await page.act(action);
+      if (result.success) {
+        recorded.push({
+          method: 'act',
+          instruction,
+          actions: [substituteText(action, text, TYPED_TEXT)],
+        });
+      }
+      return result;
+    };
+
+    const observe = async (
+      instructionOrOptions?: string | ObserveOptions,
+    ): Promise<ObserveResult[]> => {
+      const observeOptions =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      const instruction = observeOptions?.instruction;
+      if (!instruction) {
+        return page.observe(observeOptions);
+      }
+
+      if (mode === 'replay') {
+        const actions = nextSaved('observe', instruction)?.actions;
+        if (actions && (await isOnPage(page, actions))) {
+          return actions;
+        }
+        liveFallback('observe', instruction);
+        return page.observe(observeOptions);
+      }
+
+      const actions = await page.observe(observeOptions);
+      recorded.push({ method: 'observe', instruction, actions });
+      return actions;
+    };
+
+    const extract = async (
+      instructionOrOptions?: string | ExtractOptions<AnyZodObject>,
+    ): Promise<unknown> => {
+      const extractOptions =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      const instruction = extractOptions?.instruction;
+      if (!extractOptions) {
+        return page.extract();
+      }
+      if (!instruction) {
+        return page.extract(extractOptions);
+      }
+
+      if (mode === 'replay') {
+        const call = nextSaved('extract', instruction);
+        const parsed = call && extractOptions.schema?.safeParse(call.data);
+        if (call && (!parsed || parsed.success)) {
+          return parsed ? parsed.data : call.data;
+        }
+        liveFallback('extract', instruction);
+        return page.extract(extractOptions);
+      }
+
+      const data = await page.extract(extractOptions);
+      recorded.push({ method: 'extract', instruction, data });
+      return data;
+    };
+
+    return override(page, {
+      act,
+      observe,
+      extract: extract as Page['extract'],
+    });
+  };
+
+  return {
+    wrap: (stagehand) => {
+      const page = wrapPage(stagehand.page);
+      return override(stagehand, { page });
+    },
+
+    save: async () => {
+      if (mode !== 'record' || recorded.length === 0) {
+        return;
+      }
+      // Re-recorded instructions replace their saved calls; others are kept
+      const rerecorded = new Set(
+        recorded.map((call) => `${call.method}\n${call.instruction}`),
+      );
+      const file: RecordingFile = {
+        version: 1,
+        calls: [
+          ...saved.filter(
+            (call) => !rerecorded.has(`${call.method}\n${call.instruction}`),
+          ),
+          ...recorded,
+        ],
+      };
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, `${JSON.stringify(file, null, 2)}\n`);
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import type {
+  AccountingPeriod,
+  FetchStatementsRequest,
+} from '../types/index.js';
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const ISO_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/;
+const US_PATTERN = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/;
+const MONTH_NAME_PATTERN = /^([a-z]+)\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})$/i;
+
+/**
+ * Find a month number from its full or abbreviated English name
+ * @param name - Month name (e.g. "January", "jan", "Sept")
+ * @returns Month number 1-12, or undefined if not a month name
+ */
+function parseMonthName(name: string): number | undefined {
+  const lower = name.toLowerCase();
+  if (lower.length < 3) {
+    return undefined;
+  }
+  const index = MONTHS.findIndex((month) => month.startsWith(lower));
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Format date parts as YYYY-MM-DD, rejecting impossible dates (e.g. 02/30)
+ * Uses Date.UTC so the result never depends on the server's timezone
+ */
+function toIsoDate(
+  year: number,
+  month: number,
+  day: number,
+): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a date as shown by a carrier portal into an ISO calendar date
+ *
+ * Supported formats:
+ * - `YYYY-MM-DD` / `YYYY/MM/DD` (any time part is ignored, not converted)
+ * - `MM/DD/YYYY` / `M/D/YYYY` / `MM-DD-YYYY` (US order)
+ * - `January 15, 2024` / `Jan 15 2024`
+ * - `January 2024` / `Jan 2024` (first day of the month)
+ *
+ * @param input - Date string
+ * @returns ISO date (YYYY-MM-DD)
+ * @throws Error if the date is not in a supported format or doesn't exist
+ */
+export function parseStatementDate(input: string): string {
+  const value = input.trim();
+  let isoDate: string | undefined;
+
+  const iso = ISO_PATTERN.exec(value);
+  const us = US_PATTERN.exec(value);
+  const named = MONTH_NAME_PATTERN.exec(value);
+
+  if (iso) {
+    isoDate = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  } else if (us) {
+    isoDate = toIsoDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  } else if (named) {
+    const month = parseMonthName(named[1]);
+    if (month) {
+      isoDate = toIsoDate(Number(named[3]), month, Number(named[2] ?? 1));
+    }
+  }
+
+  if (!isoDate) {
+    throw new Error(`Unparseable statement date: "${input}"`);
+  }
+  return isoDate;
+}
+
+/**
+ * Format an ISO date in US order, as used by many carrier portals
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns Date in MM/DD/YYYY format
+ */
+export function formatUsDate(isoDate: string): string {
+  const [year, month, day] = parseStatementDate(isoDate).split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Check whether a date falls within an accounting period
+ * Both bounds are inclusive; a period without an end date is open-ended
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @param period - Accounting period
+ * @returns True if start <= date <= end
+ */
+export function isWithinPeriod(
+  isoDate: string,
+  period: AccountingPeriod,
+): boolean {
+  // ISO dates compare correctly as strings
+  return isoDate >= period.start && (!period.end || isoDate <= period.end);
+}
+
+/**
+ * Build the accounting period requested by a job
+ * @param request - Job request with start and optional end date
+ * @returns Accounting period with ISO dates
+ * @throws Error if a date is invalid or the end is before the start
+ */
+export function getAccountingPeriod(
+  request: Pick<
+    FetchStatementsRequest,
+    'accounting_period_start_date' | 'accounting_period_end_date'
+  >,
+): AccountingPeriod {
+  const parse = (field: keyof typeof request): string => {
+    try {
+      return parseStatementDate(request[field] ?? '');
+    } catch {
+      throw new Error(`Invalid ${field}: expected YYYY-MM-DD`);
+    }
+  };
+
+  const start = parse('accounting_period_start_date');
+  if (!request.accounting_period_end_date) {
+    return { start };
+  }
+
+  const end = parse('accounting_period_end_date');
+  if (end < start) {
+    throw new Error(
+      'accounting_period_end_date must not be before accounting_period_start_date',
+    );
+  }
+  return { start, end };
+}
+
+/**
+ * Get the first day of the month a date falls in
+ * @param isoDate - Date in YYYY-MM-DD format
+ * @returns ISO date of the 1st of that month
+ */
+export function getMonthStart(isoDate: string): string {
+  return `${isoDate.slice(0, 7)}-01`;
+}
+
+/**
+ * Get the last date a workflow should collect statements for
+ * Jobs without an end date target the single period starting on the start date
+ * @param period - Accounting period
+ * @returns ISO end date (inclusive)
+ */
+export function getPeriodEnd(period: AccountingPeriod): string {
+  return period.end ?? period.start;
+}
@@ -0,0 +1,366 @@
+import * as Sentry from '@sentry/node';
+import type {
+  ActOptions,
+  ActResult,
+  ExtractOptions,
+  ObserveOptions,
+  ObserveResult,
+  Page,
+  Stagehand,
+  StagehandMetrics,
+} from '@browserbasehq/stagehand';
+import type { AnyZodObject } from 'zod';
+import { getErrorMessage } from './error-utils.js';
+import { logger, type Logger } from './logger.js';
+import { redact } from './redaction.js';
+import { override, splitTypedText } from './stagehand-actions.js';
+import type { CarrierSlug, WorkflowResult } from '../types/index.js';
+
+/** Span status code of a failed operation (OpenTelemetry ERROR) */
+const SPAN_STATUS_ERROR = 2;
+
+export type StepOutcome = 'succeeded' | 'failed';
+
+export type StepAttributes = Record<string, string | number>;
+
+/** One act/observe/extract call that reached the LLM during a step */
+export interface LlmCallTrace {
+  method: 'act' | 'observe' | 'extract';
+  instruction?: string;
+  duration_ms: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/** A finished workflow step */
+export interface StepTrace {
+  name: string;
+  attributes?: StepAttributes;
+  started_at: string;
+  ended_at: string;
+  duration_ms: number;
+  outcome: StepOutcome;
+  error?: string;
+  llm_calls: LlmCallTrace[];
+  /** Calls answered without the LLM (selector cache, replayed recording) */
+  cached_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/** Passed to runWorkflow for it to name its steps */
+export interface WorkflowTracer {
+  /**
+   * Run a named step (e.g. login, navigate, extract, download)
+   * The step fails when run throws; the error is rethrown
+   * @param name - Step name
+   * @param run - Step body
+   * @param attributes - Extra step fields, e.g. the statement date
+   * @returns Result of run
+   */
+  step: <T>(
+    name: string,
+    run: () => Promise<T>,
+    attributes?: StepAttributes,
+  ) => Promise<T>;
+}
+
+export interface StepTracer extends WorkflowTracer {
+  /**
+   * Wrap a Stagehand instance so its act/observe/extract calls are recorded
+   * with the step they run in, and their token usage read from its metrics
+   */
+  wrap: (stagehand: Stagehand) => Stagehand;
+  /**
+   * Trace a workflow run: its steps become children of the run's span, and
+   * a summary is logged once it settles
+   * @param run - Workflow run
+   * @returns Its result
+   */
+  run: (run: () => Promise<WorkflowResult>) => Promise<WorkflowResult>;
+  /** Steps finished so far */
+  steps: () => StepTrace[];
+  /** Number of calls that reached the LLM so far, in or out of steps */
+  llmCalls: () => number;
+}
+
+export interface StepTracerOptions {
+  jobId: string;
+  carrierSlug: CarrierSlug;
+  /** Workflow attempt, from 1 */
+  attempt?: number;
+  /** Logger for step and run lines; defaults to the service logger */
+  log?: Logger;
+}
+
+/** Tracer for workflows run without one: steps just run */
+export const untracedWorkflow: WorkflowTracer = {
+  step: (_name, run) => run(),
+};
+
+interface OpenStep {
+  llmCalls: LlmCallTrace[];
+  cachedCalls: number;
+}
+
+function getTokens(
+  metrics: StagehandMetrics | undefined,
+): [prompt: number, completion: number] {
+  return [metrics?.totalPromptTokens ?? 0, metrics?.totalCompletionTokens ?? 0];
+}
+
+function sumTokens(calls: LlmCallTrace[]): {
+  prompt_tokens: number;
+  completion_tokens: number;
+} {
+  return {
+    prompt_tokens: calls.reduce((sum, call) => sum + call.prompt_tokens, 0),
+    completion_tokens: calls.reduce(
+      (sum, call) => sum + call.completion_tokens,
+      0,
+    ),
+  };
+}
+
+/**
+ * Describe a call's instruction without the text it types
+ * @param instructionOrOptions - act/observe/extract argument
+ * @returns Redacted instruction, if the call has one
+ */
+function describeInstruction(
+  instructionOrOptions: unknown,
+): string | undefined {
+  const instruction =
+    typeof instructionOrOptions === 'string'
+      ? instructionOrOptions
+      : (instructionOrOptions as { instruction?: unknown } | undefined)
+          ?.instruction;
+  return typeof instruction === 'string'
+    ? redact(splitTypedText(instruction).instruction)
+    : undefined;
+}
+
+/**
+ * Trace the steps of a workflow run
+ * Every step and act/observe/extract call is a Sentry span (OpenTelemetry
+ * under the hood), and every finished step and run is logged with its
+ * duration, outcome, LLM calls and token usage
+ * @param options - Job and carrier the run belongs to
+ * @returns Step tracer
+ */
+export function createStepTracer(options: StepTracerOptions): StepTracer {
+  const { jobId, carrierSlug, attempt } = options;
+  const finished: StepTrace[] = [];
+  const openSteps: OpenStep[] = [];
+  // Calls made outside any step
+  const runCalls: OpenStep = { llmCalls: [], cachedCalls: 0 };
+  const context = {
+    job_id: jobId,
+    carrier: carrierSlug,
+    ...(attempt !== undefined && { attempt }),
+  };
+  const log = (options.log ?? logger).child(context);
+
+  const allCalls = (): LlmCallTrace[] => [
+    ...finished.flatMap(({ llm_calls }) => llm_calls),
+    ...runCalls.llmCalls,
+  ];
+
+  const step = <T>(
+    name: string,
+    run: () => Promise<T>,
+    attributes?: StepAttributes,
+  ): Promise<T> =>
+    Sentry.startSpan(
+      {
+        name,
+        op: 'workflow.step',
+        attributes: { ...context, ...attributes },
+      },
+      async (span) => {
+        const open: OpenStep = { llmCalls: [], cachedCalls: 0 };
+        openSteps.push(open);
+        const startedAt = new Date();
+        let outcome: StepOutcome = 'succeeded';
+        let error: string | undefined;
+
+        try {
+          return await run();
+        } catch (stepError: unknown) {
+          outcome = 'failed';
+          error = redact(getErrorMessage(stepError));
+          throw stepError;
+        } finally {
+          openSteps.splice(openSteps.indexOf(open), 1);
+          const endedAt = new Date();
+          const trace: StepTrace = {
+            name,
+            ...(attributes && { attributes }),
+            started_at: startedAt.toISOString(),
+            ended_at: endedAt.toISOString(),
+            duration_ms: endedAt.getTime() - startedAt.getTime(),
+            outcome,
+            ...(error !== undefined && { error }),
+            llm_calls: open.llmCalls,
+            cached_calls: open.cachedCalls,
+            ...sumTokens(open.llmCalls),
+          };
+          finished.push(trace);
+          span.setAttributes({
+            llm_calls: trace.llm_calls.length,
+            cached_calls: trace.cached_calls,
+            prompt_tokens: trace.prompt_tokens,
+            completion_tokens: trace.completion_tokens,
+          });
+          log.info(`Workflow step ${outcome}`, {
+            event: 'workflow_step',
+            ...trace,
+          });
+        }
+      },
+    );
+
+  const wrap = (stagehand: Stagehand): Stagehand => {
+    const traceCall = <T>(
+      method: LlmCallTrace['method'],
+      instructionOrOptions: unknown,
+      call: () => Promise<T>,
+    ): Promise<T> => {
+      const instruction = describeInstruction(instructionOrOptions);
+      return Sentry.startSpan(
+        {
+          name: instruction ?? method,
+          op: `stagehand.${method}`,
+          attributes: context,
+        },
+        async (span) => {
+          const [promptBefore, completionBefore] = getTokens(stagehand.metrics);
+          const startedAt = Date.now();
+          try {
+            return await call();
+          } finally {
+            const [promptAfter, completionAfter] = getTokens(stagehand.metrics);
+            const llmCall: LlmCallTrace = {
+              method,
+              ...(instruction !== undefined && { instruction }),
+              duration_ms: Date.now() - startedAt,
+              prompt_tokens: promptAfter - promptBefore,
+              completion_tokens: completionAfter - completionBefore,
+            };
+            // Calls in nested steps count towards the innermost one. Calls
+            // using no tokens never reached the LLM
+            const open = openSteps[openSteps.length - 1] ?? runCalls;
+            if (llmCall.prompt_tokens + llmCall.completion_tokens > 0) {
+              open.llmCalls.push(llmCall);
+            } else {
+              open.cachedCalls++;
+            }
+            span.setAttributes({
+              'gen_ai.usage.input_tokens': llmCall.prompt_tokens,
+              'gen_ai.usage.output_tokens': llmCall.completion_tokens,
+            });
+          }
+        },
+      );
+    };
+
+    const page = stagehand.page;
+
+    const act = (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> =>
+      traceCall('act', actionOrOptions, () =>
+        page.act(actionOrOptions as ActOptions),
+      );
+
+    const observe = (
+      instructionOrOptions?: string | ObserveOptions,
+    ): Promise<ObserveResult[]> => {
+      const observeOptions =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      return traceCall('observe', observeOptions, () =>
+        page.observe(observeOptions),
+      );
+    };
+
+    const extract = (
+      instructionOrOptions?: string | ExtractOptions<AnyZodObject>,
+    ): Promise<unknown> => {
+      if (!instructionOrOptions) {
+        return traceCall('extract', undefined, () => page.extract());
+      }
+      const extractOptions =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      return traceCall('extract', extractOptions, () =>
+        page.extract(extractOptions),
+      );
+    };
+
+    return override(stagehand, {
+      page: override(page, {
+        act,
+        observe,
+        extract: extract as Page['extract'],
+      }),
+    });
+  };
+
+  const run = (
+    workflowRun: () => Promise<WorkflowResult>,
+  ): Promise<WorkflowResult> =>
+    Sentry.startSpan(
+      {
+        name: `workflow ${carrierSlug}`,
+        op: 'workflow.run',
+        attributes: context,
+      },
+      async (span) => {
+        const startedAt = Date.now();
+        let result: WorkflowResult | undefined;
+        try {
+          result = await workflowRun();
+          return result;
+        } finally {
+          const calls = allCalls();
+          const outcome: StepOutcome = result?.success ? 'succeeded' : 'failed';
+          if (outcome === 'failed') {
+            span.setStatus({
+              code: SPAN_STATUS_ERROR,
+              message: result?.failureReason ?? 'internal_error',
+            });
+          }
+          log.info(`Workflow run ${outcome}`, {
+            event: 'workflow_run',
+            outcome,
+            ...(result?.failureReason && {
+              failure_reason: result.failureReason,
+            }),
+            duration_ms: Date.now() - startedAt,
+            steps: finished.map((step) => ({
+              name: step.name,
+              duration_ms: step.duration_ms,
+              outcome: step.outcome,
+            })),
+            llm_calls: calls.length,
+            cached_calls: finished.reduce(
+              (sum, step) => sum + step.cached_calls,
+              runCalls.cachedCalls,
+            ),
+            ...sumTokens(calls),
+          });
+        }
+      },
+    );
+
+  return {
+    step,
+    wrap,
+    run,
+    steps: () => [...finished],
+    llmCalls: () => allCalls().length,
+  };
+}
@@ -0,0 +1,188 @@
+import type {
+  ActOptions,
+  ActResult,
+  ExtractOptions,
+  ObserveOptions,
+  ObserveResult,
+  Page,
+  Stagehand,
+} from '@browserbasehq/stagehand';
+import type { AnyZodObject } from 'zod';
+import { override } from './stagehand-actions.js';
+import { WorkflowError } from './workflow-error.js';
+
+export interface StepTimeout {
+  /** Wrap a Stagehand instance so page calls are bounded */
+  wrap: (stagehand: Stagehand) => Stagehand;
+}
+
+/**
+ * Create the error a job is aborted with once its deadline passes
+ * @param timeoutMs - Job deadline
+ * @returns WorkflowError (timeout)
+ */
+export function jobTimeoutError(timeoutMs: number): WorkflowError {
+  return new WorkflowError(
+    'timeout',
+    `Job did not finish within ${Math.round(timeoutMs / 1000)}s`,
+  );
+}
+
+/**
+ * Get the error an aborted signal stands for
+ * @param signal - Aborted signal
+ * @returns Its reason when that is an Error (e.g. jobTimeoutError)
+ */
+export function getAbortError(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason : new Error('Operation aborted');
+}
+
+/**
+ * Settle with an operation, or reject as soon as the signal aborts
+ * The operation itself keeps running; abort is for giving up on it, e.g.
+ * before closing the browser it is waiting on
+ * @param operation - Pending operation
+ * @param signal - Abort signal; rejects with its reason
+ * @returns Result of the operation
+ */
+export function raceAbort<T>(
+  operation: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return operation;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(getAbortError(signal));
+      // Keep a late rejection of the abandoned operation from going unhandled
+      operation.catch(() => undefined);
+      return;
+    }
+
+    const onAbort = () => reject(getAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    operation.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * Settle with an operation, or reject once it takes too long
+ * @param operation - Pending operation
+ * @param timeoutMs - Time budget
+ * @param message - Error message on expiry
+ * @param signal - Optional abort signal, e.g. the job deadline
+ * @returns Result of the operation
+ * @throws WorkflowError (timeout) once the budget is spent
+ */
+export async function withTimeout<T>(
+  operation: Promise<T>,
+  timeoutMs: number,
+  message: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new WorkflowError('timeout', message)),
+    timeoutMs,
+  );
+  const onAbort = () => {
+    if (signal) {
+      controller.abort(getAbortError(signal));
+    }
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) {
+    onAbort();
+  }
+
+  try {
+    return await raceAbort(operation, controller.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Bound each act/observe/extract/goto call and fixed wait of a workflow
+ * Calls over budget fail with a timeout WorkflowError, and every pending
+ * call fails as soon as the job deadline passes, so a hung LLM or browser
+ * call cannot hold a session open
+ * @param timeoutMs - Budget per call, including step retries
+ * @param signal - Job deadline
+ * @returns Step timeout
+ */
+export function createStepTimeout(
+  timeoutMs: number,
+  signal?: AbortSignal,
+): StepTimeout {
+  const bound = async <T>(
+    method: string,
+    call: () => Promise<T>,
+  ): Promise<T> => {
+    signal?.throwIfAborted();
+    return withTimeout(
+      call(),
+      timeoutMs,
+      `Stagehand ${method} did not finish within ${Math.round(timeoutMs / 1000)}s`,
+      signal,
+    );
+  };
+
+  const wrapPage = (page: Page): Page => {
+    const act = (
+      actionOrOptions: string | ActOptions | ObserveResult,
+    ): Promise<ActResult> =>
+      bound('act', () => page.act(actionOrOptions as ActOptions));
+
+    const observe = (
+      instructionOrOptions?: string | ObserveOptions,
+    ): Promise<ObserveResult[]> => {
+      const options =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      return bound('observe', () => page.observe(options));
+    };
+
+    const extract = (
+      instructionOrOptions?: string | ExtractOptions<AnyZodObject>,
+    ): Promise<unknown> => {
+      if (!instructionOrOptions) {
+        return bound('extract', () => page.extract());
+      }
+      const options =
+        typeof instructionOrOptions === 'string'
+          ? { instruction: instructionOrOptions }
+          : instructionOrOptions;
+      return bound('extract', () => page.extract(options));
+    };
+
+    const goto: Page['goto'] = (url, options) =>
+      bound('goto', () => page.goto(url, options));
+
+    // Fixed waits only need to end early when the job is given up on
+    const waitForTimeout: Page['waitForTimeout'] = (ms) =>
+      raceAbort(page.waitForTimeout(ms), signal);
+
+    return override(page, {
+      act,
+      observe,
+      extract: extract as Page['extract'],
+      goto,
+      waitForTimeout,
+    });
+  };
+
+  return {
+    wrap: (stagehand) => {
+      const page = wrapPage(stagehand.page);
+      return override(stagehand, { page });
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { getErrorMessage } from './error-utils.js';
+import type { FailureReason, WorkflowResult } from '../types/index.js';
+
+/**
+ * Error thrown by workflows when the failure cause is known
+ * The code is reported to the Admin API as the job's failure_reason
+ */
+export class WorkflowError extends Error {
+  readonly code: FailureReason;
+
+  constructor(code: FailureReason, message: string) {
+    super(message);
+    this.name = 'WorkflowError';
+    this.code = code;
+  }
+}
+
+/**
+ * Get the failure reason for an error
+ * @param error - Caught error
+ * @returns The WorkflowError code, or 'carrier_unavailable' for anything else
+ */
+export function getFailureReason(error: unknown): FailureReason {
+  if (error instanceof WorkflowError) {
+    return error.code;
+  }
+  return 'carrier_unavailable';
+}
+
+/**
+ * Build a failed workflow result from a caught error
+ * @param error - Caught error
+ * @returns Failed WorkflowResult carrying the error message and reason
+ */
+export function failedResult(error: unknown): WorkflowResult {
+  return {
+    success: false,
+    statements: [],
+    error: getErrorMessage(error),
+    failureReason: getFailureReason(error),
+  };
+}
@@ -4,17 +4,38 @@ import express from 'express';
 import cors from 'cors';
 import { config } from './config/index.js';
 import { authenticateApiKey } from './middleware/auth.js';
-import { processStatements } from './services/statement-processor.js';
+import { createJobStore } from './lib/job-store.js';
+import { getAccountingPeriod } from './lib/statement-date.js';
+import { getErrorMessage } from './lib/error-utils.js';
+import { logger } from './lib/logger.js';
+import { metricsRegistry } from './lib/metrics.js';
+import { submitMfaCode } from './lib/mfa.js';
+import { listCarriers, toCarrierResponse } from './lib/carrier-registry.js';
+import { createJobQueue, toJobStatusResponse } from './services/job-queue.js';
+import { processJob } from './services/job-processor.js';
 import * as adminApi from './services/admin-api-client.js';
-import * as workflow from './services/workflow-manager.js';
 import type {
   FetchStatementsRequest,
   FetchStatementsResponse,
+  CarriersResponse,
   ErrorResponse,
+  SubmitMfaCodeRequest,
+  SubmitMfaCodeResponse,
 } from './types/index.js';
 
 const app = express();
 
+const jobQueue = createJobQueue({
+  store: createJobStore(config.jobs.dataDir),
+  runJob: processJob,
+  reportStatus: adminApi.updateJobStatus,
+  concurrency: config.jobs.concurrency,
+  pollIntervalMs: config.jobs.pollIntervalMs,
+  maxAttempts: config.jobs.maxAttempts,
+  retentionMs: config.jobs.retentionMs,
+  log: logger,
+});
+
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -24,9 +45,20 @@ app.get('/health', (req, res) => {
   res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Prometheus metrics
+app.get('/metrics', (req, res, next) => {
+  metricsRegistry
+    .metrics()
+    .then((metrics) => {
+      res.set('Content-Type', metricsRegistry.contentType);
+      res.end(metrics);
+    })
+    .catch(next);
+});
+
 // Start job workflow
-app.post('/api/v1/jobs', authenticateApiKey, (req, res) => {
-  const { job_id, credential, accounting_period_start_date } =
+app.post('/api/v1/jobs', authenticateApiKey, (req, res, next) => {
+  const { job_id, credential, credential_id, accounting_period_start_date } =
     req.body as FetchStatementsRequest;
 
   if (!job_id) {
@@ -36,7 +68,20 @@ app.post('/api/v1/jobs', authenticateApiKey, (req, res) => {
     return;
   }
 
-  if (
+  if (credential_id !== undefined) {
+    if (typeof credential_id !== 'string' || !credential_id) {
+      res.status(400).json({
+        error: 'Invalid credential_id: expected a non-empty string',
+      } as ErrorResponse);
+      return;
+    }
+    if (config.credentials.provider === 'none') {
+      res.status(400).json({
+        error: 'credential_id is not supported: no CREDENTIAL_PROVIDER set',
+      } as ErrorResponse);
+      return;
+    }
+  } else if (
     !credential ||
     !credential.username ||
     !credential.password ||
@@ -44,7 +89,7 @@ app.post('/api/v1/jobs', authenticateApiKey, (req, res) => {
   ) {
     res.status(400).json({
       error:
-        'Missing required field: credential (must include username, password, and login_url)',
+        'Missing required field: credential (must include username, password, and login_url) or credential_id',
     } as ErrorResponse);
     return;
   }
@@ -56,73 +101,85 @@ app.post('/api/v1/jobs', authenticateApiKey, (req, res) => {
     return;
   }
 
-  const response: FetchStatementsResponse = {
-    message: 'Job accepted for processing',
-    job_id,
-  };
-  res.status(202).json(response);
-
-  void processJobAsync(req.body as FetchStatementsRequest);
-});
-
-async function processJobAsync(job: FetchStatementsRequest): Promise<void> {
-  const {
-    job_id: jobId,
-    credential,
-    accounting_period_start_date: accountingPeriodStartDate,
-  } = job;
-
   try {
-    console.log(`[Job ${jobId}] Starting processing...`);
-
-    const carrierSlug = workflow.identify(credential.login_url);
-    console.log(`[Job ${jobId}] Identified carrier: ${carrierSlug}`);
+    getAccountingPeriod(req.body as FetchStatementsRequest);
+  } catch (error: unknown) {
+    res.status(400).json({
+      error: getErrorMessage(error),
+    } as ErrorResponse);
+    return;
+  }
 
-    const result = await workflow.run(job);
+  jobQueue
+    .enqueue(req.body as FetchStatementsRequest)
+    .then(() => {
+      const response: FetchStatementsResponse = {
+        message: 'Job accepted for processing',
+        job_id,
+      };
+      res.status(202).json(response);
+    })
+    .catch(next);
+});
 
-    if (!result.success) {
-      throw new Error(`Workflow failed: ${result.error}`);
-    }
+// Get job status
+app.get('/api/v1/jobs/:job_id', authenticateApiKey, (req, res, next) => {
+  jobQueue
+    .get(req.params.job_id)
+    .then((job) => {
+      if (!job) {
+        res.status(404).json({
+          error: `Job not found: ${req.params.job_id}`,
+        } as ErrorResponse);
+        return;
+      }
+      res.status(200).json(toJobStatusResponse(job));
+    })
+    .catch(next);
+});
 
-    console.log(
-      `[Job ${jobId}] Workflow succeeded. Found ${result.statements.length} statements.`,
-    );
-
-    const attachments = await processStatements(
-      result.statements,
-      carrierSlug,
-      accountingPeriodStartDate,
-    );
-
-    console.log(
-      `[Job ${jobId}] Processed ${attachments.length} statements after date filtering and upload.`,
-    );
-
-    if (attachments.length > 0) {
-      const adminApiResponse = await adminApi.createInboxStatements(
-        jobId,
-        attachments,
-      );
-      console.log(
-        `[Job ${jobId}] Created ${adminApiResponse.inbox_item_ids.length} inbox items via Admin API.`,
-      );
-    } else {
-      console.log(`[Job ${jobId}] No new statements found after filtering.`);
-    }
+// Deliver a one-time code to a job in awaiting_mfa
+app.post('/api/v1/jobs/:job_id/mfa', authenticateApiKey, (req, res, next) => {
+  const { job_id } = req.params;
+  const { code } = req.body as SubmitMfaCodeRequest;
 
-    await adminApi.updateJobStatus(jobId, { status: 'success' });
+  if (typeof code !== 'string' || !code.trim()) {
+    res.status(400).json({
+      error: 'Missing required field: code',
+    } as ErrorResponse);
+    return;
+  }
 
-    console.log(`[Job ${jobId}] Processing completed successfully.`);
-  } catch (error: unknown) {
-    console.error(`[Job ${jobId}] Error during processing:`, error);
-    Sentry.captureException(error);
+  jobQueue
+    .get(job_id)
+    .then((job) => {
+      if (!job) {
+        res.status(404).json({
+          error: `Job not found: ${job_id}`,
+        } as ErrorResponse);
+        return;
+      }
+      if (!submitMfaCode(job_id, code.trim())) {
+        res.status(409).json({
+          error: `Job is not awaiting an MFA code: ${job_id}`,
+        } as ErrorResponse);
+        return;
+      }
+      const response: SubmitMfaCodeResponse = {
+        message: 'MFA code accepted',
+        job_id,
+      };
+      res.status(200).json(response);
+    })
+    .catch(next);
+});
 
-    await adminApi.updateJobStatus(jobId, {
-      status: 'failed',
-      failure_reason: 'carrier_unavailable',
-    });
-  }
-}
+// List supported carriers
+app.get('/api/v1/carriers', authenticateApiKey, (req, res) => {
+  res.status(200).json({
+    carriers: listCarriers().map(toCarrierResponse),
+  } as CarriersResponse);
+});
 
 // Error middleware
 Sentry.setupExpressErrorHandler(app);
@@ -133,7 +190,11 @@ app.use(
     res: express.Response,
     _next: express.NextFunction,
   ) => {
-    console.error('Unhandled error:', err);
+    logger.error('Unhandled error', {
+      error: err,
+      method: req.method,
+      path: req.path,
+    });
     res.status(500).json({
       error: 'Internal server error',
     } as ErrorResponse);
@@ -142,8 +203,16 @@ app.use(
 
 const PORT = config.port;
 app.listen(PORT, () => {
-  console.log(`Browser workflow service running on port ${PORT}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  logger.info('Browser workflow service running', {
+    port: PORT,
+    environment: process.env.NODE_ENV || 'development',
+  });
+});
+
+jobQueue.start().catch((error: unknown) => {
+  logger.error('Failed to start job queue', { error });
+  Sentry.captureException(error);
+  process.exit(1);
 });
 
 export default app;
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { config } from '../config/index.js';
 import { getErrorMessage } from '../lib/error-utils.js';
 import type {
+  CarrierCredentials,
   CloudinaryAttachment,
   CreateInboxStatementsRequest,
   CreateInboxStatementsResponse,
@@ -79,3 +80,66 @@ export async function updateJobStatus(
     throw new Error(`Failed to update job status: ${getErrorMessage(error)}`);
   }
 }
+
+/**
+ * Ask the Admin API to collect a one-time code for a job
+ * The code is expected back on POST /api/v1/jobs/:job_id/mfa
+ * @param jobId - UUID of SupplierStatementFetchingJob
+ * @returns void
+ */
+export async function requestMfaCode(jobId: string): Promise<void> {
+  const url = `${config.adminApi.baseUrl}/internal/supplier_statement_fetching_jobs_admin/${encodeURIComponent(jobId)}/request_mfa_code`;
+
+  try {
+    await axios.post(
+      url,
+      {},
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.adminApi.apiKey}`,
+        },
+        timeout: 30000,
+      },
+    );
+  } catch (error: unknown) {
+    if (axios.isAxiosError(error) && error.response) {
+      throw new Error(
+        `Admin API error: ${error.response.status} ${error.response.statusText} - ${JSON.stringify(error.response.data)}`,
+      );
+    }
+    throw new Error(`Failed to request MFA code: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Fetch carrier credentials via Admin API
+ * @param credentialId - ID of the stored carrier credential
+ * @returns Credentials, or null if the Admin API has no such credential
+ */
+export async function getCredential(
+  credentialId: string,
+): Promise<CarrierCredentials | null> {
+  const url = `${config.adminApi.baseUrl}/internal/carrier_credentials/${encodeURIComponent(credentialId)}`;
+
+  try {
+    const response = await axios.get<CarrierCredentials>(url, {
+      headers: {
+        Authorization: `Bearer ${config.adminApi.apiKey}`,
+      },
+      timeout: 30000,
+    });
+
+    return response.data;
+  } catch (error: unknown) {
+    if (axios.isAxiosError(error) && error.response) {
+      if (error.response.status === 404) {
+        return null;
+      }
+      throw new Error(
+        `Admin API error: ${error.response.status} ${error.response.statusText}`,
+      );
+    }
+    throw new Error(`Failed to fetch credential: ${getErrorMessage(error)}`);
+  }
+}
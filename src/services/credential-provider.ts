@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import * as adminApi from './admin-api-client.js';
+import {
+  decryptJson,
+  encryptJson,
+  type EncryptedJson,
+} from '../lib/encryption.js';
+import { WorkflowError } from '../lib/workflow-error.js';
+import type {
+  AppConfig,
+  CarrierCredentials,
+  FetchStatementsRequest,
+} from '../types/index.js';
+
+/**
+ * Resolves a job's credential_id to the carrier credentials
+ */
+export interface CredentialProvider {
+  /**
+   * @param credentialId - ID from the job request
+   * @returns Credentials, or null if the ID is unknown
+   */
+  get: (credentialId: string) => Promise<CarrierCredentials | null>;
+}
+
+type CredentialMap = Record<string, CarrierCredentials>;
+
+/**
+ * Read and decrypt a credentials file
+ * @param filePath - Credentials file
+ * @param secret - Passphrase the file is encrypted with
+ * @returns Credentials by ID; empty if the file does not exist
+ * @throws Error if the passphrase is wrong or the file was tampered with
+ */
+export async function readCredentialFile(
+  filePath: string,
+  secret: string,
+): Promise<CredentialMap> {
+  let file: EncryptedJson;
+  try {
+    file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as EncryptedJson;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  try {
+    return decryptJson<CredentialMap>(file, secret);
+  } catch {
+    throw new Error(`Could not decrypt credentials file: ${filePath}`);
+  }
+}
+
+/**
+ * Encrypt and write a credentials file, replacing its contents
+ * @param filePath - Credentials file
+ * @param secret - Passphrase to encrypt with
+ * @param credentials - Credentials by ID
+ */
+export async function writeCredentialFile(
+  filePath: string,
+  secret: string,
+  credentials: CredentialMap,
+): Promise<void> {
+  const file = encryptJson(credentials, secret);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Resolve credentials from an encrypted local file
+ * The file is read on every lookup, so edits apply without a restart
+ * @param filePath - Credentials file (see writeCredentialFile)
+ * @param secret - Passphrase the file is encrypted with
+ * @returns Credential provider
+ */
+export function createFileCredentialProvider(
+  filePath: string,
+  secret: string,
+): CredentialProvider {
+  return {
+    get: async (credentialId) => {
+      const credentials = await readCredentialFile(filePath, secret);
+      return Object.hasOwn(credentials, credentialId)
+        ? credentials[credentialId]
+        : null;
+    },
+  };
+}
+
+/**
+ * Resolve credentials by calling back the Admin API when the job runs
+ * @returns Credential provider
+ */
+export function createAdminApiCredentialProvider(): CredentialProvider {
+  return { get: adminApi.getCredential };
+}
+
+/**
+ * Create the provider for the configured CREDENTIAL_PROVIDER
+ * @param settings - Credentials config
+ * @returns Credential provider, or null when credential_id is not supported
+ */
+export function createCredentialProvider(
+  settings: AppConfig['credentials'],
+): CredentialProvider | null {
+  switch (settings.provider) {
+    case 'none':
+      return null;
+    case 'file':
+      if (!settings.secret) {
+        throw new Error('File credential provider requires CREDENTIALS_SECRET');
+      }
+      return createFileCredentialProvider(settings.filePath, settings.secret);
+    case 'admin_api':
+      return createAdminApiCredentialProvider();
+  }
+}
+
+let configuredProvider: CredentialProvider | null | undefined;
+
+function getConfiguredProvider(): CredentialProvider | null {
+  configuredProvider ??= createCredentialProvider(config.credentials);
+  return configuredProvider;
+}
+
+/**
+ * Get the credentials a job logs in with
+ * A credential_id is resolved through the provider; otherwise the inline
+ * credential is used
+ * @param request - Job request
+ * @param provider - Provider to use (defaults to the configured one)
+ * @returns Carrier credentials
+ * @throws WorkflowError (invalid_credentials) if the credentials are missing
+ *   or the credential_id is unknown
+ */
+export async function resolveCredential(
+  request: Pick<FetchStatementsRequest, 'credential' | 'credential_id'>,
+  provider?: CredentialProvider | null,
+): Promise<CarrierCredentials> {
+  const { credential, credential_id: credentialId } = request;
+
+  if (!credentialId) {
+    if (!credential) {
+      throw new WorkflowError(
+        'invalid_credentials',
+        'Job has neither credential nor credential_id',
+      );
+    }
+    return credential;
+  }
+
+  const credentialProvider =
+    provider === undefined ? getConfiguredProvider() : provider;
+  if (!credentialProvider) {
+    throw new WorkflowError(
+      'invalid_credentials',
+      'credential_id requires a CREDENTIAL_PROVIDER',
+    );
+  }
+
+  const resolved = await credentialProvider.get(credentialId);
+  if (!resolved) {
+    throw new WorkflowError(
+      'invalid_credentials',
+      `Credential not found: ${credentialId}`,
+    );
+  }
+  return resolved;
+}
@@ -0,0 +1,213 @@
+import * as Sentry from '@sentry/node';
+import { processStatements } from './statement-processor.js';
+import * as adminApi from './admin-api-client.js';
+import * as workflow from './workflow-manager.js';
+import { resolveCredential } from './credential-provider.js';
+import { config } from '../config/index.js';
+import { getErrorMessage } from '../lib/error-utils.js';
+import { logger, type Logger } from '../lib/logger.js';
+import { timeWorkflow } from '../lib/metrics.js';
+import { registerMfaHandler, waitForMfaCode } from '../lib/mfa.js';
+import { registerSecrets } from '../lib/redaction.js';
+import { WorkflowError, getFailureReason } from '../lib/workflow-error.js';
+import { getAccountingPeriod } from '../lib/statement-date.js';
+import { jobTimeoutError, raceAbort } from '../lib/timeout.js';
+import type {
+  FailureArtifact,
+  JobOutcome,
+  JobProgress,
+  JobRecord,
+  RetryCounts,
+} from '../types/index.js';
+
+/**
+ * Obtain a one-time code the portal sent by SMS or email
+ * The job enters awaiting_mfa, the Admin API is asked to collect the code,
+ * and the code is delivered through POST /api/v1/jobs/:job_id/mfa
+ * @param jobId - Job ID
+ * @param reportProgress - Persists lifecycle updates for the status endpoint
+ * @param signal - Job deadline
+ * @param log - Logger bound to the job
+ * @returns Submitted code
+ * @throws WorkflowError (requires_mfa) if no code arrives in time, or
+ *   (timeout) if the job deadline passes first
+ */
+async function awaitMfaCode(
+  jobId: string,
+  reportProgress: (progress: JobProgress) => Promise<void>,
+  signal: AbortSignal,
+  log: Logger,
+): Promise<string> {
+  log.info('Portal requested a one-time code, waiting');
+  await reportProgress({ state: 'awaiting_mfa' });
+  // Wait before asking, so a code submitted right away is not missed
+  const code = waitForMfaCode(jobId, config.jobs.mfaTimeoutMs, signal);
+
+  try {
+    await adminApi.requestMfaCode(jobId);
+  } catch (error: unknown) {
+    log.warn(
+      'Failed to request the code; it can still be submitted to the MFA endpoint',
+      { error: getErrorMessage(error) },
+    );
+  }
+
+  try {
+    return await code;
+  } finally {
+    // A job past its deadline is finishing as failed; leave its state alone
+    if (!signal.aborted) {
+      await reportProgress({ state: 'running' });
+    }
+  }
+}
+
+/**
+ * Run a job: execute the carrier workflow, upload statements and create
+ * inbox items. Never throws; failures are returned as a failed outcome whose
+ * failure_reason comes from the workflow (see WorkflowError). The job's
+ * credentials are redacted from logs, errors and Sentry events while it runs,
+ * and one-time code prompts without a TOTP seed are answered out of band.
+ * The job must finish within JOB_TIMEOUT_MS; past that the workflow or the
+ * upload is given up on, the browser session closed and the job failed with
+ * `timeout`. Statements
+ * that still fail to upload after retries fail the job once the others are
+ * in the inbox. Log lines carry the job_id and, once identified, the carrier.
+ * @param job - Claimed job record
+ * @param reportProgress - Persists lifecycle updates for the status endpoint
+ * @returns Outcome to persist and report to the Admin API
+ */
+export async function processJob(
+  job: JobRecord,
+  reportProgress: (progress: JobProgress) => Promise<void>,
+): Promise<JobOutcome> {
+  const { job_id: jobId } = job.request;
+  let log = logger.child({ job_id: jobId });
+  let forgetSecrets: (() => void) | undefined;
+  let failureArtifacts: FailureArtifact[] = [];
+  const deadline = new AbortController();
+  const deadlineTimer = setTimeout(
+    () => deadline.abort(jobTimeoutError(config.jobs.timeoutMs)),
+    config.jobs.timeoutMs,
+  );
+  const forgetMfaHandler = registerMfaHandler(jobId, () =>
+    awaitMfaCode(jobId, reportProgress, deadline.signal, log),
+  );
+
+  try {
+    log.info('Starting processing', { attempt: job.attempts });
+
+    const credential = await resolveCredential(job.request);
+    forgetSecrets = registerSecrets([
+      credential.username,
+      credential.password,
+      credential.totp_secret,
+    ]);
+
+    const carrierSlug = workflow.identify(credential.login_url);
+    log = log.child({ carrier: carrierSlug });
+    log.info('Identified carrier');
+    await reportProgress({ carrier_slug: carrierSlug });
+
+    const result = await timeWorkflow(carrierSlug, () =>
+      raceAbort(
+        workflow.run({ ...job.request, credential }, deadline.signal, log),
+        deadline.signal,
+      ),
+    );
+    const retryCounts: RetryCounts = {
+      workflow_attempts: result.attempts ?? 1,
+      step_retries: result.stepRetries ?? 0,
+      upload_retries: 0,
+    };
+    await reportProgress({
+      ...(result.model && { llm_model: result.model }),
+      ...(result.fallbackModel && {
+        llm_fallback_model: result.fallbackModel,
+      }),
+      retry_counts: { ...retryCounts },
+      ...(result.artifacts &&
+        result.artifacts.length > 0 && {
+          failure_artifacts: result.artifacts,
+        }),
+    });
+    failureArtifacts = result.artifacts ?? [];
+
+    if (!result.success) {
+      throw new WorkflowError(
+        result.failureReason ?? 'carrier_unavailable',
+        `Workflow failed: ${result.error}`,
+      );
+    }
+
+    log.info('Workflow succeeded', {
+      statement_count: result.statements.length,
+    });
+    await reportProgress({
+      state: 'uploading',
+      statement_count: result.statements.length,
+    });
+
+    const failedStatementDates: string[] = [];
+    const attachments = await processStatements(
+      result.statements,
+      carrierSlug,
+      getAccountingPeriod(job.request),
+      {
+        onRetry: () => {
+          retryCounts.upload_retries++;
+        },
+        onFailure: (statement) => {
+          failedStatementDates.push(statement.statementDate);
+        },
+        log,
+        signal: deadline.signal,
+      },
+    );
+
+    log.info('Processed statements after date filtering and upload', {
+      attachment_count: attachments.length,
+    });
+    await reportProgress({ attachments, retry_counts: { ...retryCounts } });
+
+    if (attachments.length > 0) {
+      const adminApiResponse = await raceAbort(
+        adminApi.createInboxStatements(jobId, attachments),
+        deadline.signal,
+      );
+      log.info('Created inbox items via Admin API', {
+        inbox_item_count: adminApiResponse.inbox_item_ids.length,
+      });
+    } else if (failedStatementDates.length === 0) {
+      log.info('No new statements found after filtering');
+    }
+
+    // Statements that did upload are in the inbox; fail for the rest
+    if (failedStatementDates.length > 0) {
+      throw new Error(
+        `${failedStatementDates.length} of ${failedStatementDates.length + attachments.length} statements failed to upload: ${failedStatementDates.join(', ')}`,
+      );
+    }
+
+    log.info('Processing completed successfully');
+
+    return { status_update: { status: 'success' } };
+  } catch (error: unknown) {
+    log.error('Error during processing', { error });
+    Sentry.captureException(error, {
+      extra: { failure_artifacts: failureArtifacts.map(({ url }) => url) },
+    });
+
+    return {
+      status_update: {
+        status: 'failed',
+        failure_reason: getFailureReason(error),
+      },
+      error: getErrorMessage(error),
+    };
+  } finally {
+    clearTimeout(deadlineTimer);
+    forgetSecrets?.();
+    forgetMfaHandler();
+  }
+}
@@ -0,0 +1,366 @@
+import * as Sentry from '@sentry/node';
+import { getErrorMessage } from '../lib/error-utils.js';
+import type { JobStore } from '../lib/job-store.js';
+import { logger, type Logger } from '../lib/logger.js';
+import { recordJobAccepted, recordJobFinished } from '../lib/metrics.js';
+import type {
+  FetchStatementsRequest,
+  JobOutcome,
+  JobProgress,
+  JobRecord,
+  JobStatusResponse,
+  UpdateJobStatusRequest,
+} from '../types/index.js';
+
+const REPORT_BACKOFF_BASE_MS = 5000;
+const REPORT_BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+export interface JobQueueOptions {
+  store: JobStore;
+  /** Runs a claimed job and resolves with the outcome to report */
+  runJob: (
+    job: JobRecord,
+    reportProgress: (progress: JobProgress) => Promise<void>,
+  ) => Promise<JobOutcome>;
+  /** Reports a finished job's status to the Admin API */
+  reportStatus: (
+    jobId: string,
+    statusUpdate: UpdateJobStatusRequest,
+  ) => Promise<void>;
+  concurrency: number;
+  pollIntervalMs: number;
+  /** Jobs interrupted this many times are failed instead of re-queued */
+  maxAttempts: number;
+  /** Reported jobs are deleted this long after their status was sent */
+  retentionMs: number;
+  /** Defaults to the service logger; job lines carry job_id */
+  log?: Logger;
+}
+
+export interface JobQueue {
+  /** Persist a job; resolves with the existing record if already accepted */
+  enqueue: (request: FetchStatementsRequest) => Promise<JobRecord>;
+  get: (jobId: string) => Promise<JobRecord | null>;
+  /** Recover orphaned jobs and start the worker loop */
+  start: () => Promise<void>;
+  /** Stop claiming jobs and wait for in-flight ones to finish */
+  stop: () => Promise<void>;
+}
+
+/**
+ * Calculate when to retry a failed status report
+ * @param reportAttempts - Number of failed report attempts so far
+ * @returns ISO timestamp of the next attempt
+ */
+function nextReportAt(reportAttempts: number): string {
+  const delay = Math.min(
+    REPORT_BACKOFF_BASE_MS * 2 ** (reportAttempts - 1),
+    REPORT_BACKOFF_MAX_MS,
+  );
+  return new Date(Date.now() + delay).toISOString();
+}
+
+/**
+ * Map a job record to the public status response
+ * Omits the original request so credentials are never echoed back
+ * @param job - Job record
+ * @returns Job status response
+ */
+export function toJobStatusResponse(job: JobRecord): JobStatusResponse {
+  return {
+    job_id: job.job_id,
+    state: job.state,
+    carrier_slug: job.carrier_slug,
+    llm_model: job.llm_model,
+    llm_fallback_model: job.llm_fallback_model,
+    attempts: job.attempts,
+    timestamps: {
+      queued_at: job.created_at,
+      started_at: job.started_at,
+      uploading_at: job.uploading_at,
+      finished_at: job.finished_at,
+    },
+    statement_count: job.statement_count,
+    attachments: job.attachments ?? [],
+    retry_counts: job.retry_counts,
+    failure_artifacts: job.failure_artifacts,
+    failure_reason: job.status_update?.failure_reason,
+    error: job.error,
+    reported_at: job.reported_at,
+  };
+}
+
+function isTerminal(job: JobRecord): boolean {
+  return job.state === 'succeeded' || job.state === 'failed';
+}
+
+function isExpired(job: JobRecord, retentionMs: number): boolean {
+  return (
+    !!job.reported_at && Date.parse(job.reported_at) + retentionMs <= Date.now()
+  );
+}
+
+/**
+ * Drop a finished job's inline credential, which is only needed to run it
+ * @param request - Job request
+ * @returns Request safe to keep on disk
+ */
+function withoutCredential(
+  request: FetchStatementsRequest,
+): FetchStatementsRequest {
+  return { ...request, credential: undefined };
+}
+
+function isReportDue(job: JobRecord): boolean {
+  return (
+    isTerminal(job) &&
+    !job.reported_at &&
+    (!job.next_report_at || new Date(job.next_report_at) <= new Date())
+  );
+}
+
+/**
+ * Creates a durable job queue backed by a job store
+ *
+ * Jobs are persisted before being acknowledged, claimed by a polling worker
+ * loop and only considered done once their final status has been reported.
+ * Finished jobs no longer keep their inline credential, and reported ones
+ * are deleted after `retentionMs`. On start, jobs left `running` by a
+ * previous process are re-queued (or failed after `maxAttempts`), jobs left
+ * `uploading` are failed rather than run again (their statements may already
+ * be in the inbox), and unreported results are re-sent.
+ *
+ * @param options - Queue configuration
+ * @returns Job queue instance
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const { store, runJob, reportStatus, concurrency, pollIntervalMs } = options;
+  const log = options.log ?? logger;
+  const jobLog = (jobId: string) => log.child({ job_id: jobId });
+  const active = new Map<string, Promise<void>>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+  let ticking = false;
+  let tickRequested = false;
+
+  const report = async (job: JobRecord): Promise<void> => {
+    if (!job.status_update) {
+      return;
+    }
+
+    try {
+      await reportStatus(job.job_id, job.status_update);
+      await store.save({
+        ...job,
+        reported_at: new Date().toISOString(),
+        next_report_at: undefined,
+      });
+    } catch (error: unknown) {
+      const reportAttempts = (job.report_attempts ?? 0) + 1;
+      jobLog(job.job_id).error('Failed to report status', {
+        report_attempts: reportAttempts,
+        error: getErrorMessage(error),
+      });
+      await store.save({
+        ...job,
+        report_attempts: reportAttempts,
+        next_report_at: nextReportAt(reportAttempts),
+      });
+    }
+  };
+
+  const execute = async (queued: JobRecord): Promise<void> => {
+    let job = await store.save({
+      ...queued,
+      state: 'running',
+      attempts: queued.attempts + 1,
+      started_at: new Date().toISOString(),
+      uploading_at: undefined,
+    });
+
+    const reportProgress = async (progress: JobProgress): Promise<void> => {
+      job = await store.save({
+        ...job,
+        ...progress,
+        ...(progress.state === 'uploading' && {
+          uploading_at: new Date().toISOString(),
+        }),
+      });
+    };
+
+    let outcome: JobOutcome;
+    try {
+      outcome = await runJob(job, reportProgress);
+    } catch (error: unknown) {
+      jobLog(job.job_id).error('Unhandled error', { error });
+      Sentry.captureException(error);
+      outcome = {
+        status_update: {
+          status: 'failed',
+          failure_reason: 'carrier_unavailable',
+        },
+        error: getErrorMessage(error),
+      };
+    }
+
+    const finished = await store.save({
+      ...job,
+      request: withoutCredential(job.request),
+      state:
+        outcome.status_update.status === 'success' ? 'succeeded' : 'failed',
+      status_update: outcome.status_update,
+      error: outcome.error,
+      finished_at: new Date().toISOString(),
+    });
+    recordJobFinished(finished);
+
+    await report(finished);
+  };
+
+  const claim = (job: JobRecord): void => {
+    const promise = execute(job)
+      .catch((error: unknown) => {
+        jobLog(job.job_id).error('Worker error', { error });
+        Sentry.captureException(error);
+      })
+      .finally(() => {
+        active.delete(job.job_id);
+        requestTick();
+      });
+    active.set(job.job_id, promise);
+  };
+
+  const tick = async (): Promise<void> => {
+    const jobs = await store.list();
+
+    for (const job of jobs) {
+      if (active.has(job.job_id)) {
+        continue;
+      }
+      if (isReportDue(job)) {
+        await report(job);
+      } else if (isExpired(job, options.retentionMs)) {
+        await store.remove(job.job_id);
+      }
+    }
+
+    for (const job of jobs) {
+      if (!running || active.size >= concurrency) {
+        break;
+      }
+      if (job.state === 'queued' && !active.has(job.job_id)) {
+        claim(job);
+      }
+    }
+  };
+
+  const requestTick = (): void => {
+    if (!running) {
+      return;
+    }
+    if (ticking) {
+      tickRequested = true;
+      return;
+    }
+
+    clearTimeout(timer);
+    ticking = true;
+    tick()
+      .catch((error: unknown) => {
+        log.error('Job queue tick failed', { error });
+        Sentry.captureException(error);
+      })
+      .finally(() => {
+        ticking = false;
+        if (tickRequested) {
+          tickRequested = false;
+          requestTick();
+        } else if (running) {
+          timer = setTimeout(requestTick, pollIntervalMs);
+        }
+      });
+  };
+
+  const failInterrupted = async (
+    job: JobRecord,
+    error: string,
+  ): Promise<void> => {
+    recordJobFinished(
+      await store.save({
+        ...job,
+        request: withoutCredential(job.request),
+        state: 'failed',
+        error,
+        finished_at: new Date().toISOString(),
+        status_update: {
+          status: 'failed',
+          failure_reason: 'carrier_unavailable',
+        },
+      }),
+    );
+  };
+
+  const recover = async (): Promise<void> => {
+    const jobs = await store.list();
+
+    for (const job of jobs) {
+      // Re-running the workflow could create duplicate inbox items
+      if (job.state === 'uploading') {
+        jobLog(job.job_id).error(
+          'Job interrupted while uploading, marking as failed',
+        );
+        await failInterrupted(
+          job,
+          'Job interrupted while uploading statements',
+        );
+        continue;
+      }
+
+      // A job awaiting MFA lost its browser session with the process
+      if (job.state !== 'running' && job.state !== 'awaiting_mfa') {
+        continue;
+      }
+
+      if (job.attempts >= options.maxAttempts) {
+        jobLog(job.job_id).error(
+          'Job interrupted too often, marking as failed',
+          {
+            attempts: job.attempts,
+          },
+        );
+        await failInterrupted(job, `Job interrupted ${job.attempts} times`);
+      } else {
+        jobLog(job.job_id).info('Re-queuing orphaned job');
+        await store.save({ ...job, state: 'queued' });
+      }
+    }
+  };
+
+  return {
+    enqueue: async (request) => {
+      const existing = await store.get(request.job_id);
+      if (existing) {
+        return existing;
+      }
+
+      const job = await store.create(request);
+      recordJobAccepted(request);
+      requestTick();
+      return job;
+    },
+
+    get: (jobId) => store.get(jobId),
+
+    start: async () => {
+      await recover();
+      running = true;
+      requestTick();
+    },
+
+    stop: async () => {
+      running = false;
+      clearTimeout(timer);
+      await Promise.all(active.values());
+    },
+  };
+}
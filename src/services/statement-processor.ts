@@ -1,56 +1,69 @@
 import { downloadPdf, extractFilename } from '../lib/pdf-downloader.js';
-import { uploadPdf } from '../lib/cloudinary-service.js';
+import { uploadStatementFile } from '../lib/cloudinary-service.js';
+import { validateStatementFile, withExtension } from '../lib/file-type.js';
 import { getErrorMessage } from '../lib/error-utils.js';
+import { logger, type Logger } from '../lib/logger.js';
+import {
+  getCarrierLabel,
+  statementsFilteredOut,
+  statementsFound,
+  statementsUploaded,
+  timeStatementTransfer,
+  type StatementTransfer,
+} from '../lib/metrics.js';
+import { withRetry } from '../lib/retry.js';
+import { config } from '../config/index.js';
+import { isWithinPeriod, parseStatementDate } from '../lib/statement-date.js';
 import type {
+  AccountingPeriod,
   Statement,
   CloudinaryAttachment,
   CarrierSlug,
 } from '../types/index.js';
 
 /**
- * Filter statements by accounting period start date
+ * Filter statements to those inside the accounting period (inclusive)
  * @param statements - Array of statements from workflow
- * @param accountingPeriodStartDate - ISO date string (YYYY-MM-DD)
+ * @param period - Accounting period with ISO start and optional end date
  * @returns Filtered statements
+ * @throws Error if a statement date cannot be parsed
  */
 export function filterStatementsByDate(
   statements: Statement[],
-  accountingPeriodStartDate: string,
+  period: AccountingPeriod,
 ): Statement[] {
-  const cutoffDate = new Date(accountingPeriodStartDate);
-
-  return statements.filter((statement) => {
-    const statementDate = new Date(statement.statementDate);
-    return statementDate > cutoffDate;
-  });
+  return statements.filter((statement) =>
+    isWithinPeriod(parseStatementDate(statement.statementDate), period),
+  );
 }
 
-/**
- * Validate that a buffer contains a valid PDF
- * @param buffer - Buffer to validate
- * @throws Error if buffer is not a valid PDF
- */
-function validatePdfBuffer(buffer: Buffer): void {
-  if (!buffer || buffer.length === 0) {
-    throw new Error('PDF buffer is empty or null');
-  }
-  const header = buffer.slice(0, 4).toString('ascii');
-  if (header !== '%PDF') {
-    throw new Error(
-      `Invalid PDF: expected header "%PDF" but got "${header}" (bytes: ${buffer.slice(0, 4).join(' ')})`,
-    );
-  }
+export interface ProcessStatementOptions {
+  /** Called before each retried download or upload */
+  onRetry?: () => void;
+  /** Called for each statement that could not be uploaded, after retries */
+  onFailure?: (statement: Statement, error: unknown) => void;
+  /** Logger bound to the job; defaults to the service logger */
+  log?: Logger;
+  /** Job deadline; transfers and retry waits stop once it aborts */
+  signal?: AbortSignal;
 }
 
 /**
  * Process and upload a single statement to Cloudinary
+ * The file type (PDF, XLSX, XLS, CSV) is detected from the file contents and
+ * determines the filename extension, Cloudinary format and content type.
+ * Downloads and uploads are retried with backoff (UPLOAD_RETRY_ATTEMPTS);
+ * files failing validation are not. Each attempt's latency and failure is
+ * recorded in the transfer metrics.
  * @param statement - Statement to process
  * @param carrierSlug - Carrier slug in reverse domain notation
+ * @param options - Retry callback, logger and deadline
  * @returns Cloudinary attachment metadata
  */
 export async function processStatement(
   statement: Statement,
   carrierSlug: CarrierSlug,
+  options: ProcessStatementOptions = {},
 ): Promise<CloudinaryAttachment> {
   const { fileBuffer: buffer, pdfUrl, filename: statementFilename } = statement;
 
@@ -58,39 +71,73 @@ export async function processStatement(
     throw new Error('Statement has neither pdfUrl nor fileBuffer');
   }
 
-  const pdfBuffer = buffer || (await downloadPdf(pdfUrl!));
-  const filename = buffer
-    ? statementFilename || 'statement.pdf'
-    : extractFilename(pdfUrl!);
+  const log = options.log ?? logger;
+  const retry = <T>(
+    step: StatementTransfer,
+    operation: () => Promise<T>,
+  ): Promise<T> =>
+    withRetry(
+      () => timeStatementTransfer(carrierSlug, step, operation),
+      config.retry.upload,
+      {
+        signal: options.signal,
+        onRetry: (error, attempt, delayMs) => {
+          options.onRetry?.();
+          log.warn(`Statement ${step} failed, retrying`, {
+            statement_date: statement.statementDate,
+            attempt,
+            max_attempts: config.retry.upload.attempts,
+            delay_ms: delayMs,
+            error: getErrorMessage(error),
+          });
+        },
+      },
+    );
 
-  validatePdfBuffer(pdfBuffer);
+  const fileBuffer =
+    buffer || (await retry('download', () => downloadPdf(pdfUrl!)));
+  const fileType = validateStatementFile(fileBuffer);
+  const filename = withExtension(
+    buffer ? statementFilename || 'statement' : extractFilename(pdfUrl!),
+    fileType.extension,
+  );
 
-  return uploadPdf(pdfBuffer, {
-    carrierName: carrierSlug,
-    filename,
-    metadata: {
-      statement_date: statement.statementDate,
-      carrier: carrierSlug,
-    },
-  });
+  return retry('upload', () =>
+    uploadStatementFile(fileBuffer, {
+      carrierName: carrierSlug,
+      filename,
+      format: fileType.extension,
+      contentType: fileType.mimeType,
+      metadata: {
+        statement_date: statement.statementDate,
+        carrier: carrierSlug,
+      },
+    }),
+  );
 }
 
 /**
  * Process multiple statements
  * @param statements - Array of statements
  * @param carrierSlug - Carrier slug in reverse domain notation
- * @param accountingPeriodStartDate - ISO date string to filter statements
- * @returns Array of Cloudinary attachments
+ * @param period - Accounting period to filter statements
+ * @param options - Retry and failure callbacks, logger and deadline
+ * @returns Array of Cloudinary attachments; failed statements are left out
+ * @throws The signal's reason once it aborts
  */
 export async function processStatements(
   statements: Statement[],
   carrierSlug: CarrierSlug,
-  accountingPeriodStartDate: string,
+  period: AccountingPeriod,
+  options: ProcessStatementOptions = {},
 ): Promise<CloudinaryAttachment[]> {
   // Filter statements by date
-  const filteredStatements = filterStatementsByDate(
-    statements,
-    accountingPeriodStartDate,
+  const filteredStatements = filterStatementsByDate(statements, period);
+  const carrier = getCarrierLabel(carrierSlug);
+  statementsFound.inc({ carrier }, statements.length);
+  statementsFilteredOut.inc(
+    { carrier },
+    statements.length - filteredStatements.length,
   );
 
   if (filteredStatements.length === 0) {
@@ -102,16 +149,25 @@ export async function processStatements(
 
   for (const statement of filteredStatements) {
     try {
-      const attachment = await processStatement(statement, carrierSlug);
+      const attachment = await processStatement(
+        statement,
+        carrierSlug,
+        options,
+      );
       attachments.push(attachment);
     } catch (error: unknown) {
-      console.error(
-        `Failed to process statement for ${statement.statementDate}:`,
-        getErrorMessage(error),
-      );
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      (options.log ?? logger).error('Failed to process statement', {
+        statement_date: statement.statementDate,
+        error: getErrorMessage(error),
+      });
+      options.onFailure?.(statement, error);
       // Continue processing other statements
     }
   }
 
+  statementsUploaded.inc({ carrier }, attachments.length);
   return attachments;
 }
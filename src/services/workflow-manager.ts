@@ -1,30 +1,99 @@
 import * as Sentry from '@sentry/node';
 import type { Stagehand } from '@browserbasehq/stagehand';
-import { createStagehandClient } from '../lib/stagehand-client.js';
+import { config } from '../config/index.js';
+import {
+  createStagehandClient,
+  type StagehandClient,
+} from '../lib/stagehand-client.js';
+import { createSessionLimiter } from '../lib/session-limiter.js';
+import {
+  createSessionStateStore,
+  getSessionStateKey,
+  restoreSessionState,
+} from '../lib/session-state.js';
 import { getErrorMessage } from '../lib/error-utils.js';
+import { logger, type Logger } from '../lib/logger.js';
+import {
+  createArtifactStore,
+  saveArtifacts,
+} from '../lib/failure-artifacts.js';
+import { getRetryDelay, sleep } from '../lib/retry.js';
+import { activeBrowserSessions } from '../lib/metrics.js';
+import {
+  createStepTracer,
+  type StepTracer,
+  type WorkflowTracer,
+} from '../lib/step-tracer.js';
+import { raceAbort, withTimeout } from '../lib/timeout.js';
+import { failedResult, getFailureReason } from '../lib/workflow-error.js';
+import { parseStatementDate } from '../lib/statement-date.js';
+import { findCarrier, findCarrierByHostname } from '../lib/carrier-registry.js';
 import type {
+  Carrier,
   CarrierSlug,
+  FailureArtifact,
+  FailureReason,
   WorkflowJob,
   WorkflowResult,
 } from '../types/index.js';
 
+const sessionLimiter = createSessionLimiter(config.sessions);
+
+const sessionStateStore =
+  config.sessionState &&
+  createSessionStateStore(config.sessionState.dir, config.sessionState.secret);
+
+/**
+ * Failures worth a rerun in a fresh session. Login failures are not: retrying
+ * invalid credentials risks locking the account out
+ */
+const RETRYABLE_FAILURES: FailureReason[] = ['carrier_unavailable'];
+
+/** Failures after which a stored session must not be reused */
+const LOGIN_FAILURES: FailureReason[] = [
+  'invalid_credentials',
+  'requires_mfa',
+  'password_change',
+];
+
+/** Longest wait for a browser session to close before giving up on it */
+const CLIENT_CLOSE_TIMEOUT_MS = 30 * 1000;
+/** Longest wait for failure evidence from a possibly hung page */
+const ARTIFACT_CAPTURE_TIMEOUT_MS = 15 * 1000;
+
+const artifactStore = createArtifactStore(config.artifacts);
+
 interface WorkflowModule {
   runWorkflow: (
     stagehand: Stagehand,
     job: WorkflowJob,
+    signal?: AbortSignal,
+    tracer?: WorkflowTracer,
+    log?: Logger,
   ) => Promise<WorkflowResult>;
 }
 
 /**
- * Identify carrier from login URL using reverse domain notation with underscores
+ * Second-level labels under which domains are registered one level deeper
+ * (e.g. "example.co.uk")
+ */
+const SECOND_LEVEL_SUFFIXES = new Set(['co', 'com', 'org', 'net', 'gov', 'ac']);
+
+/**
+ * Identify carrier from login URL
+ * Registered carrier domains (see carrier-registry) win; other hostnames get
+ * a slug in reverse domain notation with underscores
  * @param loginUrl - The carrier's login URL
- * @returns Carrier slug in reverse domain notation (e.g., "net_abacus")
+ * @returns Carrier slug (e.g., "net_abacus")
  */
 export function identify(loginUrl: string): CarrierSlug {
   try {
     const url = new URL(loginUrl);
     const hostname = url.hostname.toLowerCase();
-    return extractReverseDomainSlug(hostname);
+    return (
+      findCarrierByHostname(hostname)?.slug ??
+      extractReverseDomainSlug(hostname)
+    );
   } catch {
     return 'unknown';
   }
@@ -32,9 +101,10 @@ export function identify(loginUrl: string): CarrierSlug {
 
 /**
  * Extract reverse domain notation from hostname with underscores
- * Takes the TLD and domain name (last 2 parts), reverses, and joins with underscores
+ * Takes the registrable domain (last 2 parts, or 3 for suffixes like
+ * "co.uk"), reverses, and joins with underscores
  * @param hostname - Full hostname (e.g., "portal.abacus.net")
- * @returns Reverse domain slug (e.g., "net_abacus")
+ * @returns Reverse domain slug (e.g., "net_abacus", "uk_co_example")
  */
 function extractReverseDomainSlug(hostname: string): string {
   const parts = hostname.split('.');
@@ -43,42 +113,284 @@ function extractReverseDomainSlug(hostname: string): string {
     return hostname.replace(/\./g, '_');
   }
 
-  // Extract the last 2 parts (domain + TLD)
+  // Country-code TLDs often register under a second level ("example.co.uk")
   const tld = parts[parts.length - 1];
-  const domain = parts[parts.length - 2];
+  const secondLevel = parts[parts.length - 2];
+  const labelCount =
+    parts.length > 2 &&
+    tld.length === 2 &&
+    SECOND_LEVEL_SUFFIXES.has(secondLevel)
+      ? 3
+      : 2;
 
   // Return reversed with underscores: "abacus.net" -> "net_abacus"
-  return `${tld}_${domain}`;
+  return parts.slice(-labelCount).reverse().join('_');
 }
 
 /**
- * Execute workflow for a carrier
- * @param carrierSlug - Carrier slug in reverse domain notation
+ * Convert statement dates of a successful result to ISO dates
+ * A workflow emitting a date that cannot be parsed fails instead of having
+ * its statements silently filtered out later
+ * @param result - Workflow result
+ * @returns Result with ISO statement dates, or a failed result
+ */
+function normalizeStatementDates(result: WorkflowResult): WorkflowResult {
+  if (!result.success) {
+    return result;
+  }
+
+  try {
+    return {
+      ...result,
+      statements: result.statements.map((statement) => ({
+        ...statement,
+        statementDate: parseStatementDate(statement.statementDate),
+      })),
+    };
+  } catch (error: unknown) {
+    return failedResult(error);
+  }
+}
+
+/**
+ * Record the model(s) a workflow ran with in its result
+ * @param result - Workflow result
+ * @param client - Stagehand client the workflow used, if one was created
+ * @param tracer - Tracer of the run, if it started
+ * @returns Result with model, step retries, LLM calls and, if it was used,
+ * fallbackModel
+ */
+function withModel(
+  result: WorkflowResult,
+  client: StagehandClient | undefined,
+  tracer?: StepTracer,
+): WorkflowResult {
+  if (!client) {
+    return result;
+  }
+  const fallbackModel = client.getFallbackModelUsed();
+  return {
+    ...result,
+    model: client.model,
+    ...(fallbackModel && { fallbackModel }),
+    stepRetries: client.getStepRetries(),
+    llmCalls: tracer?.llmCalls() ?? 0,
+  };
+}
+
+/**
+ * Load the credential's stored session into the client's browser
+ * A state that cannot be loaded is ignored; the workflow logs in instead
+ * @param client - Stagehand client, before the workflow runs
+ * @param key - Session state key (see getSessionStateKey)
+ * @param log - Logger bound to the job
+ * @returns Whether a stored session was restored
+ */
+async function loadSession(
+  client: StagehandClient,
+  key: string,
+  log: Logger,
+): Promise<boolean> {
+  if (!sessionStateStore) {
+    return false;
+  }
+  try {
+    const state = await sessionStateStore.load(key);
+    if (!state) {
+      return false;
+    }
+    await restoreSessionState(client.stagehand.context, state);
+    return true;
+  } catch (error: unknown) {
+    log.warn('Failed to restore session state', {
+      error: getErrorMessage(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Refresh the stored session after a successful run, or drop it after a
+ * login failure so the next job logs in from scratch
+ * @param client - Stagehand client, after the workflow ran
+ * @param key - Session state key (see getSessionStateKey)
+ * @param result - Workflow result
+ * @param log - Logger bound to the job
+ */
+async function storeSession(
+  client: StagehandClient,
+  key: string,
+  result: WorkflowResult,
+  log: Logger,
+): Promise<void> {
+  if (!sessionStateStore) {
+    return;
+  }
+  try {
+    if (result.success) {
+      await sessionStateStore.save(
+        key,
+        await client.stagehand.context.storageState(),
+      );
+    } else if (
+      result.failureReason &&
+      LOGIN_FAILURES.includes(result.failureReason)
+    ) {
+      await sessionStateStore.remove(key);
+    }
+  } catch (error: unknown) {
+    log.warn('Failed to store session state', {
+      error: getErrorMessage(error),
+    });
+  }
+}
+
+/**
+ * Capture and store evidence of a failed attempt from its browser
+ * Files are named after the attempt so reruns do not overwrite them
+ * @param client - Stagehand client of the failed attempt
+ * @param carrier - Registered carrier
+ * @param job - Workflow job
+ * @param attempt - Attempt number, from 1
+ * @param log - Logger bound to the job
+ * @returns Stored artifacts; empty when capturing is off or fails
+ */
+async function collectArtifacts(
+  client: StagehandClient,
+  carrier: Carrier,
+  job: WorkflowJob,
+  attempt: number,
+  log: Logger,
+): Promise<FailureArtifact[]> {
+  if (!artifactStore) {
+    return [];
+  }
+  try {
+    const files = await withTimeout(
+      client.captureArtifacts(),
+      ARTIFACT_CAPTURE_TIMEOUT_MS,
+      'Failure artifacts were not captured in time',
+    );
+    return await saveArtifacts(
+      artifactStore,
+      carrier.slug,
+      job.job_id,
+      files.map((file) => ({
+        ...file,
+        filename: `attempt-${attempt}-${file.filename}`,
+      })),
+      log,
+    );
+  } catch (error: unknown) {
+    log.warn('Failed to collect failure artifacts', {
+      error: getErrorMessage(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Close a Stagehand client, logging rather than throwing on failure
+ * @param client - Stagehand client
+ * @param log - Logger bound to the attempt
+ */
+async function closeClient(client: StagehandClient, log: Logger) {
+  try {
+    await withTimeout(
+      client.close(),
+      CLIENT_CLOSE_TIMEOUT_MS,
+      'Stagehand client did not close in time',
+    );
+  } catch (error) {
+    log.error('Failed to close Stagehand client', { error });
+  }
+}
+
+/**
+ * Run a carrier's workflow once, in a fresh browser session
+ * When the signal aborts, waiting for a session slot stops, or the attempt
+ * (session start, session restore and workflow) is given up on and its
+ * session closed, which also fails any browser call it is still waiting on.
+ * A session that only starts after that is closed as soon as it does. A failed attempt's page is captured as evidence
+ * before the session closes. The run and the steps the workflow names are
+ * traced (see lib/step-tracer).
+ * @param carrier - Registered carrier
  * @param job - Workflow job with credentials and metadata
+ * @param attempt - Attempt number, from 1
+ * @param signal - Job deadline
+ * @param jobLog - Logger bound to the job
  * @returns Promise with workflow result
  */
-export async function executeWorkflow(
-  carrierSlug: CarrierSlug,
+async function runAttempt(
+  carrier: Carrier,
   job: WorkflowJob,
+  attempt: number,
+  signal: AbortSignal | undefined,
+  jobLog: Logger,
 ): Promise<WorkflowResult> {
-  if (carrierSlug === 'unknown') {
-    return {
-      success: false,
-      statements: [],
-      error: `Unknown carrier for URL: ${job.credential.login_url}`,
-    };
+  const log = jobLog.child({ carrier: carrier.slug, attempt });
+  let releaseSession: () => void;
+  try {
+    releaseSession = await sessionLimiter.acquire(carrier.slug, signal);
+  } catch (error: unknown) {
+    // The deadline passed while waiting for a browser slot
+    return failedResult(error);
   }
+  activeBrowserSessions.inc({ carrier: carrier.slug });
+  let pendingClient: Promise<StagehandClient> | undefined;
+  let client: StagehandClient | undefined;
+  let tracer: StepTracer | undefined;
 
-  let client;
-  try {
-    client = await createStagehandClient();
+  const runInSession = async (): Promise<WorkflowResult> => {
+    pendingClient = createStagehandClient({
+      carrierSlug: carrier.slug,
+      signal,
+      log,
+    });
+    const session = await pendingClient;
+    client = session;
+    signal?.throwIfAborted();
+    const sessionKey = getSessionStateKey(job.credential);
+    const sessionRestored = await loadSession(session, sessionKey, log);
 
     // Dynamically import workflow module using carrier slug
     const workflowModule = (await import(
-      `../workflows/${carrierSlug}.js`
+      `../workflows/${carrier.slug}.js`
     )) as WorkflowModule;
+    signal?.throwIfAborted();
+
+    const stepTracer = createStepTracer({
+      jobId: job.job_id,
+      carrierSlug: carrier.slug,
+      attempt,
+      log,
+    });
+    tracer = stepTracer;
+    const stagehand = stepTracer.wrap(session.stagehand);
+    const result = normalizeStatementDates(
+      await stepTracer.run(() =>
+        workflowModule.runWorkflow(
+          stagehand,
+          { ...job, session_restored: sessionRestored },
+          signal,
+          stepTracer,
+          log,
+        ),
+      ),
+    );
+    await storeSession(session, sessionKey, result, log);
+    if (result.success) {
+      return result;
+    }
+    return {
+      ...result,
+      artifacts: await collectArtifacts(session, carrier, job, attempt, log),
+    };
+  };
 
-    return workflowModule.runWorkflow(client.stagehand, job);
+  try {
+    signal?.throwIfAborted();
+    return withModel(await raceAbort(runInSession(), signal), client, tracer);
   } catch (error: unknown) {
     if (
       error instanceof Error &&
@@ -87,23 +399,127 @@ export async function executeWorkflow(
       return {
         success: false,
         statements: [],
-        error: `No workflow implemented for carrier: ${carrierSlug}`,
+        error: `No workflow implemented for carrier: ${carrier.slug}`,
+        failureReason: 'missing_instruction',
       };
     }
 
-    Sentry.captureException(error);
+    const artifacts = client
+      ? await collectArtifacts(client, carrier, job, attempt, log)
+      : [];
+    Sentry.captureException(error, {
+      extra: { failure_artifacts: artifacts.map(({ url }) => url) },
+    });
+    return withModel(
+      {
+        success: false,
+        statements: [],
+        error: `Failed to execute workflow: ${getErrorMessage(error)}`,
+        failureReason: getFailureReason(error),
+        artifacts,
+      },
+      client,
+      tracer,
+    );
+  } finally {
+    if (client) {
+      await closeClient(client, log);
+    } else if (pendingClient) {
+      // Given up on while the session was starting
+      pendingClient.then(
+        (late) => closeClient(late, log),
+        () => undefined,
+      );
+    }
+    activeBrowserSessions.dec({ carrier: carrier.slug });
+    releaseSession();
+  }
+}
+
+/**
+ * Execute workflow for a carrier
+ * Waits for a browser session slot (global and per-carrier limits) first,
+ * and reuses the credential's stored login session when enabled. Runs that
+ * fail with a retryable reason are repeated in a fresh session, with backoff
+ * (WORKFLOW_RETRY_ATTEMPTS); the slot is released while waiting. Once the
+ * signal aborts, the workflow fails with its reason (e.g. timeout).
+ * @param carrierSlug - Registered carrier slug or alias
+ * @param job - Workflow job with credentials and metadata
+ * @param signal - Job deadline, passed on to the workflow
+ * @param log - Logger bound to the job; lines add the carrier and attempt
+ * @returns Promise with workflow result, including attempts, step retries and
+ * LLM calls
+ */
+export async function executeWorkflow(
+  carrierSlug: CarrierSlug,
+  job: WorkflowJob,
+  signal?: AbortSignal,
+  log: Logger = logger.child({ job_id: job.job_id }),
+): Promise<WorkflowResult> {
+  if (carrierSlug === 'unknown') {
     return {
       success: false,
       statements: [],
-      error: `Failed to execute workflow: ${getErrorMessage(error)}`,
+      error: `Unknown carrier for URL: ${job.credential.login_url}`,
+      failureReason: 'missing_instruction',
     };
-  } finally {
-    if (client) {
-      try {
-        await client.close();
-      } catch (error) {
-        console.error('Failed to close Stagehand client:', error);
-      }
+  }
+
+  const carrier = findCarrier(carrierSlug);
+  if (!carrier) {
+    return {
+      success: false,
+      statements: [],
+      error: `No workflow implemented for carrier: ${carrierSlug}`,
+      failureReason: 'missing_instruction',
+    };
+  }
+
+  const policy = config.retry.workflow;
+  let stepRetries = 0;
+  let llmCalls = 0;
+  const artifacts: FailureArtifact[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await runAttempt(carrier, job, attempt, signal, log);
+    stepRetries += result.stepRetries ?? 0;
+    llmCalls += result.llmCalls ?? 0;
+    artifacts.push(...(result.artifacts ?? []));
+
+    if (
+      result.success ||
+      attempt >= policy.attempts ||
+      !RETRYABLE_FAILURES.includes(
+        result.failureReason ?? 'carrier_unavailable',
+      )
+    ) {
+      return {
+        ...result,
+        attempts: attempt,
+        stepRetries,
+        llmCalls,
+        artifacts,
+      };
+    }
+
+    const delayMs = getRetryDelay(policy, attempt);
+    log.warn('Workflow failed, retrying in a fresh session', {
+      carrier: carrier.slug,
+      attempt,
+      max_attempts: policy.attempts,
+      delay_ms: delayMs,
+      error: result.error,
+    });
+    try {
+      await raceAbort(sleep(delayMs), signal);
+    } catch (error: unknown) {
+      return {
+        ...failedResult(error),
+        attempts: attempt,
+        stepRetries,
+        llmCalls,
+        artifacts,
+      };
     }
   }
 }
@@ -111,9 +527,15 @@ export async function executeWorkflow(
 /**
  * Run workflow for supplier statement fetching
  * @param job - Workflow job with credentials and metadata
+ * @param signal - Job deadline
+ * @param log - Logger bound to the job
  * @returns Promise with workflow result
  */
-export async function run(job: WorkflowJob): Promise<WorkflowResult> {
+export async function run(
+  job: WorkflowJob,
+  signal?: AbortSignal,
+  log?: Logger,
+): Promise<WorkflowResult> {
   const carrierSlug = identify(job.credential.login_url);
-  return executeWorkflow(carrierSlug, job);
+  return executeWorkflow(carrierSlug, job, signal, log);
 }
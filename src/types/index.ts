@@ -2,26 +2,53 @@ export interface Statement {
   pdfUrl?: string;
   fileBuffer?: Buffer;
   filename?: string;
+  /** ISO date (YYYY-MM-DD); use parseStatementDate() on portal dates */
   statementDate: string;
 }
 
+/** Range of statement dates to collect; both bounds are inclusive ISO dates */
+export interface AccountingPeriod {
+  start: string;
+  end?: string;
+}
+
 // TODO: this will likely require polymorphism for different carriers
 export interface CarrierCredentials {
   username: string;
   password: string;
   login_url: string;
+  /** Base32 TOTP seed, for portals that prompt for authenticator codes */
+  totp_secret?: string;
 }
 
 export interface WorkflowResult {
   success: boolean;
   statements: Statement[];
   error?: string;
+  failureReason?: FailureReason;
+  /** Stagehand model the workflow ran with ("{provider}/{model}") */
+  model?: string;
+  /** Fallback model, set when it answered at least one call */
+  fallbackModel?: string;
+  /** Number of times the workflow was run, each in a fresh session */
+  attempts?: number;
+  /** Number of act/observe/extract/goto calls retried, across attempts */
+  stepRetries?: number;
+  /** Number of act/observe/extract calls that reached the LLM, across attempts */
+  llmCalls?: number;
+  /** Evidence captured when an attempt failed, across attempts */
+  artifacts?: FailureArtifact[];
 }
 
 export interface FetchStatementsRequest {
   job_id: string;
-  credential: CarrierCredentials;
+  /** Inline credentials; used when no credential_id is given */
+  credential?: CarrierCredentials;
+  /** Reference resolved through the configured credential provider */
+  credential_id?: string;
   accounting_period_start_date: string;
+  /** Inclusive end of the range to backfill; defaults to a single period */
+  accounting_period_end_date?: string;
 }
 
 export interface FetchStatementsResponse {
@@ -29,8 +56,26 @@ export interface FetchStatementsResponse {
   job_id: string;
 }
 
+export interface SubmitMfaCodeRequest {
+  /** One-time code the carrier sent by SMS or email */
+  code: string;
+}
+
+export interface SubmitMfaCodeResponse {
+  message: string;
+  job_id: string;
+}
+
 // Type alias for workflow jobs - can become union type when adding more workflow types
-export type WorkflowJob = FetchStatementsRequest;
+export type WorkflowJob = Omit<
+  FetchStatementsRequest,
+  'credential' | 'credential_id'
+> & {
+  /** Inline or resolved from the request's credential_id */
+  credential: CarrierCredentials;
+  /** Set when a stored login session was loaded into the browser */
+  session_restored?: boolean;
+};
 
 export interface ErrorResponse {
   error: string;
@@ -42,6 +87,8 @@ export interface CloudinaryAttachment {
   url: string;
   title: string;
   etag: string;
+  /** MIME type detected from the file contents */
+  content_type: string;
 }
 
 export interface CreateInboxStatementsRequest {
@@ -59,29 +106,307 @@ export interface CreateInboxStatementsResponse {
   }>;
 }
 
+export type FailureReason =
+  | 'invalid_credentials'
+  | 'requires_mfa'
+  | 'carrier_unavailable'
+  | 'missing_instruction'
+  | 'password_change'
+  | 'timeout';
+
 export interface UpdateJobStatusRequest {
   status: 'success' | 'failed';
-  failure_reason?:
-    | 'invalid_credentials'
-    | 'requires_mfa'
-    | 'carrier_unavailable'
-    | 'missing_instruction'
-    | 'password_change';
+  failure_reason?: FailureReason;
+}
+
+export type JobState =
+  | 'queued'
+  | 'running'
+  | 'awaiting_mfa'
+  | 'uploading'
+  | 'succeeded'
+  | 'failed';
+
+/**
+ * Evidence captured from the browser when a workflow fails
+ * - `screenshot`: full-page PNG (also taken after each step with
+ *   ARTIFACTS_EVERY_STEP)
+ * - `dom`: HTML snapshot of the page
+ * - `console`: browser console messages and page errors
+ * - `har`: network requests, without bodies or auth headers
+ */
+export type ArtifactKind = 'screenshot' | 'dom' | 'console' | 'har';
+
+export interface FailureArtifact {
+  kind: ArtifactKind;
+  filename: string;
+  content_type: string;
+  /** Cloudinary URL or file:// URL of the stored file */
+  url: string;
+}
+
+/** Retries a job needed, reported in its result */
+export interface RetryCounts {
+  /** Number of times the workflow was run, each in a fresh session */
+  workflow_attempts: number;
+  /** Number of act/observe/extract/goto calls retried */
+  step_retries: number;
+  /** Number of statement downloads and uploads retried */
+  upload_retries: number;
+}
+
+export interface JobRecord {
+  job_id: string;
+  request: FetchStatementsRequest;
+  state: JobState;
+  /** Number of times the job has been claimed by a worker */
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  uploading_at?: string;
+  finished_at?: string;
+  carrier_slug?: CarrierSlug;
+  /** Stagehand model the workflow ran with ("{provider}/{model}") */
+  llm_model?: string;
+  /** Fallback model, set when it answered at least one call */
+  llm_fallback_model?: string;
+  statement_count?: number;
+  attachments?: CloudinaryAttachment[];
+  retry_counts?: RetryCounts;
+  failure_artifacts?: FailureArtifact[];
+  error?: string;
+  /** Final status to send to the Admin API, set once the job finishes */
+  status_update?: UpdateJobStatusRequest;
+  reported_at?: string;
+  report_attempts?: number;
+  next_report_at?: string;
+}
+
+export interface JobOutcome {
+  status_update: UpdateJobStatusRequest;
+  error?: string;
+}
+
+/** Progress a running job reports back to the queue */
+export type JobProgress = Partial<
+  Pick<
+    JobRecord,
+    | 'state'
+    | 'carrier_slug'
+    | 'llm_model'
+    | 'llm_fallback_model'
+    | 'statement_count'
+    | 'attachments'
+    | 'retry_counts'
+    | 'failure_artifacts'
+  >
+>;
+
+export interface JobStatusResponse {
+  job_id: string;
+  state: JobState;
+  carrier_slug?: CarrierSlug;
+  llm_model?: string;
+  llm_fallback_model?: string;
+  attempts: number;
+  timestamps: {
+    queued_at: string;
+    started_at?: string;
+    uploading_at?: string;
+    finished_at?: string;
+  };
+  statement_count?: number;
+  attachments: CloudinaryAttachment[];
+  retry_counts?: RetryCounts;
+  failure_artifacts?: FailureArtifact[];
+  failure_reason?: FailureReason;
+  error?: string;
+  reported_at?: string;
+}
+
+/** A carrier with a workflow in src/workflows/{slug}.ts */
+export interface Carrier {
+  slug: CarrierSlug;
+  displayName: string;
+  /** Portal hostnames; subdomains of these match too */
+  domains: string[];
+  /** Other names the carrier is known by, accepted wherever a slug is */
+  aliases: string[];
+  /** File formats the portal serves statements in */
+  statementFormats: string[];
+}
+
+export interface CarrierResponse {
+  slug: CarrierSlug;
+  display_name: string;
+  domains: string[];
+  aliases: string[];
+  statement_formats: string[];
+}
+
+export interface CarriersResponse {
+  carriers: CarrierResponse[];
+}
+
+export interface CarrierThrottle {
+  /** Maximum concurrent browser sessions for the carrier */
+  maxSessions?: number;
+  /** Minimum time between two logins to the carrier's portal */
+  minLoginIntervalMs?: number;
+}
+
+export interface RetryPolicy {
+  /** Total attempts, including the first; 1 disables retries */
+  attempts: number;
+  /** Delay before the first retry, doubled for each further one */
+  baseDelayMs: number;
+}
+
+/**
+ * Where workflows get their browser
+ * - `browserbase`: a Browserbase cloud session
+ * - `local`: Chromium launched on this machine by Playwright
+ * - `cdp`: an already running browser reached through a CDP endpoint
+ */
+export type BrowserProvider = 'browserbase' | 'local' | 'cdp';
+
+/**
+ * LLM used by Stagehand, addressed as "{provider}/{model}"
+ */
+export interface LlmModel {
+  /** AI SDK provider, e.g. "google", "openai", "anthropic", "ollama" */
+  provider: string;
+  /** Model name, e.g. "gemini-2.0-flash-exp" */
+  model: string;
+  /** Defaults to the provider's own environment variable (e.g. OPENAI_API_KEY) */
+  apiKey?: string;
+  /** API endpoint, e.g. a local OpenAI-compatible model server */
+  baseURL?: string;
 }
 
+/**
+ * How act/observe/extract calls are served (see lib/stagehand-recorder)
+ * - `off`: every call goes to the LLM
+ * - `record`: calls go to the LLM and their results are saved per carrier
+ * - `replay`: saved results are served; the LLM is only called when a
+ *   recording is missing or no longer matches the page
+ */
+export type RecordingMode = 'off' | 'record' | 'replay';
+
+/**
+ * Where failure artifacts are stored (see lib/failure-artifacts)
+ * - `off`: nothing is captured
+ * - `local`: a local directory, one folder per job
+ * - `cloudinary`: Cloudinary, under failure_artifacts/{carrier}/{job_id}
+ */
+export type ArtifactStoreType = 'off' | 'local' | 'cloudinary';
+
+/**
+ * Where a job's credential_id is resolved (see services/credential-provider)
+ * - `none`: jobs must carry inline credentials
+ * - `file`: an encrypted local credentials file
+ * - `admin_api`: fetched from the Admin API when the job runs
+ */
+export type CredentialProviderType = 'none' | 'file' | 'admin_api';
+
+/** Minimum level of log lines written (LOG_LEVEL) */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
 export interface AppConfig {
   port: number;
   apiKey: string;
+  logging: {
+    level: LogLevel;
+  };
+  jobs: {
+    dataDir: string;
+    concurrency: number;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    /** How long reported jobs are kept in dataDir */
+    retentionMs: number;
+    /** How long a job waits in awaiting_mfa for an out-of-band code */
+    mfaTimeoutMs: number;
+    /** Deadline for a job's workflow, across retries and MFA waits */
+    timeoutMs: number;
+    /** Budget of a single act/observe/extract/goto call, including retries */
+    stepTimeoutMs: number;
+  };
+  sessions: {
+    maxConcurrent: number;
+    carrierDefaults: Required<CarrierThrottle>;
+    carrierOverrides: Record<CarrierSlug, CarrierThrottle>;
+  };
   adminApi: {
     apiKey: string;
     baseUrl: string;
   };
-  browserbase: {
+  credentials: {
+    provider: CredentialProviderType;
+    /** Encrypted credentials file (file provider only) */
+    filePath: string;
+    /** Passphrase the credentials file is encrypted with (file provider only) */
+    secret?: string;
+  };
+  browser: {
+    provider: BrowserProvider;
+    /** Run the local browser without a window (local provider only) */
+    headless: boolean;
+    /** CDP endpoint (cdp provider only) */
+    cdpUrl?: string;
+    /** Chromium binary to launch instead of Playwright's (local provider only) */
+    executablePath?: string;
+  };
+  recording: {
+    mode: RecordingMode;
+    /** Directory holding one recording file per carrier */
+    dir: string;
+  };
+  /** Set when SESSION_STATE_SECRET is; see lib/session-state */
+  sessionState?: {
+    /** Directory holding one encrypted storage state per credential */
+    dir: string;
+    secret: string;
+  };
+  artifacts: {
+    store: ArtifactStoreType;
+    /** Directory holding one folder of artifacts per job (local store only) */
+    dir: string;
+    /** Also take a screenshot after every act and goto call */
+    everyStep: boolean;
+  };
+  retry: {
+    /** Retries of single act/observe/extract/goto calls */
+    step: RetryPolicy;
+    /**
+     * Reruns of a whole workflow in a fresh session, only after
+     * carrier_unavailable failures (never invalid_credentials, to avoid
+     * locking accounts out)
+     */
+    workflow: RetryPolicy;
+    /** Retries of statement downloads and Cloudinary uploads */
+    upload: RetryPolicy;
+  };
+  selectorCache: {
+    enabled: boolean;
+    /** Directory holding one cache file per carrier */
+    dir: string;
+  };
+  /** Set when the browser provider is browserbase */
+  browserbase?: {
     apiKey: string;
     projectId: string;
   };
-  gemini: {
-    apiKey: string;
+  llm: {
+    model: LlmModel;
+    /** Model retried when a call to the primary model fails */
+    fallback?: LlmModel;
+    /**
+     * Per-carrier changes to the primary model
+     * Credentials are inherited only when the provider is unchanged
+     */
+    carrierOverrides: Record<CarrierSlug, Partial<LlmModel>>;
   };
   cloudinary: {
     cloudName: string;
@@ -1,151 +1,162 @@
 /**
  * Amerisafe workflow script
- * Logs into Amerisafe portal and retrieves commission statement PDF URLs
+ * Logs into Amerisafe portal and retrieves commission statement PDFs
  */
 
 /* eslint-disable */
 
-import type { Stagehand } from '@browserbasehq/stagehand';
-import type { WorkflowJob, WorkflowResult } from '../types/index.js';
-import { getErrorMessage } from '../lib/error-utils.js';
+import { z } from 'zod';
+import type { Page, Stagehand } from '@browserbasehq/stagehand';
+import type {
+  AccountingPeriod,
+  Statement,
+  WorkflowJob,
+  WorkflowResult,
+} from '../types/index.js';
+import { assertLoginSucceeded } from '../lib/login-classifier.js';
+import { fillSecureInput } from '../lib/secure-input.js';
+import { isLoggedIn } from '../lib/session-state.js';
+import { failedResult } from '../lib/workflow-error.js';
+import { untracedWorkflow, type WorkflowTracer } from '../lib/step-tracer.js';
+import { logger, type Logger } from '../lib/logger.js';
+import { captureResponse, isPdfResponse } from '../lib/capture.js';
+import {
+  formatUsDate,
+  getAccountingPeriod,
+  isWithinPeriod,
+  parseStatementDate,
+} from '../lib/statement-date.js';
 
 /**
- * Convert date from YYYY-MM-DD to MM/DD/YYYY format
- * @param dateString - Date in YYYY-MM-DD or MM/DD/YYYY format
- * @returns Date in MM/DD/YYYY format
+ * List the statement dates on the Commission Statements page within a period
+ * @param page - Stagehand page on the Commission Statements page
+ * @param period - Accounting period (inclusive)
+ * @returns ISO statement dates, oldest first
  */
-function formatDateForAmerisafe(dateString: string): string {
-  // If already in MM/DD/YYYY format, return as-is
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(dateString)) {
-    return dateString;
-  }
-
-  // Convert from YYYY-MM-DD to MM/DD/YYYY
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
-    const [year, month, day] = dateString.split('-');
-    return `${month}/${day}/${year}`;
-  }
+async function listStatementDates(
+  page: Page,
+  period: AccountingPeriod,
+): Promise<string[]> {
+  const extracted = await page.extract({
+    instruction: `Extract the date of every commission statement link on the page`,
+    schema: z.object({
+      dates: z.array(z.string()),
+    }),
+  });
+
+  const dates = (extracted.dates ?? []).flatMap((dateStr: string) => {
+    try {
+      return [parseStatementDate(dateStr)];
+    } catch {
+      return [];
+    }
+  });
 
-  return dateString;
+  return [...new Set(dates)]
+    .filter((date) => isWithinPeriod(date, period))
+    .sort();
 }
 
 /**
  * Run workflow for Amerisafe supplier statement fetching
  * @param stagehand - Stagehand client instance
  * @param job - Workflow job with credentials and metadata
+ * @param signal - Job deadline; checked between statements
+ * @param tracer - Records the login, navigate, extract and download steps
+ * @param log - Logger bound to the job and carrier
  * @returns Promise with success status and statements
  */
 export async function runWorkflow(
   stagehand: Stagehand,
   job: WorkflowJob,
+  signal?: AbortSignal,
+  tracer: WorkflowTracer = untracedWorkflow,
+  log: Logger = logger,
 ): Promise<WorkflowResult> {
   const { username, password, login_url: loginUrl } = job.credential;
   const page = stagehand.page;
 
   try {
-    // Convert date to Amerisafe's format (MM/DD/YYYY)
-    const formattedDate = formatDateForAmerisafe(
-      job.accounting_period_start_date,
-    );
-
-    await page.goto(loginUrl);
-
-    await page.act(`type '${username}' into the User Name input field`);
-
-    await page.act(`type '${password}' into the Password input field`);
-
-    await page.act(`click the Login button`);
-
-    await page.act(`click the Commission Statements link`);
-
-    await page.waitForTimeout(2000);
-
-    const statementLinks = await page.observe(
-      `Find the link for the ${formattedDate} statement`,
-    );
-
-    if (!statementLinks || statementLinks.length === 0) {
-      return {
-        success: true,
-        statements: [],
-      };
-    }
+    const period = getAccountingPeriod(job);
 
-    // Get the statement link
-    const linkLocator = page.locator(statementLinks[0].selector);
+    await tracer.step('login', async () => {
+      await page.goto(loginUrl);
 
-    // Set up promise to wait for the PDF response
-    let pdfUrl: string | null = null;
-    let pdfBuffer: Buffer | null = null;
-    let resolvePdfUrl: ((url: string) => void) | null = null;
+      if (!(await isLoggedIn(page, job))) {
+        await fillSecureInput(page, 'User Name input field', username);
 
-    const pdfUrlPromise = new Promise<string>((resolve, reject) => {
-      resolvePdfUrl = resolve;
+        await fillSecureInput(page, 'Password input field', password);
 
-      // Set a timeout in case the PDF never loads
-      setTimeout(() => {
-        if (!pdfUrl) {
-          reject(new Error('Timeout waiting for PDF response'));
-        }
-      }, 10000);
+        await page.act(`click the Login button`);
+        await assertLoginSucceeded(page, job);
+      }
     });
 
-    // Listen for PDF response (link uses JavaScript postback that returns PDF directly)
-    page.on('response', async (response: any) => {
-      const url = response.url();
-      const contentType = response.headers()['content-type'] || '';
+    await tracer.step('navigate', async () => {
+      await page.act(`click the Commission Statements link`);
 
-      if (contentType.includes('pdf') || url.includes('.pdf')) {
-        pdfUrl = url;
-        resolvePdfUrl?.(url);
-      }
+      await page.waitForTimeout(2000);
     });
 
-    await linkLocator.click();
-
-    try {
-      pdfUrl = await pdfUrlPromise;
-    } catch (error) {
-      throw new Error(
-        'Failed to detect PDF response after clicking statement link',
+    const statementDates = await tracer.step('extract', async () =>
+      period.end ? await listStatementDates(page, period) : [period.start],
+    );
+    const statementsUrl = page.url();
+
+    const statements: Statement[] = [];
+
+    for (const statementDate of statementDates) {
+      signal?.throwIfAborted();
+      // Amerisafe lists statements by MM/DD/YYYY
+      const formattedDate = formatUsDate(statementDate);
+
+      const file = await tracer.step(
+        'download',
+        async () => {
+          if (page.url() !== statementsUrl) {
+            await page.goto(statementsUrl);
+          }
+
+          const statementLinks = await page.observe(
+            `Find the link for the ${formattedDate} statement`,
+          );
+
+          if (!statementLinks || statementLinks.length === 0) {
+            return undefined;
+          }
+
+          // Link uses JavaScript postback that returns PDF directly
+          return captureResponse(
+            page,
+            () => page.locator(statementLinks[0].selector).click(),
+            { match: isPdfResponse },
+          );
+        },
+        { statement_date: statementDate },
       );
-    }
 
-    if (pdfUrl) {
-      const response = await page.request.get(pdfUrl);
-
-      if (!response.ok()) {
-        throw new Error(
-          `Failed to fetch PDF: ${response.status()} ${response.statusText()}`,
-        );
+      if (!file) {
+        log.warn('No statement link found', { statement_date: statementDate });
+        continue;
       }
 
-      pdfBuffer = await response.body();
-    }
+      log.info('Captured statement PDF', {
+        statement_date: statementDate,
+        bytes: file.buffer.length,
+      });
 
-    if (!pdfBuffer || pdfBuffer.length === 0) {
-      throw new Error('Failed to capture PDF content');
+      statements.push({
+        fileBuffer: file.buffer,
+        filename: `Amerisafe_Statement_${statementDate}.pdf`,
+        statementDate,
+      });
     }
 
-    console.log(
-      `Successfully captured PDF: ${pdfBuffer.length} bytes for statement date ${formattedDate}`,
-    );
-
     return {
       success: true,
-      statements: [
-        {
-          fileBuffer: pdfBuffer,
-          filename: `Amerisafe_Statement_${formattedDate}.pdf`,
-          statementDate: formattedDate,
-        },
-      ],
+      statements,
     };
   } catch (error: unknown) {
-    return {
-      success: false,
-      statements: [],
-      error: getErrorMessage(error),
-    };
+    return failedResult(error);
   }
 }
@@ -3,167 +3,30 @@
  * Logs into Advantage Partners portal and retrieves commission statement Excel files
  */
 
-/* eslint-disable */
-
-import { z } from 'zod';
-import type { Stagehand } from '@browserbasehq/stagehand';
-import type { WorkflowJob, WorkflowResult } from '../types/index.js';
-import { getErrorMessage } from '../lib/error-utils.js';
+import { createDeclarativeWorkflow } from '../lib/declarative-workflow.js';
 
 /**
  * Run workflow for Advantage Partners supplier statement fetching
- * @param stagehand - Stagehand client instance
- * @param job - Workflow job with credentials and metadata
- * @returns Promise with success status and statements
+ * Statements are monthly rows; each row's download button submits a form
+ * that returns the Excel file
  */
-export async function runWorkflow(
-  stagehand: Stagehand,
-  job: WorkflowJob,
-): Promise<WorkflowResult> {
-  const { username, password, login_url: loginUrl } = job.credential;
-  const page = stagehand.page;
-
-  try {
-    await page.goto(loginUrl);
-
-    await page.act(`type '${username}' into the Email/Username input`);
-    await page.act(`type '${password}' into the Password input`);
-    await page.act(`click the Login button`);
-    await page.waitForTimeout(2000);
-
-    const extractedStatements = await page.extract({
-      instruction: `Extract all statements from the table. For each row, get the month and year.`,
-      schema: z.object({
-        statements: z.array(
-          z.object({
-            month: z.string(),
-            year: z.string(),
-          }),
-        ),
-      }),
-    });
-
-    if (
-      !extractedStatements.statements ||
-      extractedStatements.statements.length === 0
-    ) {
-      return {
-        success: true,
-        statements: [],
-      };
-    }
-
-    const [year, month, day] = job.accounting_period_start_date
-      .split('-')
-      .map(Number);
-    const targetDate = new Date(Date.UTC(year, month - 1, day));
-    const targetMonth = targetDate.toLocaleString('en-US', {
-      month: 'long',
-      timeZone: 'UTC',
-    });
-    const targetYear = targetDate.getUTCFullYear().toString();
-
-    console.log(`Looking for statement: ${targetMonth} ${targetYear}`);
-    console.log(
-      `Available statements: ${extractedStatements.statements.map((s) => `${s.month} ${s.year}`).join(', ')}`,
-    );
-
-    const matchingStatement = extractedStatements.statements.find(
-      (stmt) =>
-        stmt.month.toLowerCase() === targetMonth.toLowerCase() &&
-        stmt.year === targetYear,
-    );
-
-    if (!matchingStatement) {
-      return {
-        success: true,
-        statements: [],
-      };
-    }
-
-    const downloadButtons = await page.observe(
-      `Find the download button in the row with ${matchingStatement.month} ${matchingStatement.year}`,
-    );
-
-    if (!downloadButtons || downloadButtons.length === 0) {
-      throw new Error(
-        `Could not find download button for ${matchingStatement.month} ${matchingStatement.year}`,
-      );
-    }
-
-    const buttonLocator = page.locator(downloadButtons[0].selector);
-
-    // Step 6: Extract form data and download the file
-    // Extract form data from the button
-    const buttonInfo = await buttonLocator.evaluate((el: any) => {
-      const form = el.closest('form');
-      if (!form) {
-        throw new Error('Download button is not inside a form');
-      }
-
-      const formData: any = {};
-      const inputs = form.querySelectorAll('input, button, select, textarea');
-
-      inputs.forEach((input: any) => {
-        if (input.name) {
-          formData[input.name] = input.value;
-        }
-      });
-
-      return {
-        formAction: form.action,
-        formData,
-        buttonName: el.name,
-        buttonValue: el.value,
-      };
-    });
-
-    if (!buttonInfo.formAction || !buttonInfo.buttonName) {
-      throw new Error('Download button does not have expected form structure');
-    }
-
-    const postData = {
-      ...buttonInfo.formData,
-      [buttonInfo.buttonName]: buttonInfo.buttonValue,
-    };
-
-    const response = await page.request.post(buttonInfo.formAction, {
-      form: postData,
-    });
-
-    if (!response.ok()) {
-      throw new Error(
-        `Failed to fetch Excel file: ${response.status()} ${response.statusText()}`,
-      );
-    }
-
-    const fileBytes = await response.body();
-
-    if (!fileBytes || fileBytes.length === 0) {
-      throw new Error('Downloaded file is empty');
-    }
-
-    const statementDate = job.accounting_period_start_date;
-
-    console.log(
-      `Successfully captured Excel file: ${fileBytes.length} bytes for ${matchingStatement.month} ${matchingStatement.year}`,
-    );
-
-    return {
-      success: true,
-      statements: [
-        {
-          fileBuffer: fileBytes,
-          filename: `AP_Statement_${matchingStatement.month}_${matchingStatement.year}.xlsx`,
-          statementDate,
-        },
-      ],
-    };
-  } catch (error: unknown) {
-    return {
-      success: false,
-      statements: [],
-      error: getErrorMessage(error),
-    };
-  }
-}
+export const runWorkflow = createDeclarativeWorkflow({
+  login: {
+    usernameField: 'Email/Username input',
+    passwordField: 'Password input',
+    submitButton: 'Login button',
+    waitMs: 2000,
+  },
+  navigation: [],
+  table: {
+    instruction:
+      'Extract all statements from the table. For each row, get the month and year.',
+    dateColumns: ['month', 'year'],
+    monthly: true,
+  },
+  download: {
+    control: 'Find the download button in the row with {month} {year}',
+    capture: { strategy: 'form_post' },
+    filename: 'AP_Statement_{month}_{year}.xlsx',
+  },
+});
@@ -6,119 +6,135 @@
 /* eslint-disable */
 
 import type { Stagehand } from '@browserbasehq/stagehand';
-import type { WorkflowJob, WorkflowResult } from '../types/index.js';
-import { getErrorMessage } from '../lib/error-utils.js';
+import type { Statement, WorkflowJob, WorkflowResult } from '../types/index.js';
+import { assertLoginSucceeded } from '../lib/login-classifier.js';
+import { fillSecureInput } from '../lib/secure-input.js';
+import { isLoggedIn } from '../lib/session-state.js';
+import { failedResult } from '../lib/workflow-error.js';
+import { untracedWorkflow, type WorkflowTracer } from '../lib/step-tracer.js';
+import { logger, type Logger } from '../lib/logger.js';
+import { captureRoute } from '../lib/capture.js';
+import {
+  getAccountingPeriod,
+  getPeriodEnd,
+  isWithinPeriod,
+  parseStatementDate,
+} from '../lib/statement-date.js';
 import { z } from 'zod';
 
 /**
  * Run workflow for UFG Insurance supplier statement fetching
  * @param stagehand - Stagehand client instance
  * @param job - Workflow job with credentials and metadata
+ * @param signal - Job deadline; checked between statements
+ * @param tracer - Records the login, navigate, extract and download steps
+ * @param log - Logger bound to the job and carrier
  * @returns Promise with success status and statements
  */
 export async function runWorkflow(
   stagehand: Stagehand,
   job: WorkflowJob,
+  signal?: AbortSignal,
+  tracer: WorkflowTracer = untracedWorkflow,
+  log: Logger = logger,
 ): Promise<WorkflowResult> {
   const { username, password, login_url: loginUrl } = job.credential;
   const page = stagehand.page;
 
   try {
-    await page.goto(loginUrl);
-    await page.act(`type '${username}' into the User ID input`);
-    await page.act(`type '${password}' into the Password input`);
-    await page.act(`click the Submit button`);
-    await page.waitForTimeout(2000);
-
-    await page.act(`click the REPORTS menu item`);
-    await page.act(`click the Agency Statements button`);
-
-    await page.waitForSelector('.uikit__loading-indicator', {
-      state: 'detached',
-      timeout: 45000,
+    await tracer.step('login', async () => {
+      await page.goto(loginUrl);
+      if (!(await isLoggedIn(page, job))) {
+        await fillSecureInput(page, 'User ID input', username);
+        await fillSecureInput(page, 'Password input', password);
+        await page.act(`click the Submit button`);
+        await page.waitForTimeout(2000);
+        await assertLoginSucceeded(page, job);
+      }
     });
-    await page.waitForTimeout(2000);
 
-    const tableIsLoaded = page.getByText(
-      'Direct Bill Monthly Commissions (100 Series Policies)',
-    );
-    if (!tableIsLoaded) {
-      throw new Error('Statements table did not load properly.');
-    }
+    await tracer.step('navigate', async () => {
+      await page.act(`click the REPORTS menu item`);
+      await page.act(`click the Agency Statements button`);
 
-    const extractedStatements = await page.extract({
-      instruction: `Extract all the dates from the table in the "Direct Bill Monthly Commissions" section. Each row has a date in the first column.`,
-      schema: z.object({
-        dates: z.array(z.string()),
-      }),
-    });
+      await page.waitForSelector('.uikit__loading-indicator', {
+        state: 'detached',
+        timeout: 45000,
+      });
+      await page.waitForTimeout(2000);
 
-    // Normalize date format: MM/DD/YYYY -> YYYY-MM-DD
-    const normalizeDate = (dateStr: string): string => {
-      if (dateStr.includes('/')) {
-        const [month, day, year] = dateStr.split('/');
-        return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+      const tableIsLoaded = page.getByText(
+        'Direct Bill Monthly Commissions (100 Series Policies)',
+      );
+      if (!tableIsLoaded) {
+        throw new Error('Statements table did not load properly.');
       }
-      return dateStr;
-    };
-
-    const targetDateNormalized = normalizeDate(
-      job.accounting_period_start_date,
-    );
+    });
 
-    const matchingDate = extractedStatements.dates?.find(
-      (dateStr: string) => normalizeDate(dateStr) === targetDateNormalized,
+    const extractedStatements = await tracer.step('extract', () =>
+      page.extract({
+        instruction: `Extract all the dates from the table in the "Direct Bill Monthly Commissions" section. Each row has a date in the first column.`,
+        schema: z.object({
+          dates: z.array(z.string()),
+        }),
+      }),
     );
 
-    if (!matchingDate) {
-      throw new Error(
-        `No statement found for ${job.accounting_period_start_date}. Available: ${extractedStatements.dates?.join(', ')}`,
-      );
-    }
-
-    // Capture PDF via route interception (avoids CDP errors from new tab)
-    let pdfBuffer: Buffer | null = null;
-
-    await page.route('**/*agency-statement*', async (route: any) => {
-      try {
-        const response = await route.fetch();
-        const buffer = (await response.body()) as Buffer;
-
-        if (buffer && buffer.length > 0) {
-          pdfBuffer = buffer;
-          console.log('PDF captured, size:', buffer.length);
-        }
+    const period = getAccountingPeriod(job);
+    const targetPeriod = { start: period.start, end: getPeriodEnd(period) };
 
-        await route.fulfill({ response });
-      } catch (err: any) {
-        console.error('Error in route handler:', err.message);
+    // Skip rows whose first column isn't a date (e.g. section headers)
+    const matchingDates = (extractedStatements.dates ?? []).flatMap(
+      (dateStr: string) => {
         try {
-          await route.continue();
-        } catch (e) {
-          console.error('Failed to continue route:', e);
+          const isoDate = parseStatementDate(dateStr);
+          return isWithinPeriod(isoDate, targetPeriod)
+            ? [{ label: dateStr, isoDate }]
+            : [];
+        } catch {
+          return [];
         }
-      }
-    });
-
-    const buttonAction = await page.observe({
-      instruction: `Find the Monthly Statement button in the row with date ${matchingDate}`,
-      returnAction: true,
-    });
+      },
+    );
 
-    if (!buttonAction || buttonAction.length === 0) {
+    if (matchingDates.length === 0) {
       throw new Error(
-        `Could not find Monthly Statement button for ${matchingDate}`,
+        `No statement found between ${targetPeriod.start} and ${targetPeriod.end}. Available: ${extractedStatements.dates?.join(', ')}`,
       );
     }
 
-    // Click button and wait for PDF capture (CDP errors may occur but are caught)
-    const clickAndWait = async () => {
-      await page.locator(buttonAction[0].selector).click();
+    const statements: Statement[] = [];
+
+    for (const matchingDate of matchingDates) {
+      signal?.throwIfAborted();
+      const file = await tracer.step(
+        'download',
+        async () => {
+          const buttonAction = await page.observe({
+            instruction: `Find the Monthly Statement button in the row with date ${matchingDate.label}`,
+            returnAction: true,
+          });
+
+          if (!buttonAction || buttonAction.length === 0) {
+            throw new Error(
+              `Could not find Monthly Statement button for ${matchingDate.label}`,
+            );
+          }
 
-      const startTime = Date.now();
-      while (!pdfBuffer && Date.now() - startTime < 8000) {
-        await page.waitForTimeout(500);
-      }
+          // Capture PDF via route interception (avoids CDP errors from new tab)
+          return captureRoute(
+            page,
+            '**/*agency-statement*',
+            () => page.locator(buttonAction[0].selector).click(),
+            { timeoutMs: 8000 },
+          );
+        },
+        { statement_date: matchingDate.isoDate },
+      );
+      log.info('Captured statement PDF', {
+        statement_date: matchingDate.isoDate,
+        bytes: file.buffer.length,
+      });
 
       // Close any blob URL tabs that opened
       try {
@@ -129,46 +145,21 @@ export async function runWorkflow(
           }
         }
       } catch (err) {
-        console.log('Error closing popup pages:', err);
+        log.warn('Failed to close popup pages', { error: err });
       }
-    };
 
-    try {
-      await clickAndWait();
-    } catch (err: any) {
-      console.log(
-        'Error during click/wait, checking if PDF was captured:',
-        err.message,
-      );
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      if (!pdfBuffer) {
-        throw err;
-      }
-      console.log('PDF captured despite error, continuing');
-    }
-
-    if (!pdfBuffer) {
-      throw new Error('Failed to capture PDF via network interception');
+      statements.push({
+        fileBuffer: file.buffer,
+        filename: `UFG_Statement_${matchingDate.isoDate}.pdf`,
+        statementDate: matchingDate.isoDate,
+      });
     }
 
-    const filename = `UFG_Statement_${job.accounting_period_start_date.replace(/\//g, '-')}.pdf`;
-
     return {
       success: true,
-      statements: [
-        {
-          fileBuffer: pdfBuffer,
-          filename,
-          statementDate: job.accounting_period_start_date,
-        },
-      ],
+      statements,
     };
   } catch (error: unknown) {
-    return {
-      success: false,
-      statements: [],
-      error: getErrorMessage(error),
-    };
+    return failedResult(error);
   }
 }
@@ -1,130 +1,176 @@
 /**
  * Abacus workflow script
- * Logs into Abacus portal and retrieves commission statement PDF URLs
+ * Logs into Abacus portal and retrieves commission statement PDFs
  */
 
 /* eslint-disable */
 
-import type { Stagehand } from '@browserbasehq/stagehand';
-import type { WorkflowJob, WorkflowResult } from '../types/index.js';
-import { getErrorMessage } from '../lib/error-utils.js';
+import { z } from 'zod';
+import type { Page, Stagehand } from '@browserbasehq/stagehand';
+import type {
+  AccountingPeriod,
+  Statement,
+  WorkflowJob,
+  WorkflowResult,
+} from '../types/index.js';
+import { assertLoginSucceeded } from '../lib/login-classifier.js';
+import { fillSecureInput } from '../lib/secure-input.js';
+import { isLoggedIn } from '../lib/session-state.js';
+import { failedResult } from '../lib/workflow-error.js';
+import { untracedWorkflow, type WorkflowTracer } from '../lib/step-tracer.js';
+import { logger, type Logger } from '../lib/logger.js';
+import { captureResponse, isPdfResponse } from '../lib/capture.js';
+import {
+  getAccountingPeriod,
+  isWithinPeriod,
+  parseStatementDate,
+} from '../lib/statement-date.js';
+
+/**
+ * List the billing periods on the Statements page that start within a period
+ * @param page - Stagehand page on the Statements page
+ * @param period - Accounting period (inclusive)
+ * @returns ISO billing period start dates, oldest first
+ */
+async function listBillingPeriods(
+  page: Page,
+  period: AccountingPeriod,
+): Promise<string[]> {
+  const extracted = await page.extract({
+    instruction: `Extract the start date of the billing period of every statement in the list`,
+    schema: z.object({
+      dates: z.array(z.string()),
+    }),
+  });
+
+  const dates = (extracted.dates ?? []).flatMap((dateStr: string) => {
+    try {
+      return [parseStatementDate(dateStr)];
+    } catch {
+      return [];
+    }
+  });
+
+  return [...new Set(dates)]
+    .filter((date) => isWithinPeriod(date, period))
+    .sort();
+}
 
 /**
  * Run workflow for Abacus supplier statement fetching
  * @param stagehand - Stagehand client instance
  * @param job - Workflow job with credentials and metadata
+ * @param signal - Job deadline; checked between statements
+ * @param tracer - Records the login, navigate, extract and download steps
+ * @param log - Logger bound to the job and carrier
  * @returns Promise with success status and statements
  */
 export async function runWorkflow(
   stagehand: Stagehand,
   job: WorkflowJob,
+  signal?: AbortSignal,
+  tracer: WorkflowTracer = untracedWorkflow,
+  log: Logger = logger,
 ): Promise<WorkflowResult> {
   const { username, password, login_url: loginUrl } = job.credential;
   const page = stagehand.page;
 
   try {
-    // Set up listeners to catch PDF URLs from new tabs/pages
-    let pdfUrl: string | null = null;
-
-    // Listen for new pages/tabs (for PDF opening in new tab)
-    page.context().on('page', async (newPage: any) => {
-      try {
-        // Wait for the new page to start loading
-        await newPage.waitForLoadState('domcontentloaded', { timeout: 5000 });
-        const url = newPage.url();
-        if (
-          url.includes('.pdf') ||
-          url.includes('documents.abacus.net') ||
-          url.includes('/account/statements/')
-        ) {
-          pdfUrl = url;
-        }
-      } catch {
-        // Try to get URL even if page didn't fully load
-        const url = newPage.url();
-        if (
-          url &&
-          (url.includes('.pdf') ||
-            url.includes('documents.abacus.net') ||
-            url.includes('/account/statements/'))
-        ) {
-          pdfUrl = url;
-        }
-      }
-    });
+    await tracer.step('login', async () => {
+      // Step 1: Navigate to URL
+      await page.goto(loginUrl);
+
+      // Skip the login steps while a restored session is still valid
+      if (!(await isLoggedIn(page, job))) {
+        // Step 2: Type username
+        await fillSecureInput(page, 'Username input', username);
 
-    // Also listen for responses in current page
-    page.on('response', async (response: any) => {
-      const contentType = response.headers()['content-type'] || '';
-      const url = response.url();
+        // Step 3: Type password
+        await fillSecureInput(page, 'Password input', password);
 
-      if (contentType.includes('pdf') || url.includes('.pdf')) {
-        pdfUrl = url;
+        // Step 4: Click Log In button
+        await page.act(`click the Log In button`);
+        await assertLoginSucceeded(page, job);
       }
     });
 
-    // Step 1: Navigate to URL
-    await page.goto(loginUrl);
-
-    // Step 2: Type username
-    await page.act(`type '${username}' into the Username input`);
+    await tracer.step('navigate', async () => {
+      // Step 5: Click My Firm menu item
+      await page.act(`click the My Firm menu item`);
 
-    // Step 3: Type password
-    await page.act(`type '${password}' into the Password input`);
+      // Step 6: Click Statements option in dropdown
+      await page.act(`click the Statements option in the dropdown`);
 
-    // Step 4: Click Log In button
-    await page.act(`click the Log In button`);
-
-    // Step 5: Click My Firm menu item
-    await page.act(`click the My Firm menu item`);
+      await page.waitForTimeout(3000);
+    });
 
-    // Step 6: Click Statements option in dropdown
-    await page.act(`click the Statements option in the dropdown`);
+    // Step 7: Retrieve the statement download links for the accounting period
+    const downloads = await tracer.step('extract', async () => {
+      const period = getAccountingPeriod(job);
+      const billingPeriods = period.end
+        ? await listBillingPeriods(page, period)
+        : [period.start];
+
+      const links: { statementDate: string; pdfLinkUrl: string }[] = [];
+
+      for (const statementDate of billingPeriods) {
+        signal?.throwIfAborted();
+        const buttons = await page.observe(
+          `Find the Download button for the Statement with billing period of ${statementDate}`,
+        );
+        if (!buttons || buttons.length === 0) {
+          throw new Error(
+            `Could not find Download button for billing period ${statementDate}`,
+          );
+        }
 
-    await page.waitForTimeout(3000);
+        const buttonLocator = page.locator(buttons[0].selector);
+        const pdfLinkUrl = await buttonLocator.evaluate((el: any) => el.href);
 
-    // Step 7: Retrieve the statement button for specified accounting period
-    const buttons = await page.observe(
-      `Find the Download button for the Statement with billing period of ${job.accounting_period_start_date}`,
-    );
-    const buttonLocator = page.locator(buttons[0].selector);
-    const pdfLinkUrl = await buttonLocator.evaluate((el: any) => el.href);
+        if (!pdfLinkUrl) {
+          throw new Error('Could not find PDF download link');
+        }
 
-    if (!pdfLinkUrl) {
-      throw new Error('Could not find PDF download link');
-    }
+        links.push({ statementDate, pdfLinkUrl });
+      }
+      return links;
+    });
 
-    // Navigate to statement page to intercept the S3 PDF URL
-    // Note: This may throw ERR_ABORTED because PDF download aborts navigation
-    try {
-      await page.goto(pdfLinkUrl, {
-        waitUntil: 'domcontentloaded',
-        timeout: 5000,
+    const statements: Statement[] = [];
+
+    for (const { statementDate, pdfLinkUrl } of downloads) {
+      signal?.throwIfAborted();
+      // The statement page redirects to the PDF (stored on S3)
+      // Note: goto may throw ERR_ABORTED because the PDF download aborts navigation
+      const file = await tracer.step(
+        'download',
+        () =>
+          captureResponse(
+            page,
+            () =>
+              page
+                .goto(pdfLinkUrl, { waitUntil: 'domcontentloaded' })
+                .catch(() => undefined),
+            {
+              match: isPdfResponse,
+              fallbackFilename: `Abacus_Statement_${statementDate}.pdf`,
+            },
+          ),
+        { statement_date: statementDate },
+      );
+
+      statements.push({
+        fileBuffer: file.buffer,
+        filename: file.filename,
+        statementDate,
       });
-    } catch {
-      // Ignore navigation errors - PDF URL should be intercepted by now
-    }
-
-    await page.waitForTimeout(2000);
-
-    if (!pdfUrl) {
-      throw new Error('Could not intercept PDF URL');
     }
 
     return {
       success: true,
-      statements: [
-        {
-          pdfUrl,
-          statementDate: job.accounting_period_start_date,
-        },
-      ],
+      statements,
     };
   } catch (error: unknown) {
-    return {
-      success: false,
-      statements: [],
-      error: getErrorMessage(error),
-    };
+    return failedResult(error);
   }
 }